@@ -1,178 +1,540 @@
 
-import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, FaceLandmarker, HandLandmarker } from 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/+esm';
-import ControlPanel from './components/ControlPanel';
-import { FlowerSpecies, PlantConfig, Seed, Plant, Particle, InteractionState } from './types';
-import { drawSeed, drawPlant, drawParticle } from './utils/drawing';
+import React, { useEffect, useReducer, useRef, useState } from 'react';
+import ControlPanel, { GardenEditState } from './components/ControlPanel';
+import StartupScreen from './components/StartupScreen';
+import CalibrationWizard from './components/CalibrationWizard';
+import { PlantConfig, InteractionState, GestureThresholds, Handedness } from './types';
+import {
+  drawFocusAura, drawSelectionHighlight, drawConversionBrush, drawEraserCursor
+} from './utils/drawing';
+import { GardenRenderer } from './utils/render/gardenRenderer';
+import { isWebGLAvailable } from './utils/render/webglSprites';
+import { createDetectionBackend, LandmarkPipeline } from './utils/vision/landmarkPipeline';
+import { DEFAULT_DETECTION_RATES, DetectionBackend } from './utils/vision/types';
+import { classifyCameraError, INITIAL_STARTUP, startupReducer } from './utils/startup';
+import { GardenSimulation, ConversionScope, CONVERSION_RADIUS } from './utils/simulation';
+import { getHudModel, HudBar } from './utils/hud';
+import { drawContributorTag, drawMoveTarget, drawPlantMenu, getPlantMenuLayout } from './utils/plantMenu';
+import { surfaceBelow } from './utils/terrain';
+import { Size, ViewMapping } from './utils/coordinates';
+import {
+  CameraDevice, listCameras, loadCameraSettings, saveCameraSettings, openCamera, stopStream
+} from './utils/camera';
+import { SessionRecorder, RecordingOptions } from './utils/recording';
+import { SoundEngine } from './utils/audio/soundEngine';
+import { MicrophoneLevel } from './utils/audio/microphone';
+import {
+  GardenFile, serializeGarden, deserializeGarden, saveAutosave, loadAutosave, migrateGardenFile,
+  readShareCodeFromHash, clearShareHash, buildShareUrl, downloadGardenFile, readGardenFile
+} from './utils/persistence';
+import {
+  SyncSession, SyncState, countContributions, createTransport, loadSyncSettings, saveSyncSettings
+} from './utils/sync/session';
+import { SyncSettings } from './utils/sync/types';
+import { exportGardenSvg, exportGardenPng } from './utils/imageExport';
+import {
+  LandmarkRecorder, LandmarkPlayer, readLandmarkRecording, downloadLandmarkRecording
+} from './utils/landmarkRecording';
+import { InputProvider, InputProviderId, resetInteraction, createInteractionState } from './utils/input/types';
+import { CameraInputProvider } from './utils/input/cameraProvider';
+import { isTypingTarget, PointerInputProvider } from './utils/input/pointerProvider';
+import { ReplayInputProvider } from './utils/input/replayProvider';
+import { DEFAULT_GESTURE_THRESHOLDS, HANDEDNESS } from './utils/gestures';
+import { loadProfiles, saveProfile, deleteProfile, getActiveProfile, setActiveProfile } from './utils/calibration';
+import { getSpeciesColor, listSpecies, subscribeSpecies } from './utils/species/registry';
+import { loadSpeciesPack } from './utils/species/packs';
+
+const AUTOSAVE_INTERVAL = 3000; // ms
+const STATS_INTERVAL = 500; // ms between frame rate overlay updates
+const CONTRIBUTIONS_INTERVAL = 1000; // ms between updates of the shared garden's plant counts
+const PINCH_INDICATOR_COLORS: Record<Handedness, string> = { Left: '#22d3ee', Right: '#4ade80' };
 
 const App: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [loading, setLoading] = useState(true);
+  const [startup, dispatchStartup] = useReducer(startupReducer, INITIAL_STARTUP);
   const [showControls, setShowControls] = useState(true);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isCapturingLandmarks, setIsCapturingLandmarks] = useState(false);
+  const [inputMode, setInputMode] = useState<InputProviderId | null>(null);
+  const [cameraAvailable, setCameraAvailable] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [profiles, setProfiles] = useState(loadProfiles);
+  const [species, setSpecies] = useState(listSpecies);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [syncSettings, setSyncSettings] = useState(loadSyncSettings);
+  const [syncState, setSyncState] = useState<SyncState | null>(null);
+  const [contributions, setContributions] = useState<Record<string, number>>({});
+  const [editState, setEditState] = useState<GardenEditState>({
+    pendingConversion: null, canUndo: false, canRedo: false, hasSelection: false,
+  });
+  const [activeProfile, setActiveProfileName] = useState(() => {
+    const name = getActiveProfile();
+    return name && profiles[name] ? name : null;
+  });
   
   // Updated Config State (No themeColor)
   const [config, setConfig] = useState<PlantConfig>({
     selectedSpecies: 'Random',
     growthHeightFactor: 1.0, // Default to 100% height
+    growthMode: 'all',
+    focusSource: 'face',
+    focusRadius: 150,
+    lifecycleSpeed: 1,
+    windStrength: 0.3,
+    eraserRadius: 60,
+    terrainTool: 'off',
+    plantingRules: { spacing: true, bounce: true, competition: false, leanAway: true },
+    renderer: 'canvas',
+    showStats: false,
+    camera: loadCameraSettings(),
+    sound: { muted: false, volume: 0.6, micGrowth: false },
+    gestures: (activeProfile && profiles[activeProfile]) || DEFAULT_GESTURE_THRESHOLDS,
   });
 
   // HUD Refs
-  const pinchBarRef = useRef<HTMLDivElement>(null);
-  const pinchTextRef = useRef<HTMLSpanElement>(null);
+  const leftPinchBarRef = useRef<HTMLDivElement>(null);
+  const leftPinchTextRef = useRef<HTMLSpanElement>(null);
+  const rightPinchBarRef = useRef<HTMLDivElement>(null);
+  const rightPinchTextRef = useRef<HTMLSpanElement>(null);
   const growthBarRef = useRef<HTMLDivElement>(null);
   const growthTextRef = useRef<HTMLSpanElement>(null);
   const clearBarRef = useRef<HTMLDivElement>(null);
   const clearTextRef = useRef<HTMLSpanElement>(null);
   const clearContainerRef = useRef<HTMLDivElement>(null);
 
-  // Simulation State Refs
-  const seedsRef = useRef<Seed[]>([]);
-  const plantsRef = useRef<Plant[]>([]);
-  const particlesRef = useRef<Particle[]>([]);
-  const interactionRef = useRef<InteractionState>({
-    isPinching: false,
-    pinchLocation: null,
-    pinchProximity: 0,
-    mouthOpenness: 0,
-    isPalmOpen: false, // Updated from isFistClenched
-    clearTimer: 0,     // Updated from fistTimer
-  });
+  // Headless simulation engine (seeds, plants, particles live in here)
+  const [simulation] = useState(() => new GardenSimulation({
+    width: 1280,
+    height: 720,
+    config,
+    seed: Date.now(),
+  }));
+  const [recorder] = useState(() => new SessionRecorder());
+  const [landmarkRecorder] = useState(() => new LandmarkRecorder());
+  const [soundEngine] = useState(() => new SoundEngine());
+  // Humming as a growth input, while switched on; providerMouthRef is the mouth opening before it's added
+  const microphoneRef = useRef<MicrophoneLevel | null>(null);
+  const providerMouthRef = useRef(0);
+  // Shared garden session, while this station is part of one (see utils/sync)
+  const syncRef = useRef<SyncSession | null>(null);
+  // Active input source (camera, pointer/keyboard or replay); the camera provider is kept for switching back
+  const inputProviderRef = useRef<InputProvider | null>(null);
+  const cameraProviderRef = useRef<CameraInputProvider | null>(null);
+  const interactionRef = useRef<InteractionState>(createInteractionState());
+  // Garden ↔ screen mapping for the current frame (see utils/coordinates)
+  const viewRef = useRef(new ViewMapping({ width: 1280, height: 720 }, { width: 1280, height: 720 }, true));
   
-  // Vision Models
-  const faceLandmarkerRef = useRef<FaceLandmarker | null>(null);
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null);
-  const lastVideoTimeRef = useRef(-1);
+  // Vision models, running in a worker where possible (see utils/vision)
+  const detectionBackendRef = useRef<DetectionBackend | null>(null);
+  const mountedRef = useRef(true);
   const requestRef = useRef<number>();
   const lastTimeRef = useRef<number>(0);
-
-  // Debounce logic for pinch
-  const pinchCooldownRef = useRef(0);
+  // Live canvas renderer (sprite caches, terrain layer and plant sprites), created with the canvas context
+  const rendererRef = useRef<GardenRenderer | null>(null);
+  const [webglAvailable] = useState(isWebGLAvailable);
+  // Frame rate overlay: frames counted since statsTimeRef, shown every STATS_INTERVAL
+  const statsRef = useRef<HTMLDivElement>(null);
+  const statsFramesRef = useRef(0);
+  const statsTimeRef = useRef(0);
 
   // Ref for config to be accessed inside requestAnimationFrame loop
   const configRef = useRef(config);
+  // Last edit state pushed to React, so the render loop only re-renders the panel when it changes
+  const editStateRef = useRef(editState);
   
-  // Handle keyboard shortcut 'H' to toggle controls
+  // Keyboard shortcuts: 'H' toggles controls, Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z) undo and redo,
+  // Delete removes the selected plant
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key.toLowerCase() === 'h') {
+      if (isTypingTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (e.ctrlKey || e.metaKey) {
+        if (key === 'z' || key === 'y') {
+          e.preventDefault();
+          if (key === 'y' || e.shiftKey) simulation.redo(); else simulation.undo();
+        }
+        return;
+      }
+      if (key === 'h') {
         setShowControls(prev => !prev);
+      } else if (key === 'delete' || key === 'backspace') {
+        simulation.applyPlantAction('delete');
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
+
+  // The species grid follows the registry (species packs can be added at any time)
+  // (new species definitions also invalidate the renderer's cached heads)
+  useEffect(() => subscribeSpecies(() => {
+    setSpecies(listSpecies());
+    rendererRef.current?.invalidate();
+  }), []);
   
-  // Update ref when config changes and trigger side effects (update existing plants)
+  // Update ref when config changes. Picking a species only affects new seeds; converting
+  // existing plants is an explicit (undoable) action, see handleConvertSpecies.
   useEffect(() => {
     configRef.current = config;
-    
-    // Immediate Update Logic:
-    // If a specific species is selected (not Random), transform all existing plants to that species.
-    if (config.selectedSpecies !== 'Random') {
-      const targetSpecies = config.selectedSpecies as FlowerSpecies;
-      plantsRef.current.forEach(plant => {
-        plant.species = targetSpecies;
-        // Update color based on new species to ensure consistency
-        plant.color = getSpeciesColor(targetSpecies);
-      });
-      // Also update seeds that haven't landed yet
-      seedsRef.current.forEach(seed => {
-        seed.species = targetSpecies;
-        seed.color = getSpeciesColor(targetSpecies);
-      });
-    }
+    simulation.setConfig(config);
   }, [config]);
 
   const handleConfigChange = (newConfig: PlantConfig) => {
     setConfig(newConfig);
   };
 
+  // Camera choice is per machine, so it's remembered apart from gesture profiles
+  useEffect(() => saveCameraSettings(config.camera), [config.camera]);
+
+  // A different device or resolution reopens the stream (mirroring is only a matter of drawing)
+  const { deviceId: cameraDeviceId, resolution: cameraResolution } = config.camera;
   useEffect(() => {
-    let active = true;
+    if (cameraProviderRef.current) switchCameraStream();
+  }, [cameraDeviceId, cameraResolution]);
 
-    const initVision = async () => {
-      try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm"
-        );
+  // Cameras can be plugged in or out at any time
+  useEffect(() => {
+    const refresh = () => listCameras().then(setCameras, err => console.warn("Could not list cameras:", err));
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  // --- Sound ---
+  useEffect(() => {
+    soundEngine.setVolume(config.sound.volume, config.sound.muted);
+  }, [config.sound.volume, config.sound.muted]);
+
+  // Browsers keep audio suspended until the page is interacted with
+  useEffect(() => {
+    const unlock = () => soundEngine.resume();
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+  }, []);
+
+  const handleToggleMicrophone = async (enabled: boolean) => {
+    microphoneRef.current?.dispose();
+    microphoneRef.current = null;
+    if (enabled) {
+      soundEngine.resume();
+      microphoneRef.current = await MicrophoneLevel.open(soundEngine.audioContext);
+    }
+    setConfig(prev => ({ ...prev, sound: { ...prev.sound, micGrowth: enabled } }));
+  };
 
-        if (!active) return;
-
-        faceLandmarkerRef.current = await FaceLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task`,
-            delegate: "GPU"
-          },
-          outputFaceBlendshapes: true,
-          runningMode: "VIDEO",
-          numFaces: 1
-        });
-
-        if (!active) return;
-
-        handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 2
-        });
-
-        if (active) startCamera();
-      } catch (error) {
-        console.error("Error loading vision models:", error);
+  // --- Species conversion ---
+  const handleConvertSpecies = (scope: ConversionScope) => {
+    const target = config.selectedSpecies;
+    if (target === 'Random') return;
+    if (scope === 'area') {
+      simulation.armConversion(target);
+    } else {
+      simulation.convertSpecies(target, scope);
+    }
+  };
+
+  // --- Gesture profiles ---
+  const handleSelectProfile = (name: string | null) => {
+    setActiveProfile(name);
+    setActiveProfileName(name);
+    const thresholds = (name && profiles[name]) || DEFAULT_GESTURE_THRESHOLDS;
+    setConfig(prev => ({ ...prev, gestures: thresholds }));
+  };
+
+  const handleSaveCalibration = (name: string, thresholds: GestureThresholds) => {
+    saveProfile(name, thresholds);
+    setProfiles(loadProfiles());
+    setActiveProfileName(name);
+    setConfig(prev => ({ ...prev, gestures: thresholds }));
+    setShowCalibration(false);
+  };
+
+  const handleDeleteProfile = (name: string) => {
+    deleteProfile(name);
+    setProfiles(loadProfiles());
+    if (activeProfile === name) handleSelectProfile(null);
+  };
+
+  // --- Persistence ---
+  const currentGardenFile = (): GardenFile => {
+    const { width, height } = simulation.getSize();
+    return serializeGarden(simulation.getState(), width, height);
+  };
+
+  const applyGardenFile = (file: GardenFile) => {
+    const { width, height } = simulation.getSize();
+    simulation.loadGarden(deserializeGarden(file, width, height));
+  };
+
+  // Restore on startup (share link wins over autosave), then autosave periodically and on page hide
+  useEffect(() => {
+    let restored = false;
+    try {
+      const shared = readShareCodeFromHash();
+      if (shared) {
+        applyGardenFile(shared);
+        restored = true;
       }
+    } catch (err) {
+      console.warn("Ignoring invalid share link:", err);
+    }
+    // Drop the code from the URL so later reloads continue from the autosave
+    if (location.hash) clearShareHash();
+
+    if (!restored) {
+      const saved = loadAutosave();
+      if (saved) applyGardenFile(saved);
+    }
+
+    let lastSaved = '';
+    const autosave = () => {
+      const file = currentGardenFile();
+      const fingerprint = JSON.stringify([file.plants, file.seeds, file.terrain]);
+      if (fingerprint === lastSaved) return;
+      lastSaved = fingerprint;
+      saveAutosave(file);
     };
+    const interval = window.setInterval(autosave, AUTOSAVE_INTERVAL);
+    window.addEventListener('pagehide', autosave);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('pagehide', autosave);
+    };
+  }, []);
 
-    initVision();
+  const handleExportGarden = () => {
+    downloadGardenFile(currentGardenFile());
+  };
+
+  // In a shared garden an imported file replaces everyone's garden
+  const handleImportGarden = async (file: File) => {
+    applyGardenFile(await readGardenFile(file));
+    syncRef.current?.shareGarden();
+  };
+
+  const handleShareGarden = async () => {
+    const url = buildShareUrl(currentGardenFile());
+    await navigator.clipboard.writeText(url);
+  };
+
+  // --- Shared garden ---
+  // Joining adopts the garden already in the room; this station's own is replaced (when it's the first, it stays)
+  const handleConnectSync = (settings: SyncSettings) => {
+    const transport = createTransport(settings);
+    syncRef.current?.close();
+    saveSyncSettings(settings);
+    setSyncSettings(settings);
+    simulation.share(settings.name);
+    const session = new SyncSession(transport, settings.name, {
+      getSnapshot: currentGardenFile,
+      onSnapshot: file => {
+        try {
+          applyGardenFile(migrateGardenFile(file));
+        } catch (err) {
+          console.warn("Ignoring invalid shared garden:", err);
+        }
+      },
+      onOps: (ops, size) => ops.forEach(op => simulation.applyRemoteOp(op, size)),
+      onChange: setSyncState,
+    });
+    syncRef.current = session;
+    setSyncState(session.getState());
+    session.start();
+  };
+
+  const handleDisconnectSync = () => {
+    syncRef.current?.close();
+    syncRef.current = null;
+    simulation.share(null);
+    setSyncState(null);
+  };
+
+  const isSharing = syncState !== null;
+  useEffect(() => {
+    if (!isSharing) return;
+    const update = () => setContributions(countContributions(simulation.getState().plants));
+    update();
+    const interval = window.setInterval(update, CONTRIBUTIONS_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, [isSharing]);
+
+  const handleStartRecording = (options: RecordingOptions) => {
+    const { width, height } = viewRef.current.view;
+    recorder.start(Math.round(width), Math.round(height), options);
+    setIsRecording(true);
+  };
+
+  const handleStopRecording = async () => {
+    await recorder.stop();
+    setIsRecording(false);
+  };
+
+  const handleToggleLandmarkCapture = () => {
+    if (landmarkRecorder.isRecording) {
+      const { width, height } = simulation.getSize();
+      downloadLandmarkRecording(landmarkRecorder.stop(width, height));
+      setIsCapturingLandmarks(false);
+    } else {
+      landmarkRecorder.start(performance.now());
+      setIsCapturingLandmarks(true);
+    }
+  };
+
+  // --- Input providers ---
+  const switchInputProvider = (provider: InputProvider) => {
+    if (inputProviderRef.current && inputProviderRef.current !== cameraProviderRef.current) {
+      inputProviderRef.current.dispose();
+    }
+    resetInteraction(interactionRef.current);
+    providerMouthRef.current = 0;
+    inputProviderRef.current = provider;
+    setInputMode(provider.id);
+    dispatchStartup({ type: 'inputStarted' });
+    startRenderLoop();
+  };
+
+  const handleSelectInputMode = (mode: InputProviderId) => {
+    if (mode === 'camera' && cameraProviderRef.current) {
+      switchInputProvider(cameraProviderRef.current);
+    } else if (mode === 'pointer' && canvasRef.current) {
+      switchInputProvider(new PointerInputProvider(canvasRef.current));
+    }
+  };
+
+  // Startup screens: try the failed step again (models, or just the camera)
+  const handleRetryStartup = () => {
+    if (startup.phase === 'modelFailed') loadModels(); else startCamera();
+    dispatchStartup({ type: 'retry' });
+  };
+
+  const handleStartReplay = async (file: File) => {
+    const recording = await readLandmarkRecording(file);
+    const player = new LandmarkPlayer(recording);
+    player.start(performance.now());
+    switchInputProvider(new ReplayInputProvider(player));
+  };
+
+  const handleStopReplay = () => {
+    if (cameraProviderRef.current) {
+      switchInputProvider(cameraProviderRef.current);
+    } else if (canvasRef.current) {
+      switchInputProvider(new PointerInputProvider(canvasRef.current));
+    }
+  };
+
+  const handleExportImage = async (format: 'svg' | 'png', scale: number, includeVideo: boolean) => {
+    const { width, height } = simulation.getSize();
+    const options = {
+      heightFactor: configRef.current.growthHeightFactor,
+      mirror: configRef.current.camera.mirrored,
+      video: includeVideo ? videoRef.current : null,
+    };
+    if (format === 'svg') {
+      exportGardenSvg(simulation.getState(), width, height, options);
+    } else {
+      await exportGardenPng(simulation.getState(), width, height, scale, options);
+    }
+  };
+
+  useEffect(() => {
+    loadModels();
 
     return () => {
-      active = false;
+      mountedRef.current = false;
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
+      inputProviderRef.current?.dispose();
+      detectionBackendRef.current?.dispose();
+      microphoneRef.current?.dispose();
+      syncRef.current?.close();
+      soundEngine.dispose();
       // Cleanup camera tracks
-      if (videoRef.current && videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach(track => track.stop());
-      }
+      if (videoRef.current) stopStream(videoRef.current.srcObject as MediaStream | null);
     };
   }, []);
 
+  // Keeps loading even if the user starts with mouse/touch meanwhile, so the camera can be switched to later
+  const loadModels = async () => {
+    try {
+      const backend = await createDetectionBackend();
+      if (!mountedRef.current) {
+        backend.dispose();
+        return;
+      }
+      detectionBackendRef.current = backend;
+      dispatchStartup({ type: 'modelsLoaded' });
+      startCamera();
+    } catch (error) {
+      console.error("Error loading vision models:", error);
+      dispatchStartup({ type: 'modelsFailed', detail: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
   const startCamera = async () => {
     if (!videoRef.current) return;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { width: 1280, height: 720, facingMode: "user" } 
-      });
-      if (videoRef.current) {
+      const stream = await openCamera(configRef.current.camera);
+      if (videoRef.current && detectionBackendRef.current) {
         videoRef.current.srcObject = stream;
+        cameraProviderRef.current = new CameraInputProvider(
+          videoRef.current, new LandmarkPipeline(detectionBackendRef.current, DEFAULT_DETECTION_RATES), landmarkRecorder
+        );
+        setCameraAvailable(true);
+        // Device names are only readable once access has been granted
+        listCameras().then(setCameras, err => console.warn("Could not list cameras:", err));
         
-        // Robustly handle video loading
+        // Robustly handle video loading (a replay or pointer mode chosen meanwhile stays active)
+        const activateCamera = () => {
+          if (!inputProviderRef.current && cameraProviderRef.current) switchInputProvider(cameraProviderRef.current);
+        };
         if (videoRef.current.readyState >= 2) {
-          setLoading(false);
-          predictWebcam();
+          activateCamera();
         } else {
-          videoRef.current.onloadeddata = () => {
-             setLoading(false);
-             predictWebcam();
-          };
+          videoRef.current.onloadeddata = activateCamera;
         }
       }
     } catch (err) {
-      console.error("Camera access denied:", err);
+      console.error("Camera unavailable:", err);
+      dispatchStartup(classifyCameraError(err));
     }
   };
 
+  // The new stream is opened before the old one is stopped, so a camera that fails to open leaves
+  // the current one running (unless the device can't run two at once, as on many phones)
+  const switchCameraStream = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    const previous = video.srcObject as MediaStream | null;
+    try {
+      const stream = await openCamera(configRef.current.camera).catch(() => {
+        stopStream(previous);
+        return openCamera(configRef.current.camera);
+      });
+      video.srcObject = stream;
+      stopStream(previous);
+    } catch (err) {
+      console.warn("Could not switch camera:", err);
+    }
+  };
+
+  // Starts the frame loop once; safe to call whenever an input provider becomes active
+  const startRenderLoop = () => {
+    if (requestRef.current === undefined) predictWebcam();
+  };
+
   const predictWebcam = () => {
     // Always schedule the next frame first to prevent the loop from dying if we return early
     requestRef.current = requestAnimationFrame(predictWebcam);
 
     const video = videoRef.current;
     const canvas = canvasRef.current;
+    const provider = inputProviderRef.current;
     
-    // If models or elements aren't ready, just return and try again next frame
-    if (!video || !canvas || !faceLandmarkerRef.current || !handLandmarkerRef.current) return;
+    // If the input source or elements aren't ready, just return and try again next frame
+    if (!canvas || !provider || !provider.isReady()) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
@@ -181,340 +543,168 @@ const App: React.FC = () => {
     const deltaTime = currentTime - lastTimeRef.current;
     lastTimeRef.current = currentTime;
 
-    if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-    }
-
-    // 1. Vision Processing
-    if (video.currentTime !== lastVideoTimeRef.current && video.readyState >= 2) {
-      lastVideoTimeRef.current = video.currentTime;
-      try {
-        const faceResult = faceLandmarkerRef.current.detectForVideo(video, currentTime);
-        const handResult = handLandmarkerRef.current.detectForVideo(video, currentTime);
-        processInteraction(faceResult, handResult, canvas.width, canvas.height, deltaTime);
-      } catch (e) {
-        console.warn("Detection error (skipping frame):", e);
-      }
+    // Camera/replay dictate the garden's size; otherwise keep the video's size, or fill the canvas.
+    // The canvas itself always fills the screen at the device's pixel density.
+    const screen: Size = { width: canvas.clientWidth || window.innerWidth, height: canvas.clientHeight || window.innerHeight };
+    const world = provider.getPreferredSize()
+      ?? (video && video.videoWidth > 0 ? { width: video.videoWidth, height: video.videoHeight } : screen);
+    const view = new ViewMapping(world, screen, configRef.current.camera.mirrored, window.devicePixelRatio || 1);
+    const previous = viewRef.current.world;
+    if (previous.width !== world.width || previous.height !== world.height) simulation.resize(world.width, world.height);
+    viewRef.current = view;
+    const backing = view.canvasSize;
+    if (canvas.width !== backing.width || canvas.height !== backing.height) {
+      canvas.width = backing.width;
+      canvas.height = backing.height;
     }
-
-    // 2. Physics & Rendering
+    const { width, height } = world;
+
+    // 1. Input. Humming adds to the provider's mouth opening; its share is taken back out first, so
+    // it can't linger on frames where the provider has nothing new to report
+    const interaction = interactionRef.current;
+    interaction.mouthOpenness = providerMouthRef.current;
+    provider.update(interaction, currentTime, view, configRef.current.gestures);
+    providerMouthRef.current = interaction.mouthOpenness;
+    const microphone = microphoneRef.current;
+    if (microphone) interaction.mouthOpenness = Math.max(interaction.mouthOpenness, microphone.read());
+
+    // 2. Physics (fixed timestep inside the simulation)
+    const garden = simulation.step(interaction, deltaTime);
+    interaction.clearTimer = garden.clearTimer;
+    // What changed here goes to the other stations of a shared garden
+    syncRef.current?.sendOps(simulation.takeOps(), world);
+
+    // Sounds for what just happened; the pad swells while something is growing
+    soundEngine.play(garden.events, width);
+    const growing = interaction.mouthOpenness > 0.05 && garden.plants.some(p => p.growthProgress < 1);
+    soundEngine.setSwell(growing ? interaction.mouthOpenness : 0);
+
+    // 3. Rendering, in garden coordinates
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    drawSpatialIndicators(ctx);
-    updateHUD();
+    ctx.setTransform(...view.transform());
 
-    updateSeeds(canvas.height);
-    seedsRef.current.forEach(seed => drawSeed(ctx, seed));
-    
-    updateParticles();
-    particlesRef.current.forEach(p => drawParticle(ctx, p));
+    drawSpatialIndicators(ctx);
+    const hud = getHudModel(interactionRef.current, configRef.current.gestures.clearHoldTime);
+    updateHUD(hud);
 
-    updatePlants(deltaTime);
-    
-    // Draw plants with current global height factor from ref
+    // Terrain, seeds, particles and plants, with current global height factor from ref
     const currentHeightFactor = configRef.current.growthHeightFactor;
-    plantsRef.current.forEach(plant => drawPlant(ctx, plant, currentHeightFactor));
-  };
-
-  const processInteraction = (faceResult: any, handResult: any, width: number, height: number, deltaTime: number) => {
-    const state = interactionRef.current;
-
-    // --- FACE: Mouth Openness ---
-    if (faceResult.faceLandmarks && faceResult.faceLandmarks.length > 0) {
-      const landmarks = faceResult.faceLandmarks[0];
-      const upperLip = landmarks[13];
-      const lowerLip = landmarks[14];
-      const faceTop = landmarks[10];
-      const faceBottom = landmarks[152];
-      const faceHeight = Math.abs(faceTop.y - faceBottom.y);
-
-      const mouthDist = Math.abs(upperLip.y - lowerLip.y);
-      const normalizedOpenness = Math.min(Math.max((mouthDist / faceHeight) - 0.02, 0) * 10, 1);
-      
-      state.mouthOpenness = normalizedOpenness;
-    } else {
-      state.mouthOpenness = 0;
+    if (!rendererRef.current) rendererRef.current = new GardenRenderer(ctx);
+    const renderer = rendererRef.current;
+    renderer.setKind(configRef.current.renderer);
+    renderer.render(garden, currentHeightFactor, view);
+
+    const { growthMode, focusSource, focusRadius } = configRef.current;
+    const selected = garden.plants.find(p => p.id === garden.selectedPlantId);
+    const pointer = interactionRef.current.pointingPosition;
+    if (growthMode === 'focused' && garden.focus && focusSource !== 'selection') {
+      drawFocusAura(ctx, garden.focus, focusRadius, interactionRef.current.mouthOpenness);
     }
-
-    // --- HANDS Logic ---
-    state.isPinching = false;
-    let anyPalmOpenDetected = false;
-    let maxPinchProximity = 0;
-
-    if (handResult.landmarks) {
-      // Pass 1: Check for Open Hand (5 Fingers Extended) across all detected hands
-      for (const landmarks of handResult.landmarks) {
-         // Logic: A finger is open if tip is farther from wrist than the joint before it
-         // Landmarks: 0=Wrist, 4=ThumbTip, 8=IndexTip...
-         // Comparison: Tip vs MCP(joint near palm) usually reliable
-         const isTipFartherThanJoint = (tipIdx: number, jointIdx: number) => {
-            const dTip = Math.hypot(landmarks[tipIdx].x - landmarks[0].x, landmarks[tipIdx].y - landmarks[0].y);
-            const dJoint = Math.hypot(landmarks[jointIdx].x - landmarks[0].x, landmarks[jointIdx].y - landmarks[0].y);
-            return dTip > dJoint;
-         };
-
-         // Thumb(4 vs 2), Index(8 vs 5), Middle(12 vs 9), Ring(16 vs 13), Pinky(20 vs 17)
-         // Using MCP (5,9,13,17) for fingers, MCP(2) for thumb
-         if (
-             isTipFartherThanJoint(4, 2) && 
-             isTipFartherThanJoint(8, 5) && 
-             isTipFartherThanJoint(12, 9) && 
-             isTipFartherThanJoint(16, 13) && 
-             isTipFartherThanJoint(20, 17)
-         ) {
-           anyPalmOpenDetected = true;
-         }
-      }
-
-      // Pass 2: Check for Pinch (Only if NO Open Hand is detected)
-      if (!anyPalmOpenDetected) {
-        for (const landmarks of handResult.landmarks) {
-          const thumbTip = landmarks[4];
-          const indexTip = landmarks[8];
-          const pinchDist = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y);
-
-          const proximity = Math.max(0, Math.min(1, (0.15 - pinchDist) / (0.15 - 0.05)));
-          if (proximity > maxPinchProximity) maxPinchProximity = proximity;
-
-          if (pinchDist < 0.05) {
-            state.isPinching = true;
-            state.pinchLocation = { x: indexTip.x * width, y: indexTip.y * height };
-            
-            if (pinchCooldownRef.current <= 0) {
-              spawnSeed(state.pinchLocation);
-              pinchCooldownRef.current = 500;
-            }
-          }
-        }
-      }
+    const eraser = interactionRef.current.eraserPosition;
+    if (eraser) drawEraserCursor(ctx, eraser, configRef.current.eraserRadius);
+    if (garden.pendingConversion && pointer) {
+      drawConversionBrush(ctx, pointer, CONVERSION_RADIUS, getSpeciesColor(garden.pendingConversion));
     }
-    
-    state.pinchProximity = maxPinchProximity;
-
-    if (pinchCooldownRef.current > 0) pinchCooldownRef.current -= deltaTime;
-
-    // --- CLEAR TIMER (using Palm Open detection) ---
-    if (anyPalmOpenDetected) {
-      state.isPalmOpen = true;
-      state.clearTimer += deltaTime;
-      if (state.clearTimer > 5000) {
-        explodePlants();
-        state.clearTimer = 0;
+    // Selected plant: highlight and its edit menu, or where it goes while being moved
+    const moving = garden.plants.find(p => p.id === garden.movingPlantId);
+    if (moving) {
+      if (pointer) {
+        const surface = surfaceBelow(garden.terrain, pointer.x, pointer.y, width, height);
+        drawMoveTarget(ctx, pointer.x, surface.y, moving.color);
       }
-    } else {
-      state.isPalmOpen = false;
-      state.clearTimer = Math.max(0, state.clearTimer - deltaTime * 2);
+    } else if (selected) {
+      drawSelectionHighlight(ctx, selected, currentHeightFactor);
+      drawContributorTag(ctx, selected);
+      drawPlantMenu(ctx, getPlantMenuLayout(selected, currentHeightFactor, width, height), pointer);
     }
-  };
 
-  // Helper to determine natural color
-  const getSpeciesColor = (species: FlowerSpecies): string => {
-    switch(species) {
-      case FlowerSpecies.Rose: return '#e11d48'; // Red-600
-      case FlowerSpecies.Tulip: return '#a855f7'; // Purple-500
-      case FlowerSpecies.WildChrysanthemum: return '#facc15'; // Yellow-400
-      case FlowerSpecies.Sunflower: return '#f59e0b'; // Amber-500
-      case FlowerSpecies.Dandelion: return '#cbd5e1'; // Slate-300
-      default: return '#eab308';
+    const previousEdit = editStateRef.current;
+    if (previousEdit.pendingConversion !== garden.pendingConversion || previousEdit.canUndo !== garden.canUndo ||
+      previousEdit.canRedo !== garden.canRedo || previousEdit.hasSelection !== Boolean(selected)) {
+      editStateRef.current = {
+        pendingConversion: garden.pendingConversion,
+        canUndo: garden.canUndo,
+        canRedo: garden.canRedo,
+        hasSelection: Boolean(selected),
+      };
+      setEditState(editStateRef.current);
     }
-  };
 
-  const spawnSeed = (loc: {x: number, y: number}) => {
-    let species = FlowerSpecies.Rose; // Fallback
-    const currentConfig = configRef.current;
+    updateStats(currentTime, garden.plants.length, renderer.kind);
 
-    if (currentConfig.selectedSpecies === 'Random') {
-      const allSpecies = Object.values(FlowerSpecies);
-      species = allSpecies[Math.floor(Math.random() * allSpecies.length)];
-    } else {
-      species = currentConfig.selectedSpecies as FlowerSpecies;
+    // 4. Composite into the recording, if one is running
+    if (recorder.isRecording) {
+      recorder.drawFrame({ video, garden: canvas, view, hud });
     }
-
-    seedsRef.current.push({
-      id: Math.random().toString(36),
-      x: loc.x,
-      y: loc.y,
-      vy: 5,
-      species: species,
-      color: getSpeciesColor(species),
-      isLanded: false
-    });
-  };
-
-  const updateSeeds = (groundLevel: number) => {
-    seedsRef.current.forEach(seed => {
-      if (!seed.isLanded) {
-        seed.y += seed.vy;
-        seed.vy += 0.5;
-        
-        if (seed.y >= groundLevel - 20) {
-          seed.y = groundLevel - 20;
-          seed.isLanded = true;
-          plantsRef.current.push({
-            id: seed.id,
-            x: seed.x,
-            y: seed.y,
-            height: 0,
-            maxHeight: 200 + Math.random() * 150,
-            growthProgress: 0,
-            species: seed.species,
-            color: seed.color,
-            seed: Math.random() * 100,
-            stemControlPoints: []
-          });
-        }
-      }
-    });
-    seedsRef.current = seedsRef.current.filter(s => !s.isLanded);
-  };
-  
-  const updateParticles = () => {
-    particlesRef.current.forEach(p => {
-       p.x += p.vx;
-       p.y += p.vy;
-       p.vy += 0.2; // Gravity
-       p.life -= 0.02; // Fade out
-    });
-    particlesRef.current = particlesRef.current.filter(p => p.life > 0);
   };
 
-  const updatePlants = (deltaTime: number) => {
-    const growthSpeed = 7.5; // Increased speed by 50%
-    const growthInput = (interactionRef.current.mouthOpenness * 0.001 * growthSpeed);
-    
-    plantsRef.current.forEach(plant => {
-      if (interactionRef.current.mouthOpenness > 0.05) {
-        if (plant.growthProgress < 1) {
-          plant.growthProgress += growthInput;
-          if (plant.growthProgress > 1) plant.growthProgress = 1;
-        }
-      }
-    });
+  const updateStats = (now: number, plantCount: number, rendererKind: string) => {
+    const el = statsRef.current;
+    if (!el) return;
+    statsFramesRef.current++;
+    const elapsed = now - statsTimeRef.current;
+    if (elapsed < STATS_INTERVAL) return;
+    const fps = (statsFramesRef.current * 1000) / elapsed;
+    let text = `${fps.toFixed(0)} FPS · ${plantCount} 株 (plants) · ${rendererKind}`;
+    // Detection runs on its own clock; show how fast each model is keeping up
+    const camera = inputProviderRef.current === cameraProviderRef.current ? cameraProviderRef.current : null;
+    if (camera) {
+      const { pipeline } = camera;
+      text += ` · 脸 ${pipeline.rate('face').toFixed(0)}/s 手 ${pipeline.rate('hand').toFixed(0)}/s (${pipeline.backendLabel})`;
+    }
+    el.innerText = text;
+    el.style.color = fps >= 55 ? '#4ade80' : fps >= 30 ? '#facc15' : '#f87171';
+    statsFramesRef.current = 0;
+    statsTimeRef.current = now;
   };
 
-  const explodePlants = () => {
-    // Create explosion effects for all plants
-    const currentHeightFactor = configRef.current.growthHeightFactor;
-    
-    plantsRef.current.forEach(plant => {
-      const effectiveHeight = plant.maxHeight * plant.growthProgress * currentHeightFactor;
-      // Calculate flower head position
-      const headX = plant.x + (Math.cos(plant.seed) * 10);
-      const headY = plant.y - effectiveHeight;
-
-      // Burst count
-      const particleCount = 20;
-      for(let i=0; i<particleCount; i++) {
-        const speed = Math.random() * 8 + 2;
-        const angle = Math.random() * Math.PI * 2;
-        
-        particlesRef.current.push({
-          id: Math.random().toString(),
-          x: headX,
-          y: headY,
-          vx: Math.cos(angle) * (Math.random() * 5),
-          vy: Math.sin(angle) * (Math.random() * 5) - 5, // Initial upward burst
-          color: plant.color,
-          life: 1.0,
-          size: Math.random() * 5 + 2
-        });
-      }
-      
-      // Add some green particles for stems
-      for(let i=0; i<10; i++) {
-         particlesRef.current.push({
-          id: Math.random().toString(),
-          x: plant.x,
-          y: plant.y - (effectiveHeight / 2),
-          vx: (Math.random() - 0.5) * 5,
-          vy: (Math.random() - 0.5) * 5,
-          color: '#22c55e',
-          life: 1.0,
-          size: Math.random() * 3 + 1
-        });
+  const drawSpatialIndicators = (ctx: CanvasRenderingContext2D) => {
+    const state = interactionRef.current;
+    HANDEDNESS.forEach(slot => {
+      const hand = state.hands[slot];
+      if (hand.isPinching && hand.pinchLocation) {
+        ctx.beginPath();
+        ctx.arc(hand.pinchLocation.x, hand.pinchLocation.y, 20, 0, Math.PI * 2);
+        ctx.strokeStyle = PINCH_INDICATOR_COLORS[slot];
+        ctx.lineWidth = 4;
+        ctx.stroke();
       }
     });
-
-    plantsRef.current = [];
-    seedsRef.current = [];
   };
 
-  const drawSpatialIndicators = (ctx: CanvasRenderingContext2D) => {
-    const state = interactionRef.current;
-    if (state.isPinching && state.pinchLocation) {
-      ctx.beginPath();
-      ctx.arc(state.pinchLocation.x, state.pinchLocation.y, 20, 0, Math.PI * 2);
-      ctx.strokeStyle = '#4ade80';
-      ctx.lineWidth = 4;
-      ctx.stroke();
-    }
+  const applyHudBar = (bar: HTMLDivElement | null, text: HTMLSpanElement | null, model: HudBar) => {
+    if (!bar || !text) return;
+    bar.style.width = `${model.percent}%`;
+    bar.style.backgroundColor = model.color;
+    text.innerText = model.text;
+    text.style.color = model.textColor;
   };
 
-  const updateHUD = () => {
-    const state = interactionRef.current;
-
-    // Pinch Bar
-    if (pinchBarRef.current && pinchTextRef.current) {
-      // If palm is open, show restricted state
-      if (state.isPalmOpen) {
-         pinchBarRef.current.style.width = '0%';
-         pinchBarRef.current.style.backgroundColor = '#64748b'; // Slate-500
-         pinchTextRef.current.innerText = '无法播种 (Palm Open)';
-         pinchTextRef.current.style.color = '#64748b';
-      } else {
-        const pinchPercent = state.pinchProximity * 100;
-        pinchBarRef.current.style.width = `${pinchPercent}%`;
-        
-        if (state.isPinching) {
-          pinchBarRef.current.style.backgroundColor = '#22c55e';
-          pinchTextRef.current.innerText = '已播种!';
-          pinchTextRef.current.style.color = '#22c55e';
-        } else {
-          pinchBarRef.current.style.backgroundColor = '#06b6d4';
-          pinchTextRef.current.innerText = pinchPercent > 10 ? '捏合手指...' : '等待中';
-          pinchTextRef.current.style.color = '#06b6d4';
-        }
-      }
-    }
-
-    // Growth Bar
-    if (growthBarRef.current && growthTextRef.current) {
-      const growthPercent = Math.min(state.mouthOpenness * 100, 100);
-      growthBarRef.current.style.width = `${growthPercent}%`;
-      growthTextRef.current.innerText = `${growthPercent.toFixed(0)}%`;
-    }
-
-    // Clear Bar (Updated logic for open hand)
-    if (clearBarRef.current && clearTextRef.current && clearContainerRef.current) {
-      const clearPercent = Math.min((state.clearTimer / 5000) * 100, 100);
-      clearBarRef.current.style.width = `${clearPercent}%`;
-      clearTextRef.current.innerText = `${(state.clearTimer / 1000).toFixed(1)}s`;
-      
-      if (state.isPalmOpen) {
-        clearContainerRef.current.style.borderColor = `rgba(239, 68, 68, ${0.3 + clearPercent/200})`;
-        if (clearPercent >= 100) {
-           clearTextRef.current.innerText = "已粉碎!";
-        }
-      } else {
-        clearContainerRef.current.style.borderColor = 'rgba(255, 255, 255, 0.1)';
-      }
+  const updateHUD = (hud: HudBar[]) => {
+    const [leftPinch, rightPinch, growth, clear] = hud;
+    applyHudBar(leftPinchBarRef.current, leftPinchTextRef.current, leftPinch);
+    applyHudBar(rightPinchBarRef.current, rightPinchTextRef.current, rightPinch);
+    applyHudBar(growthBarRef.current, growthTextRef.current, growth);
+    applyHudBar(clearBarRef.current, clearTextRef.current, clear);
+    if (clearContainerRef.current) {
+      clearContainerRef.current.style.borderColor = clear.borderColor;
     }
   };
 
   return (
     <div className="relative w-screen h-screen bg-black overflow-hidden flex items-center justify-center">
-      {loading && (
-        <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/90 text-white">
-          <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-green-500 mb-4"></div>
-          <p className="text-xl">正在初始化自然引擎...</p>
-          <p className="text-sm text-gray-400 mt-2">请允许摄像头权限</p>
-        </div>
-      )}
+      <StartupScreen
+        state={startup}
+        onRetry={handleRetryStartup}
+        onUsePointer={() => handleSelectInputMode('pointer')}
+        onLoadReplay={(file) => handleStartReplay(file).catch(err => console.error("Replay failed:", err))}
+      />
 
       <video 
         ref={videoRef}
-        className="absolute w-full h-full object-cover transform -scale-x-100"
+        className="absolute w-full h-full object-cover"
+        style={{ transform: config.camera.mirrored ? 'scaleX(-1)' : undefined }}
         autoPlay
         playsInline
         muted
@@ -522,22 +712,47 @@ const App: React.FC = () => {
 
       <canvas 
         ref={canvasRef}
-        className="absolute w-full h-full object-cover transform -scale-x-100"
+        className="absolute w-full h-full touch-none"
       />
 
+      {isRecording && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 px-3 py-1 rounded-full bg-red-600/80 text-white text-xs font-bold select-none pointer-events-none">
+          <span className="w-2 h-2 rounded-full bg-white animate-pulse"></span> REC
+        </div>
+      )}
+
+      {config.showStats && (
+        <div ref={statsRef} className="absolute bottom-4 left-4 z-30 px-3 py-1 rounded-md bg-black/60 text-xs font-mono select-none pointer-events-none">
+          …
+        </div>
+      )}
+
       {/* Top Left Status HUD */}
       <div className="absolute top-4 left-4 z-20 w-64 space-y-3 font-sans select-none pointer-events-none">
         
-        {/* Pinch */}
+        {/* Pinch (Left Hand) */}
         <div className="bg-black/60 backdrop-blur-md rounded-lg p-3 border border-white/10 transition-colors">
           <div className="flex justify-between items-center mb-1">
             <div className="text-xs font-bold text-gray-300 uppercase flex items-center gap-1">
-              <span>🤏</span> 播种 (Pinch)
+              <span>🤏</span> 播种 左手 (Left)
             </div>
-            <span ref={pinchTextRef} className="text-xs font-mono text-cyan-400">等待中</span>
+            <span ref={leftPinchTextRef} className="text-xs font-mono text-cyan-400">等待中</span>
           </div>
           <div className="w-full h-2 bg-gray-700/50 rounded-full overflow-hidden">
-            <div ref={pinchBarRef} className="h-full bg-cyan-400 w-0 transition-all duration-75 ease-out shadow-[0_0_10px_rgba(34,211,238,0.5)]"></div>
+            <div ref={leftPinchBarRef} className="h-full bg-cyan-400 w-0 transition-all duration-75 ease-out shadow-[0_0_10px_rgba(34,211,238,0.5)]"></div>
+          </div>
+        </div>
+
+        {/* Pinch (Right Hand) */}
+        <div className="bg-black/60 backdrop-blur-md rounded-lg p-3 border border-white/10 transition-colors">
+          <div className="flex justify-between items-center mb-1">
+            <div className="text-xs font-bold text-gray-300 uppercase flex items-center gap-1">
+              <span>🤏</span> 播种 右手 (Right)
+            </div>
+            <span ref={rightPinchTextRef} className="text-xs font-mono text-cyan-400">等待中</span>
+          </div>
+          <div className="w-full h-2 bg-gray-700/50 rounded-full overflow-hidden">
+            <div ref={rightPinchBarRef} className="h-full bg-cyan-400 w-0 transition-all duration-75 ease-out shadow-[0_0_10px_rgba(34,211,238,0.5)]"></div>
           </div>
         </div>
 
@@ -569,11 +784,57 @@ const App: React.FC = () => {
 
       </div>
 
+      {showCalibration && (
+        <CalibrationWizard
+          baseThresholds={config.gestures}
+          readMetrics={() => interactionRef.current}
+          onSave={handleSaveCalibration}
+          onCancel={() => setShowCalibration(false)}
+        />
+      )}
+
       {showControls ? (
         <ControlPanel 
           config={config} 
           onConfigChange={handleConfigChange} 
+          species={species}
+          onLoadSpeciesPack={loadSpeciesPack}
+          editState={editState}
+          onConvertSpecies={handleConvertSpecies}
+          onCancelConversion={() => simulation.armConversion(null)}
+          onUndo={() => simulation.undo()}
+          onRedo={() => simulation.redo()}
+          onResetTerrain={() => simulation.resetTerrain()}
+          cameras={cameras}
+          onToggleMicrophone={handleToggleMicrophone}
+          webglAvailable={webglAvailable}
+          onStressTest={() => simulation.sowStressTest()}
           onClose={() => setShowControls(false)}
+          onExportGarden={handleExportGarden}
+          onImportGarden={handleImportGarden}
+          onShareGarden={handleShareGarden}
+          syncSettings={syncSettings}
+          syncState={syncState}
+          contributions={contributions}
+          onConnectSync={handleConnectSync}
+          onDisconnectSync={handleDisconnectSync}
+          onExportImage={handleExportImage}
+          isRecording={isRecording}
+          onStartRecording={handleStartRecording}
+          onStopRecording={handleStopRecording}
+          isCapturingLandmarks={isCapturingLandmarks}
+          onToggleLandmarkCapture={handleToggleLandmarkCapture}
+          isReplaying={inputMode === 'replay'}
+          inputMode={inputMode}
+          cameraAvailable={cameraAvailable}
+          onSelectInputMode={handleSelectInputMode}
+          onStartReplay={handleStartReplay}
+          onStopReplay={handleStopReplay}
+          profiles={Object.keys(profiles)}
+          activeProfile={activeProfile}
+          onSelectProfile={handleSelectProfile}
+          onDeleteProfile={handleDeleteProfile}
+          onStartCalibration={() => setShowCalibration(true)}
         />
       ) : (
         <button
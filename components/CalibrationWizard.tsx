@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GestureThresholds } from '../types';
+import { CalibrationSamples, computeThresholds, median, percentile } from '../utils/calibration';
+
+interface CalibrationWizardProps {
+  baseThresholds: GestureThresholds;
+  // Latest raw measurements from the active input (InteractionState.mouthRatio / pinchDistance)
+  readMetrics: () => { mouthRatio: number | null; pinchDistance: number | null };
+  onSave: (name: string, thresholds: GestureThresholds) => void;
+  onCancel: () => void;
+}
+
+interface CalibrationStep {
+  key: keyof CalibrationSamples;
+  icon: string;
+  title: string;
+  instruction: string;
+  metric: 'mouthRatio' | 'pinchDistance';
+  // Reduces the captured samples to one robust value
+  reduce: (values: number[]) => number;
+}
+
+const CAPTURE_TIME = 2000; // ms per step
+const SAMPLE_INTERVAL = 50; // ms
+
+const STEPS: CalibrationStep[] = [
+  { key: 'mouthRest', icon: '😐', title: '放松嘴巴 (Relax mouth)', instruction: '自然闭上嘴巴, 看向摄像头', metric: 'mouthRatio', reduce: median },
+  { key: 'mouthOpen', icon: '😮', title: '张大嘴巴 (Open wide)', instruction: '舒适地尽量张大嘴巴并保持', metric: 'mouthRatio', reduce: v => percentile(v, 0.9) },
+  { key: 'fingersRelaxed', icon: '✋', title: '放松手指 (Relax hand)', instruction: '举起一只手, 拇指和食指自然分开', metric: 'pinchDistance', reduce: median },
+  { key: 'fingersPinched', icon: '🤏', title: '捏合手指 (Pinch)', instruction: '用拇指和食指捏合并保持', metric: 'pinchDistance', reduce: v => percentile(v, 0.1) },
+];
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ baseThresholds, readMetrics, onSave, onCancel }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [capturing, setCapturing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [liveValue, setLiveValue] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const [name, setName] = useState('');
+  const samplesRef = useRef<Partial<CalibrationSamples>>({});
+
+  const step = STEPS[stepIndex] as CalibrationStep | undefined;
+  const done = stepIndex >= STEPS.length;
+
+  // Live readout of the metric the current step is about
+  useEffect(() => {
+    if (!step) return;
+    const interval = window.setInterval(() => setLiveValue(readMetrics()[step.metric]), 100);
+    return () => window.clearInterval(interval);
+  }, [stepIndex]);
+
+  const capture = () => {
+    if (!step) return;
+    setCapturing(true);
+    setError('');
+    const values: number[] = [];
+    const startedAt = performance.now();
+
+    const interval = window.setInterval(() => {
+      const value = readMetrics()[step.metric];
+      if (value !== null) values.push(value);
+
+      const elapsed = performance.now() - startedAt;
+      setProgress(Math.min(elapsed / CAPTURE_TIME, 1));
+      if (elapsed < CAPTURE_TIME) return;
+
+      window.clearInterval(interval);
+      setCapturing(false);
+      setProgress(0);
+      // Require the face/hand to have been visible for most of the capture
+      if (values.length < (CAPTURE_TIME / SAMPLE_INTERVAL) * 0.5) {
+        setError(step.metric === 'mouthRatio' ? '未检测到面部, 请重试 (No face detected)' : '未检测到手, 请重试 (No hand detected)');
+        return;
+      }
+      samplesRef.current[step.key] = step.reduce(values);
+      setStepIndex(i => i + 1);
+    }, SAMPLE_INTERVAL);
+  };
+
+  const result = done ? computeThresholds(samplesRef.current as CalibrationSamples, baseThresholds) : null;
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/50 select-none">
+      <div className="w-96 bg-black/80 backdrop-blur-md border border-white/20 rounded-xl p-6 text-white shadow-xl space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold flex items-center gap-2"><span>🎯</span> 手势校准 (Calibration)</h2>
+          <span className="text-xs text-gray-400">{Math.min(stepIndex + 1, STEPS.length)} / {STEPS.length}</span>
+        </div>
+
+        {step && (
+          <>
+            <div className="text-center space-y-2">
+              <div className="text-5xl">{step.icon}</div>
+              <p className="font-bold">{step.title}</p>
+              <p className="text-sm text-gray-300">{step.instruction}</p>
+              <p className="text-xs font-mono text-cyan-400">
+                {liveValue === null ? '—' : liveValue.toFixed(3)}
+              </p>
+            </div>
+            <div className="w-full h-2 bg-gray-700/50 rounded-full overflow-hidden">
+              <div className="h-full bg-green-400" style={{ width: `${progress * 100}%` }}></div>
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            <button
+              onClick={capture}
+              disabled={capturing}
+              className="w-full py-2 text-sm rounded-lg border bg-green-500/80 border-green-400 text-white disabled:opacity-50 transition-all"
+            >
+              {capturing ? '采集中... (Hold still)' : '开始采集 (Capture)'}
+            </button>
+          </>
+        )}
+
+        {result && (
+          <>
+            <div className="text-xs font-mono text-gray-300 space-y-1 bg-white/5 rounded-lg p-3">
+              <p>pinch: {result.pinchCloseDistance.toFixed(3)} – {result.pinchFarDistance.toFixed(3)}</p>
+              <p>mouth: rest {result.mouthRestOffset.toFixed(3)}, gain ×{result.mouthGain.toFixed(1)}</p>
+            </div>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="档案名称 (Profile name)"
+              className="w-full px-3 py-2 text-sm rounded-lg bg-white/10 border border-white/20 text-white placeholder-gray-500 outline-none focus:border-green-400"
+            />
+            <button
+              onClick={() => onSave(name.trim(), result)}
+              disabled={!name.trim()}
+              className="w-full py-2 text-sm rounded-lg border bg-green-500/80 border-green-400 text-white disabled:opacity-50 transition-all"
+            >
+              保存档案 (Save profile)
+            </button>
+          </>
+        )}
+
+        <button
+          onClick={onCancel}
+          className="w-full py-2 text-sm rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all"
+        >
+          取消 (Cancel)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
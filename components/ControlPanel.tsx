@@ -1,31 +1,279 @@
 
-import React, { useRef } from 'react';
-import { PlantConfig, FlowerSpecies, SpeciesSelection } from '../types';
+import React, { useRef, useState } from 'react';
+import { PlantConfig, SpeciesId, SpeciesSelection, GestureThresholds, GrowthMode, FocusSource, TerrainTool, PlantingRules, RendererKind, CameraResolution, CameraSettings, SoundSettings } from '../types';
+import { GARDEN_FILE_EXTENSION } from '../utils/persistence';
+import { RecordingOptions, isRecordingSupported } from '../utils/recording';
+import { LANDMARK_FILE_EXTENSION } from '../utils/landmarkRecording';
+import { InputProviderId } from '../utils/input/types';
+import { CameraDevice } from '../utils/camera';
+import { DEFAULT_GESTURE_THRESHOLDS } from '../utils/gestures';
+import { SpeciesDefinition } from '../utils/species/types';
+import { getSpeciesLabel } from '../utils/species/registry';
+import { SPECIES_PACK_EXTENSION } from '../utils/species/packs';
+import { ConversionScope } from '../utils/simulation';
+import { SyncSettings, SyncStatus, SyncTransportKind } from '../utils/sync/types';
+import { SyncState } from '../utils/sync/session';
+
+// Garden state the panel reflects; App mirrors it from the simulation
+export interface GardenEditState {
+  pendingConversion: SpeciesId | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  hasSelection: boolean;
+}
 
 interface ControlPanelProps {
   config: PlantConfig;
   onConfigChange: (newConfig: PlantConfig) => void;
+  species: SpeciesDefinition[];
+  onLoadSpeciesPack: (file: File) => Promise<SpeciesDefinition[]>;
+  editState: GardenEditState;
+  onConvertSpecies: (scope: ConversionScope) => void;
+  onCancelConversion: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onResetTerrain: () => void;
+  cameras: CameraDevice[];
+  onToggleMicrophone: (enabled: boolean) => Promise<void>;
+  webglAvailable: boolean;
+  onStressTest: () => void;
   onClose: () => void;
+  onExportGarden: () => void;
+  onImportGarden: (file: File) => Promise<void>;
+  onShareGarden: () => Promise<void>;
+  syncSettings: SyncSettings;
+  syncState: SyncState | null; // null while not sharing
+  contributions: Record<string, number>; // Plants per contributor in the shared garden
+  onConnectSync: (settings: SyncSettings) => void;
+  onDisconnectSync: () => void;
+  onExportImage: (format: 'svg' | 'png', scale: number, includeVideo: boolean) => Promise<void>;
+  isRecording: boolean;
+  onStartRecording: (options: RecordingOptions) => void;
+  onStopRecording: () => Promise<void>;
+  isCapturingLandmarks: boolean;
+  onToggleLandmarkCapture: () => void;
+  isReplaying: boolean;
+  onStartReplay: (file: File) => Promise<void>;
+  onStopReplay: () => void;
+  inputMode: InputProviderId | null;
+  cameraAvailable: boolean;
+  onSelectInputMode: (mode: InputProviderId) => void;
+  profiles: string[];
+  activeProfile: string | null;
+  onSelectProfile: (name: string | null) => void;
+  onDeleteProfile: (name: string) => void;
+  onStartCalibration: () => void;
 }
 
-const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onClose }) => {
+const THRESHOLD_SLIDERS: {
+  key: keyof GestureThresholds; label: string; min: number; max: number; step: number; format: (v: number) => string;
+}[] = [
+  { key: 'pinchCloseDistance', label: '捏合距离 (Pinch)', min: 0.01, max: 0.12, step: 0.005, format: v => v.toFixed(3) },
+  { key: 'pinchFarDistance', label: '捏合预备 (Pinch range)', min: 0.05, max: 0.3, step: 0.005, format: v => v.toFixed(3) },
+  { key: 'mouthRestOffset', label: '嘴巴静止 (Mouth rest)', min: 0, max: 0.1, step: 0.002, format: v => v.toFixed(3) },
+  { key: 'mouthGain', label: '嘴巴灵敏度 (Mouth gain)', min: 2, max: 40, step: 0.5, format: v => `×${v.toFixed(1)}` },
+  { key: 'pinchCooldown', label: '播种间隔 (Cooldown)', min: 100, max: 2000, step: 50, format: v => `${v}ms` },
+  { key: 'clearHoldTime', label: '清除时长 (Clear hold)', min: 1000, max: 10000, step: 250, format: v => `${(v / 1000).toFixed(1)}s` },
+  { key: 'blowThreshold', label: '吹气阈值 (Blow)', min: 0.1, max: 0.8, step: 0.01, format: v => v.toFixed(2) },
+];
+
+const EXPORT_SCALES = [1, 2, 4, 8];
+
+const GROWTH_MODES: { label: string; value: GrowthMode }[] = [
+  { label: '🌱 全部 (All)', value: 'all' },
+  { label: '🎯 聚焦 (Focused)', value: 'focused' },
+];
+
+const FOCUS_SOURCES: { label: string; value: FocusSource }[] = [
+  { label: '脸部 (Face)', value: 'face' },
+  { label: '手指 (Finger)', value: 'finger' },
+  { label: '选中 (Selected)', value: 'selection' },
+];
+
+const CONVERSION_SCOPES: { label: string; value: ConversionScope }[] = [
+  { label: '全部 (All)', value: 'all' },
+  { label: '选中 (Selected)', value: 'selected' },
+  { label: '区域 (Area)', value: 'area' },
+];
+
+const TERRAIN_TOOLS: { label: string; value: TerrainTool; hint: string }[] = [
+  { label: '关闭 (Off)', value: 'off', hint: '' },
+  { label: '⛰️ 地面 (Ground)', value: 'ground', hint: '拖动手指或鼠标来堆山挖谷 (Drag to raise hills and dig valleys)' },
+  { label: '🪴 花盆 (Planter)', value: 'planter', hint: '点击放置花盆，点击花盆将其移除 (Tap to place, tap one to remove it)' },
+  { label: '▭ 平台 (Platform)', value: 'platform', hint: '点击放置平台，点击平台将其移除 (Tap to place, tap one to remove it)' },
+];
+
+const PLANTING_RULES: { key: keyof PlantingRules; label: string }[] = [
+  { key: 'spacing', label: '最小间距 (Spacing)' },
+  { key: 'bounce', label: '种子弹开 (Seeds bounce)' },
+  { key: 'competition', label: '竞争 (Competition)' },
+  { key: 'leanAway', label: '互相避让 (Lean away)' },
+];
+
+const CAMERA_RESOLUTIONS: CameraResolution[] = ['480p', '720p', '1080p'];
+
+const SYNC_TRANSPORTS: { label: string; value: SyncTransportKind }[] = [
+  { label: '🗂️ 本机标签页 (Tabs)', value: 'broadcast' },
+  { label: '📡 局域网 (LAN)', value: 'websocket' },
+];
+
+const SYNC_STATUS: Record<SyncStatus, { label: string; className: string }> = {
+  connecting: { label: '连接中 (Connecting)', className: 'text-yellow-400' },
+  connected: { label: '已连接 (Connected)', className: 'text-green-400' },
+  disconnected: { label: '重连中 (Reconnecting)', className: 'text-red-400' },
+};
+
+const RENDERERS: { label: string; value: RendererKind }[] = [
+  { label: '🖌️ Canvas', value: 'canvas' },
+  { label: '⚡ WebGL', value: 'webgl' },
+];
+
+const ControlPanel: React.FC<ControlPanelProps> = ({
+  config, onConfigChange, species, onLoadSpeciesPack, editState, onConvertSpecies, onCancelConversion, onUndo, onRedo, onResetTerrain, cameras, onToggleMicrophone, webglAvailable, onStressTest, onClose, onExportGarden, onImportGarden, onShareGarden, onExportImage,
+  syncSettings, syncState, contributions, onConnectSync, onDisconnectSync,
+  isRecording, onStartRecording, onStopRecording,
+  isCapturingLandmarks, onToggleLandmarkCapture, isReplaying, onStartReplay, onStopReplay,
+  inputMode, cameraAvailable, onSelectInputMode,
+  profiles, activeProfile, onSelectProfile, onDeleteProfile, onStartCalibration
+}) => {
   
+  const inputOptions: { label: string; value: InputProviderId; disabled: boolean }[] = [
+    { label: '📷 摄像头 (Camera)', value: 'camera', disabled: !cameraAvailable },
+    { label: '🖱️ 鼠标/触摸 (Pointer)', value: 'pointer', disabled: false },
+  ];
+
   const speciesOptions: { label: string; value: SpeciesSelection }[] = [
     { label: '随机 (Random)', value: 'Random' },
-    { label: '玫瑰 (Rose)', value: FlowerSpecies.Rose },
-    { label: '蒲公英 (Dandelion)', value: FlowerSpecies.Dandelion },
-    { label: '野菊 (Daisy)', value: FlowerSpecies.WildChrysanthemum },
-    { label: '郁金香 (Tulip)', value: FlowerSpecies.Tulip },
-    { label: '向日葵 (Sunflower)', value: FlowerSpecies.Sunflower },
+    ...species.map(s => ({ label: getSpeciesLabel(s), value: s.id })),
   ];
 
+  const setCamera = (changes: Partial<CameraSettings>) => {
+    onConfigChange({ ...config, camera: { ...config.camera, ...changes } });
+  };
+
+  const setSound = (changes: Partial<SoundSettings>) => {
+    onConfigChange({ ...config, sound: { ...config.sound, ...changes } });
+  };
+
+  const setThreshold = (key: keyof GestureThresholds, value: number) => {
+    onConfigChange({ ...config, gestures: { ...config.gestures, [key]: value } });
+  };
+
   // Ref to track last tap time for double-tap detection on mobile
   const lastTapRef = useRef<number>(0);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const speciesPackInputRef = useRef<HTMLInputElement>(null);
+  const [gardenStatus, setGardenStatus] = useState('');
+  const [speciesStatus, setSpeciesStatus] = useState('');
+  const [soundStatus, setSoundStatus] = useState('');
+  const [syncDraft, setSyncDraft] = useState(syncSettings);
+  const [syncStatus, setSyncStatus] = useState('');
+  const [exportScale, setExportScale] = useState(2);
+  const [exportWithVideo, setExportWithVideo] = useState(false);
+  const [recordingOptions, setRecordingOptions] = useState<RecordingOptions>({ includeVideo: true, includeHud: true });
+
+  const handleToggleRecording = async () => {
+    try {
+      if (isRecording) {
+        await onStopRecording();
+      } else {
+        onStartRecording(recordingOptions);
+      }
+    } catch (err) {
+      setGardenStatus(err instanceof Error ? err.message : '录制失败 (Recording failed)');
+    }
+  };
+
+  const handleImportChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      await onImportGarden(file);
+      setGardenStatus('已导入 (Imported)');
+    } catch (err) {
+      setGardenStatus(err instanceof Error ? err.message : '导入失败 (Import failed)');
+    }
+  };
+
+  const handleSpeciesPackChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const added = await onLoadSpeciesPack(file);
+      setSpeciesStatus(`已添加 ${added.length} 种 (Added ${added.length})`);
+    } catch (err) {
+      setSpeciesStatus(err instanceof Error ? err.message : '加载失败 (Load failed)');
+    }
+  };
+
+  const handleExportImage = async (format: 'svg' | 'png') => {
+    try {
+      await onExportImage(format, exportScale, exportWithVideo);
+    } catch (err) {
+      setGardenStatus(err instanceof Error ? err.message : '导出失败 (Export failed)');
+    }
+  };
+
+  const handleReplayChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await onStartReplay(file);
+    } catch (err) {
+      setGardenStatus(err instanceof Error ? err.message : '回放失败 (Replay failed)');
+    }
+  };
+
+  const handleToggleMicrophone = async (enabled: boolean) => {
+    try {
+      await onToggleMicrophone(enabled);
+      setSoundStatus(enabled ? '对着麦克风哼唱来生长 (Hum into the microphone to grow)' : '');
+    } catch (err) {
+      setSoundStatus(err instanceof Error ? err.message : '无法使用麦克风 (Microphone unavailable)');
+    }
+  };
+
+  const handleToggleSync = () => {
+    if (syncState) {
+      onDisconnectSync();
+      return;
+    }
+    const settings = { ...syncDraft, room: syncDraft.room.trim() || 'garden', name: syncDraft.name.trim() || syncSettings.name };
+    try {
+      onConnectSync(settings);
+      setSyncDraft(settings);
+      setSyncStatus('');
+    } catch (err) {
+      setSyncStatus(err instanceof Error ? err.message : '无法连接 (Could not connect)');
+    }
+  };
+
+  // This station first, then the others in the room, then contributors who have left
+  const stations = syncState ? [
+    { key: 'self', name: syncDraft.name, online: true, self: true },
+    ...syncState.peers.map(peer => ({ key: peer.id, name: peer.name, online: true, self: false })),
+    ...Object.keys(contributions)
+      .filter(name => name !== syncDraft.name && !syncState.peers.some(peer => peer.name === name))
+      .map(name => ({ key: `gone:${name}`, name, online: false, self: false })),
+  ] : [];
+
+  const handleShare = async () => {
+    try {
+      await onShareGarden();
+      setGardenStatus('链接已复制 (Link copied)');
+    } catch {
+      setGardenStatus('无法复制链接 (Copy failed)');
+    }
+  };
 
   const handleDoubleClick = (e: React.MouseEvent) => {
     // Prevent closing when double-clicking interactive elements
     const target = e.target as HTMLElement;
-    if (target.closest('button') || target.closest('input')) {
+    if (target.closest('button, input, select, summary')) {
       return;
     }
     onClose();
@@ -34,7 +282,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onC
   const handleTouchStart = (e: React.TouchEvent) => {
     const target = e.target as HTMLElement;
     // Prevent closing when interacting with controls
-    if (target.closest('button') || target.closest('input')) {
+    if (target.closest('button, input, select, summary')) {
       return;
     }
 
@@ -54,7 +302,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onC
     <div 
       onDoubleClick={handleDoubleClick}
       onTouchStart={handleTouchStart}
-      className="absolute right-4 top-4 w-80 bg-black/60 backdrop-blur-md border border-white/20 rounded-xl p-6 text-white shadow-xl z-30 transition-all hover:bg-black/70 select-none"
+      className="absolute right-4 top-4 w-80 max-h-[calc(100vh-2rem)] overflow-y-auto bg-black/60 backdrop-blur-md border border-white/20 rounded-xl p-6 text-white shadow-xl z-30 transition-all hover:bg-black/70 select-none"
     >
       <div className="flex justify-between items-start mb-4">
         <h2 className="text-xl font-bold flex items-center gap-2">
@@ -73,13 +321,96 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onC
       </div>
       
       <div className="space-y-6">
+        {/* Input Source */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">输入方式 (Input)</label>
+          <div className="grid grid-cols-2 gap-2">
+            {inputOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => onSelectInputMode(option.value)}
+                disabled={option.disabled}
+                className={`px-2 py-2 text-xs rounded-lg border transition-all text-left truncate disabled:opacity-40 ${
+                  inputMode === option.value
+                    ? 'bg-green-500/80 border-green-400 text-white shadow-lg'
+                    : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Camera Device, Resolution and Mirroring */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">摄像头设置 (Camera)</label>
+          <select
+            value={config.camera.deviceId ?? ''}
+            onChange={(e) => setCamera({ deviceId: e.target.value || null })}
+            disabled={!cameraAvailable}
+            className="w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-300 disabled:opacity-40"
+          >
+            <option value="">默认前置 (Default front camera)</option>
+            {cameras.map(camera => <option key={camera.deviceId} value={camera.deviceId}>{camera.label}</option>)}
+          </select>
+          <div className="grid grid-cols-3 gap-2">
+            {CAMERA_RESOLUTIONS.map((resolution) => (
+              <button
+                key={resolution}
+                onClick={() => setCamera({ resolution })}
+                disabled={!cameraAvailable}
+                className={`px-2 py-1 text-xs rounded-lg border transition-all disabled:opacity-40 ${
+                  config.camera.resolution === resolution
+                    ? 'bg-green-500/80 border-green-400 text-white shadow-lg'
+                    : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                }`}
+              >
+                {resolution}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.camera.mirrored}
+              onChange={(e) => setCamera({ mirrored: e.target.checked })}
+              className="accent-green-400"
+            />
+            镜像显示 (Mirror view)
+          </label>
+        </div>
+
+        {/* Undo / Redo */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">历史 (History)</label>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={onUndo}
+              disabled={!editState.canUndo}
+              title="Ctrl+Z"
+              className="py-2 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all disabled:opacity-40"
+            >
+              ↶ 撤销 (Undo)
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!editState.canRedo}
+              title="Ctrl+Y"
+              className="py-2 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all disabled:opacity-40"
+            >
+              ↷ 重做 (Redo)
+            </button>
+          </div>
+        </div>
+
         {/* Flower Species Buttons */}
         <div className="space-y-2">
           <label className="text-sm font-medium text-gray-300">花朵种类 (Species)</label>
           <div className="grid grid-cols-2 gap-2">
             {speciesOptions.map((option) => (
               <button
-                key={option.label}
+                key={option.value}
                 onClick={() => onConfigChange({ ...config, selectedSpecies: option.value })}
                 className={`px-2 py-2 text-xs rounded-lg border transition-all text-left truncate ${
                   config.selectedSpecies === option.value
@@ -91,6 +422,48 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onC
               </button>
             ))}
           </div>
+          <button
+            onClick={() => speciesPackInputRef.current?.click()}
+            className="w-full py-1 text-xs rounded-lg border border-dashed bg-white/5 border-white/10 text-gray-400 hover:bg-white/10 transition-all"
+          >
+            + 花种包 (Species pack)
+          </button>
+          <input
+            ref={speciesPackInputRef}
+            type="file"
+            accept={`${SPECIES_PACK_EXTENSION},application/json`}
+            onChange={handleSpeciesPackChange}
+            className="hidden"
+          />
+          {speciesStatus && <p className="text-[10px] text-gray-400">{speciesStatus}</p>}
+          <p className="text-[10px] text-gray-500">新种子使用所选花种 (Applies to new seeds)</p>
+          {config.selectedSpecies !== 'Random' && (
+            <div className="space-y-1">
+              <span className="text-[10px] text-gray-400">转换现有植物 (Convert existing)</span>
+              <div className="grid grid-cols-3 gap-1">
+                {CONVERSION_SCOPES.map((scope) => (
+                  <button
+                    key={scope.value}
+                    onClick={() => onConvertSpecies(scope.value)}
+                    disabled={scope.value === 'selected' && !editState.hasSelection}
+                    className={`py-1 text-[10px] rounded border transition-all disabled:opacity-40 ${
+                      scope.value === 'area' && editState.pendingConversion
+                        ? 'bg-green-500/80 border-green-400 text-white'
+                        : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                    }`}
+                  >
+                    {scope.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          {editState.pendingConversion && (
+            <div className="flex items-center justify-between gap-2 text-[10px] text-gray-400">
+              <span>捏合或点击要转换的区域 (Pinch or tap an area)</span>
+              <button onClick={onCancelConversion} className="text-gray-300 hover:text-white underline">取消 (Cancel)</button>
+            </div>
+          )}
         </div>
 
         {/* Growth Height Slider */}
@@ -114,6 +487,544 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onC
           </div>
         </div>
 
+        {/* Lifecycle Speed */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300 flex justify-between">
+            <span>生命周期 (Lifecycle)</span>
+            <span className="text-green-400">{config.lifecycleSpeed === 0 ? '暂停 (Paused)' : `×${config.lifecycleSpeed.toFixed(1)}`}</span>
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="5"
+            step="0.1"
+            value={config.lifecycleSpeed}
+            onChange={(e) => onConfigChange({ ...config, lifecycleSpeed: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-green-400"
+          />
+          <div className="flex justify-between text-[10px] text-gray-500">
+            <span>永不凋谢 (Never wilt)</span>
+            <span>快速 (Fast)</span>
+          </div>
+        </div>
+
+        {/* Ambient Wind */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300 flex justify-between">
+            <span>风力 (Wind)</span>
+            <span className="text-green-400">{(config.windStrength * 100).toFixed(0)}%</span>
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.01"
+            value={config.windStrength}
+            onChange={(e) => onConfigChange({ ...config, windStrength: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-green-400"
+          />
+          <div className="flex justify-between text-[10px] text-gray-500">
+            <span>无风 (Still)</span>
+            <span>大风 (Breezy)</span>
+          </div>
+        </div>
+
+        {/* Eraser Radius */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300 flex justify-between">
+            <span>橡皮擦 (Eraser)</span>
+            <span className="text-green-400">{config.eraserRadius}px</span>
+          </label>
+          <input
+            type="range"
+            min="20"
+            max="200"
+            step="5"
+            value={config.eraserRadius}
+            onChange={(e) => onConfigChange({ ...config, eraserRadius: parseInt(e.target.value, 10) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-green-400"
+          />
+        </div>
+
+        {/* Terrain Editing */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">地形 (Terrain)</label>
+          <div className="grid grid-cols-2 gap-2">
+            {TERRAIN_TOOLS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => onConfigChange({ ...config, terrainTool: option.value })}
+                className={`px-2 py-2 text-xs rounded-lg border transition-all text-left truncate ${
+                  config.terrainTool === option.value
+                    ? 'bg-green-500/80 border-green-400 text-white shadow-lg'
+                    : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {config.terrainTool !== 'off' && (
+            <p className="text-[10px] text-gray-500">
+              {TERRAIN_TOOLS.find(option => option.value === config.terrainTool)?.hint} · 编辑地形时不会播种 (No sowing while editing)
+            </p>
+          )}
+          <button
+            onClick={onResetTerrain}
+            className="w-full py-1 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all"
+          >
+            重置地形 (Flatten)
+          </button>
+        </div>
+
+        {/* Planting Rules */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">种植规则 (Planting rules)</label>
+          <div className="grid grid-cols-2 gap-2">
+            {PLANTING_RULES.map((rule) => (
+              <label key={rule.key} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={config.plantingRules[rule.key]}
+                  onChange={(e) => onConfigChange({ ...config, plantingRules: { ...config.plantingRules, [rule.key]: e.target.checked } })}
+                  className="accent-green-400"
+                />
+                {rule.label}
+              </label>
+            ))}
+          </div>
+          {config.plantingRules.competition && (
+            <p className="text-[10px] text-gray-500">拥挤的植物长得更慢、更矮、更淡 (Crowded plants grow slower, shorter and paler)</p>
+          )}
+        </div>
+
+        {/* Growth Targeting */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">生长模式 (Growth)</label>
+          <div className="grid grid-cols-2 gap-2">
+            {GROWTH_MODES.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => onConfigChange({ ...config, growthMode: option.value })}
+                className={`px-2 py-2 text-xs rounded-lg border transition-all text-left truncate ${
+                  config.growthMode === option.value
+                    ? 'bg-green-500/80 border-green-400 text-white shadow-lg'
+                    : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {config.growthMode === 'focused' && (
+            <>
+              <div className="grid grid-cols-3 gap-2">
+                {FOCUS_SOURCES.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => onConfigChange({ ...config, focusSource: option.value })}
+                    className={`px-2 py-1 text-xs rounded-lg border transition-all truncate ${
+                      config.focusSource === option.value
+                        ? 'bg-yellow-500/80 border-yellow-400 text-white'
+                        : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {config.focusSource === 'selection' ? (
+                <p className="text-[10px] text-gray-500">用手指指向一株植物片刻即可选中 (Point at a plant to select it)</p>
+              ) : (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] text-gray-400">
+                    <span>聚焦半径 (Radius)</span>
+                    <span className="font-mono">{config.focusRadius}px</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="40"
+                    max="400"
+                    step="10"
+                    value={config.focusRadius}
+                    onChange={(e) => onConfigChange({ ...config, focusRadius: parseFloat(e.target.value) })}
+                    className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-yellow-400"
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Gesture Thresholds & Calibration Profiles */}
+        <details className="space-y-2 group/gestures">
+          <summary className="text-sm font-medium text-gray-300 cursor-pointer list-none flex justify-between">
+            <span>手势灵敏度 (Gestures)</span>
+            <span className="text-gray-500 group-open/gestures:rotate-90 transition-transform">›</span>
+          </summary>
+          <div className="flex gap-2 pt-2">
+            <select
+              value={activeProfile ?? ''}
+              onChange={(e) => onSelectProfile(e.target.value || null)}
+              className="flex-1 px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-300"
+            >
+              <option value="">默认 (Default)</option>
+              {profiles.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            {activeProfile && (
+              <button
+                onClick={() => onDeleteProfile(activeProfile)}
+                className="px-2 py-1 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-400 hover:text-red-400 transition-all"
+                title="删除档案 (Delete profile)"
+              >
+                🗑️
+              </button>
+            )}
+          </div>
+          <button
+            onClick={onStartCalibration}
+            disabled={inputMode === 'pointer'}
+            className="w-full py-2 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all disabled:opacity-40"
+          >
+            🎯 校准向导 (Calibrate)
+          </button>
+          {THRESHOLD_SLIDERS.map(slider => (
+            <div key={slider.key} className="space-y-1">
+              <label className="text-xs text-gray-400 flex justify-between">
+                <span>{slider.label}</span>
+                <span className="text-green-400">{slider.format(config.gestures[slider.key])}</span>
+              </label>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={config.gestures[slider.key]}
+                onChange={(e) => setThreshold(slider.key, parseFloat(e.target.value))}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-green-400"
+              />
+            </div>
+          ))}
+          <button
+            onClick={() => onConfigChange({ ...config, gestures: DEFAULT_GESTURE_THRESHOLDS })}
+            className="w-full py-1 text-[10px] rounded-lg text-gray-500 hover:text-white transition-all"
+          >
+            恢复默认值 (Reset to defaults)
+          </button>
+        </details>
+
+        {/* Save / Load / Share */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">花园存档 (Garden)</label>
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={onExportGarden}
+              className="px-2 py-2 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all"
+            >
+              导出 (Export)
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="px-2 py-2 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all"
+            >
+              导入 (Import)
+            </button>
+            <button
+              onClick={handleShare}
+              className="px-2 py-2 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all"
+            >
+              分享 (Share)
+            </button>
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={`${GARDEN_FILE_EXTENSION},application/json`}
+            onChange={handleImportChange}
+            className="hidden"
+          />
+          {gardenStatus && <p className="text-[10px] text-gray-400">{gardenStatus}</p>}
+          <p className="text-[10px] text-gray-500">自动保存到本地 (Autosaved locally)</p>
+        </div>
+
+        {/* Shared Garden (several stations adding to one garden) */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300 flex justify-between">
+            <span>共享花园 (Shared garden)</span>
+            {syncState && <span className={SYNC_STATUS[syncState.status].className}>{SYNC_STATUS[syncState.status].label}</span>}
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {SYNC_TRANSPORTS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setSyncDraft({ ...syncDraft, transport: option.value })}
+                disabled={!!syncState}
+                className={`px-2 py-2 text-xs rounded-lg border transition-all text-left truncate disabled:opacity-40 ${
+                  syncDraft.transport === option.value
+                    ? 'bg-green-500/80 border-green-400 text-white shadow-lg'
+                    : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {syncDraft.transport === 'websocket' && (
+            <input
+              type="text"
+              value={syncDraft.url}
+              onChange={(e) => setSyncDraft({ ...syncDraft, url: e.target.value })}
+              disabled={!!syncState}
+              placeholder="ws://192.168.1.10:8787"
+              title="中继地址, 用 npm run relay 启动 (Relay address; start one with npm run relay)"
+              className="w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-300 disabled:opacity-40"
+            />
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={syncDraft.room}
+              onChange={(e) => setSyncDraft({ ...syncDraft, room: e.target.value })}
+              disabled={!!syncState}
+              placeholder="房间 (Room)"
+              title="房间 (Room)"
+              className="px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-300 disabled:opacity-40"
+            />
+            <input
+              type="text"
+              value={syncDraft.name}
+              onChange={(e) => setSyncDraft({ ...syncDraft, name: e.target.value })}
+              disabled={!!syncState}
+              placeholder="名字 (Name)"
+              title="本站名字, 标记你播下的种子 (This station's name, tagged on the seeds it sows)"
+              className="px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-300 disabled:opacity-40"
+            />
+          </div>
+          <button
+            onClick={handleToggleSync}
+            className={`w-full py-2 text-xs rounded-lg border transition-all ${
+              syncState
+                ? 'bg-cyan-600/80 border-cyan-400 text-white'
+                : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+            }`}
+          >
+            {syncState ? '断开 (Leave)' : '加入 (Join)'}
+          </button>
+          {syncStatus && <p className="text-[10px] text-gray-400">{syncStatus}</p>}
+          {stations.length > 0 && (
+            <ul className="space-y-1 text-xs">
+              {stations.map(station => {
+                const duplicate = !station.self && station.online && station.name === syncDraft.name;
+                return (
+                  <li
+                    key={station.key}
+                    className={`flex justify-between ${duplicate ? 'text-red-400' : station.online ? 'text-gray-300' : 'text-gray-500'}`}
+                    title={duplicate ? '名字重复, 请改名 (Same name as this station; pick another)' : undefined}
+                  >
+                    <span className="truncate">
+                      {station.online ? '🟢' : '⚪'} {station.name}{station.self ? ' (本机 This station)' : ''}
+                    </span>
+                    <span className="text-green-400">{contributions[station.name] ?? 0} 株</span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Image Export (SVG / high-res PNG) */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">导出图片 (Image)</label>
+          <div className="flex gap-1">
+            {EXPORT_SCALES.map(scale => (
+              <button
+                key={scale}
+                onClick={() => setExportScale(scale)}
+                className={`flex-1 py-1 text-xs rounded-lg border transition-all ${
+                  exportScale === scale
+                    ? 'bg-green-500/80 border-green-400 text-white'
+                    : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                }`}
+              >
+                {scale}x
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={exportWithVideo}
+              onChange={(e) => setExportWithVideo(e.target.checked)}
+              className="accent-green-400"
+            />
+            包含摄像头画面 (Include video)
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => handleExportImage('png')}
+              className="px-2 py-2 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all"
+            >
+              PNG ({exportScale}x)
+            </button>
+            <button
+              onClick={() => handleExportImage('svg')}
+              className="px-2 py-2 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all"
+            >
+              SVG (矢量 Vector)
+            </button>
+          </div>
+        </div>
+
+        {/* Session Recording (WebM) */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">录制视频 (Record)</label>
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={recordingOptions.includeVideo}
+                disabled={isRecording}
+                onChange={(e) => setRecordingOptions({ ...recordingOptions, includeVideo: e.target.checked })}
+                className="accent-green-400"
+              />
+              摄像头 (Video)
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={recordingOptions.includeHud}
+                disabled={isRecording}
+                onChange={(e) => setRecordingOptions({ ...recordingOptions, includeHud: e.target.checked })}
+                className="accent-green-400"
+              />
+              状态栏 (HUD)
+            </label>
+          </div>
+          <button
+            onClick={handleToggleRecording}
+            disabled={!isRecordingSupported()}
+            className={`w-full py-2 text-xs rounded-lg border transition-all flex items-center justify-center gap-2 disabled:opacity-40 ${
+              isRecording
+                ? 'bg-red-600/80 border-red-400 text-white'
+                : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+            }`}
+          >
+            <span className={`w-2 h-2 rounded-full ${isRecording ? 'bg-white animate-pulse' : 'bg-red-500'}`}></span>
+            {isRecording ? '停止并保存 (Stop & Save)' : '开始录制 (Record)'}
+          </button>
+        </div>
+
+        {/* Landmark capture & replay (debugging, demos without a webcam) */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">手势数据 (Landmarks)</label>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={onToggleLandmarkCapture}
+              disabled={inputMode !== 'camera' && !isCapturingLandmarks}
+              className={`px-2 py-2 text-xs rounded-lg border transition-all disabled:opacity-40 ${
+                isCapturingLandmarks
+                  ? 'bg-red-600/80 border-red-400 text-white'
+                  : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+              }`}
+            >
+              {isCapturingLandmarks ? '停止并保存 (Save)' : '录制手势 (Capture)'}
+            </button>
+            <button
+              onClick={() => (isReplaying ? onStopReplay() : replayInputRef.current?.click())}
+              disabled={isCapturingLandmarks}
+              className={`px-2 py-2 text-xs rounded-lg border transition-all disabled:opacity-40 ${
+                isReplaying
+                  ? 'bg-cyan-600/80 border-cyan-400 text-white'
+                  : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+              }`}
+            >
+              {isReplaying ? '停止回放 (Stop)' : '回放 (Replay)'}
+            </button>
+          </div>
+          <input
+            ref={replayInputRef}
+            type="file"
+            accept={`${LANDMARK_FILE_EXTENSION},application/json`}
+            onChange={handleReplayChange}
+            className="hidden"
+          />
+        </div>
+
+        {/* Sound */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300 flex justify-between">
+            <span>声音 (Sound)</span>
+            <span className="text-green-400">{config.sound.muted ? '静音 (Muted)' : `${(config.sound.volume * 100).toFixed(0)}%`}</span>
+          </label>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setSound({ muted: !config.sound.muted })}
+              className="px-2 py-1 text-sm rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all"
+              title={config.sound.muted ? '取消静音 (Unmute)' : '静音 (Mute)'}
+            >
+              {config.sound.muted ? '🔇' : '🔊'}
+            </button>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={config.sound.volume}
+              onChange={(e) => setSound({ volume: parseFloat(e.target.value), muted: false })}
+              className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-green-400"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.sound.micGrowth}
+              onChange={(e) => handleToggleMicrophone(e.target.checked)}
+              className="accent-green-400"
+            />
+            🎤 哼唱生长 (Hum to grow)
+          </label>
+          {soundStatus && <p className="text-[10px] text-gray-400">{soundStatus}</p>}
+        </div>
+
+        {/* Rendering Performance */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">性能 (Performance)</label>
+          <div className="grid grid-cols-2 gap-2">
+            {RENDERERS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => onConfigChange({ ...config, renderer: option.value })}
+                disabled={option.value === 'webgl' && !webglAvailable}
+                className={`px-2 py-2 text-xs rounded-lg border transition-all text-left truncate disabled:opacity-40 ${
+                  config.renderer === option.value
+                    ? 'bg-green-500/80 border-green-400 text-white shadow-lg'
+                    : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={config.showStats}
+                onChange={(e) => onConfigChange({ ...config, showStats: e.target.checked })}
+                className="accent-green-400"
+              />
+              显示帧率 (Show FPS)
+            </label>
+            <button
+              onClick={onStressTest}
+              className="px-2 py-1 text-xs rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all"
+              title="种下 2000 株盛开的花，撤销可移除 (Plants 2000 blooming flowers; undo removes them)"
+            >
+              压力测试 +2000 (Stress test)
+            </button>
+          </div>
+        </div>
+
         {/* Explicit Hide Button */}
         <button
           onClick={onClose}
@@ -124,9 +1035,30 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onC
       </div>
       
       <div className="mt-8 pt-4 border-t border-white/10 text-xs text-gray-400 space-y-2">
-        <p>🖐️ <span className="text-white">捏合手指:</span> 播种</p>
-        <p>😮 <span className="text-white">张开嘴巴:</span> 生长</p>
-        <p>🖐️ <span className="text-white">张开五指5秒:</span> 清除所有</p>
+        {inputMode === 'pointer' ? (
+          <>
+            <p>👆 <span className="text-white">点击/轻触:</span> 播种</p>
+            <p>👆 <span className="text-white">点击植物:</span> 选中并编辑</p>
+            <p>⌨️ <span className="text-white">按住空格/长按:</span> 生长</p>
+            <p>⌨️ <span className="text-white">按住 B 键:</span> 朝光标方向吹风</p>
+            <p>⌨️ <span className="text-white">按住 E 键移动:</span> 擦除</p>
+            <p>⛰️ <span className="text-white">地面工具下拖动:</span> 塑造地形</p>
+            <p>⌨️ <span className="text-white">按住 C 键5秒:</span> 清除所有</p>
+            <p>⌨️ <span className="text-white">Ctrl+Z / Ctrl+Y:</span> 撤销 / 重做</p>
+          </>
+        ) : (
+          <>
+            <p>🖐️ <span className="text-white">捏合手指:</span> 播种</p>
+            <p>☝️ <span className="text-white">指向植物片刻:</span> 选中, 捏合菜单按钮编辑</p>
+            <p>😮 <span className="text-white">张开嘴巴:</span> 生长</p>
+            <p>😗 <span className="text-white">对着镜头吹气:</span> 起风, 吹散蒲公英</p>
+            <p>✊ <span className="text-white">握拳移动:</span> 擦除</p>
+            <p>⛰️ <span className="text-white">地面工具下捏合拖动:</span> 塑造地形</p>
+            <p>🖐️ <span className="text-white">张开五指5秒:</span> 清除所有</p>
+            <p>👎 <span className="text-white">拇指朝下:</span> 撤销</p>
+          </>
+        )}
+        {config.sound.micGrowth && <p>🎤 <span className="text-white">对着麦克风哼唱:</span> 生长</p>}
         <p className="pt-2 text-[10px] opacity-50 text-right">PC: 双击隐藏 / Mobile: 双击空白处隐藏</p>
       </div>
     </div>
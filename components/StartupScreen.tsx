@@ -0,0 +1,100 @@
+import React from 'react';
+import { StartupState } from '../utils/startup';
+import { LANDMARK_FILE_EXTENSION } from '../utils/landmarkRecording';
+
+interface StartupScreenProps {
+  state: StartupState;
+  onRetry: () => void;
+  onUsePointer: () => void;
+  onLoadReplay: (file: File) => void;
+}
+
+interface ScreenContent {
+  icon: string | null; // null shows the spinner
+  title: string;
+  message: string;
+  retryLabel?: string;
+}
+
+const contentFor = (state: StartupState): ScreenContent | null => {
+  switch (state.phase) {
+    case 'loadingModels':
+      return { icon: null, title: '正在初始化自然引擎...', message: '正在加载手势与面部识别模型 (Loading tracking models)' };
+    case 'startingCamera':
+      return { icon: null, title: '正在打开摄像头...', message: '请允许摄像头权限 (Please allow camera access)' };
+    case 'cameraDenied':
+      return {
+        icon: '🚫',
+        title: '摄像头权限被拒绝 (Camera access denied)',
+        message: '请在浏览器地址栏的网站设置中允许使用摄像头, 然后重试 (Allow the camera in the site settings, then retry)',
+        retryLabel: '重试 (Retry)',
+      };
+    case 'noCamera':
+      return {
+        icon: '📷',
+        title: '无法使用摄像头 (No camera)',
+        message: `${state.detail} · 连接摄像头后重试 (Connect a camera and retry)`,
+        retryLabel: '重试 (Retry)',
+      };
+    case 'modelFailed':
+      return {
+        icon: '⚠️',
+        title: '识别模型加载失败 (Tracking models failed to load)',
+        message: `请检查网络连接后重试 (Check the connection and retry) · ${state.detail}`,
+        retryLabel: '重新加载 (Reload models)',
+      };
+    case 'running':
+      return null;
+  }
+};
+
+// Full-screen overlay for every startup phase except running; each problem screen offers a retry
+// and a way to play without the camera.
+const StartupScreen: React.FC<StartupScreenProps> = ({ state, onRetry, onUsePointer, onLoadReplay }) => {
+  const content = contentFor(state);
+  if (!content) return null;
+
+  return (
+    <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/90 text-white px-6 text-center">
+      {content.icon === null ? (
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-green-500 mb-4"></div>
+      ) : (
+        <div className="text-5xl mb-4">{content.icon}</div>
+      )}
+      <p className="text-xl">{content.title}</p>
+      <p className="text-sm text-gray-400 mt-2 max-w-md break-words">{content.message}</p>
+
+      <div className="mt-6 flex flex-wrap items-center justify-center gap-3">
+        {content.retryLabel && (
+          <button
+            onClick={onRetry}
+            className="px-4 py-2 text-sm rounded-lg border bg-green-500/80 border-green-400 text-white hover:bg-green-500 transition-all"
+          >
+            {content.retryLabel}
+          </button>
+        )}
+        <button
+          onClick={onUsePointer}
+          className="px-4 py-2 text-sm rounded-lg border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all"
+        >
+          🖱️ 使用鼠标/触摸 (Use mouse/touch)
+        </button>
+      </div>
+
+      <label className="mt-4 text-xs text-gray-400 underline cursor-pointer hover:text-white">
+        没有摄像头? 加载手势回放 (Load landmark replay)
+        <input
+          type="file"
+          accept={`${LANDMARK_FILE_EXTENSION},application/json`}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onLoadReplay(file);
+          }}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default StartupScreen;
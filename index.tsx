@@ -1,12 +1,18 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { restoreSpeciesPacks } from './utils/species/packs';
+import { registerOfflineCache } from './utils/offline';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Species from packs loaded in earlier sessions must exist before the autosave is restored
+restoreSpeciesPacks();
+registerOfflineCache();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   // Removed StrictMode to avoid double-initialization of MediaPipe/WebGL contexts
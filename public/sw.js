@@ -0,0 +1,74 @@
+// Offline cache for venues without a reliable connection. After one online visit the app shell,
+// its hashed bundles, the MediaPipe wasm and models (local copies or CDN) and the CDN scripts in
+// index.html are all served from here. Bump CACHE when the caching rules change.
+const CACHE = 'garden-ai-assets-v1';
+
+// Cross-origin hosts whose files never change for a given URL
+const CDN_HOSTS = ['cdn.jsdelivr.net', 'storage.googleapis.com', 'cdn.tailwindcss.com', 'aistudiocdn.com'];
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== CACHE).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// A classic <script> is fetched without CORS, and its opaque response might be an error page.
+// Ask with CORS instead so the status can be checked; a CDN that refuses gets the original request.
+const fetchCheckable = async request => {
+  if (request.mode !== 'no-cors') return fetch(request);
+  try {
+    return await fetch(request.url, { mode: 'cors', credentials: 'omit' });
+  } catch {
+    return fetch(request);
+  }
+};
+
+// Cache first: content-addressed bundles, the vision assets and CDN files
+// (a HEAD request, used to check whether a file is there, fetches and caches the whole file)
+const cacheFirst = async request => {
+  const headersOnly = response => new Response(null, { status: response.status, headers: response.headers });
+  const isHead = request.method === 'HEAD';
+  const cached = await caches.match(request.url, { ignoreVary: true });
+  if (cached) return isHead ? headersOnly(cached) : cached;
+  const response = await (isHead ? fetch(request.url) : fetchCheckable(request));
+  // Only successful responses; an opaque one can't be told from a failure
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    await cache.put(request.url, response.clone());
+  }
+  return isHead ? headersOnly(response) : response;
+};
+
+// Network first: the page itself, so a new deploy is picked up whenever there is a connection
+const networkFirst = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match(request, { ignoreSearch: true }) ?? await caches.match(self.registration.scope);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' && request.method !== 'HEAD') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin
+    ? url.pathname.includes('/assets/') || url.pathname.includes('/mediapipe/')
+    : CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,155 @@
+// Tiny WebSocket relay for shared gardens on a local network: each message a station sends is passed
+// on to the other stations in the same room (ws://host:8787/?room=name). It keeps no garden of its
+// own; stations hand the garden to newcomers themselves. Plain Node, no dependencies:
+//   npm run relay              (or PORT=9000 npm run relay)
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+import { networkInterfaces } from 'node:os';
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_MESSAGE = 64 * 1024 * 1024; // bytes; a snapshot of a few thousand plants is a few MB
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'; // RFC 6455
+const OPCODE = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+
+const rooms = new Map(); // Room name → set of sockets
+
+// Server frames are never masked and never fragmented
+const frame = (opcode, payload) => {
+  const { length } = payload;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header.writeUInt16BE(length, 2);
+    header[1] = 126;
+  } else {
+    header = Buffer.alloc(10);
+    header.writeBigUInt64BE(BigInt(length), 2);
+    header[1] = 127;
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+};
+
+const join = (socket, room, head) => {
+  const stations = rooms.get(room) ?? new Set();
+  rooms.set(room, stations);
+  stations.add(socket);
+  console.log(`${room}: ${stations.size} station(s)`);
+
+  let buffer = head;
+  let fragments = [];
+  let fragmentBytes = 0;
+
+  const leave = () => {
+    if (!stations.delete(socket)) return;
+    if (stations.size === 0) rooms.delete(room);
+    console.log(`${room}: ${stations.size} station(s)`);
+  };
+
+  const relay = message => {
+    const data = frame(OPCODE.text, message);
+    stations.forEach(station => {
+      if (station !== socket && station.writable) station.write(data);
+    });
+  };
+
+  // Parses as many complete frames as have arrived; the rest waits for more data
+  const read = () => {
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Browsers always mask; anything else isn't a client we know
+      if (!masked || length > MAX_MESSAGE) {
+        socket.destroy();
+        return;
+      }
+      if (buffer.length < offset + 4 + length) return;
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      switch (opcode) {
+        case OPCODE.text:
+        case OPCODE.continuation:
+          fragments.push(payload);
+          fragmentBytes += payload.length;
+          if (fragmentBytes > MAX_MESSAGE) {
+            socket.destroy();
+            return;
+          }
+          if (fin) {
+            relay(Buffer.concat(fragments));
+            fragments = [];
+            fragmentBytes = 0;
+          }
+          break;
+        case OPCODE.ping:
+          socket.write(frame(OPCODE.pong, payload));
+          break;
+        case OPCODE.close:
+          socket.end(frame(OPCODE.close, Buffer.alloc(0)));
+          leave();
+          return;
+        // Binary frames and pongs are ignored
+      }
+    }
+  };
+
+  socket.on('data', chunk => {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+    read();
+  });
+  socket.on('close', leave);
+  socket.on('error', leave);
+  read();
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+  const summary = [...rooms].map(([room, stations]) => `${room}: ${stations.size}`).join('\n');
+  res.end(`garden-ai sync relay\n${summary || 'No stations connected'}\n`);
+});
+
+server.on('upgrade', (req, socket, head) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  const room = new URL(req.url ?? '/', 'http://relay').searchParams.get('room') || 'garden';
+  join(socket, room, head);
+});
+
+server.listen(PORT, () => {
+  const addresses = Object.values(networkInterfaces()).flat()
+    .filter(address => address && address.family === 'IPv4' && !address.internal)
+    .map(address => address.address);
+  console.log(`Sync relay listening on port ${PORT}. Stations connect to:`);
+  ['localhost', ...addresses].forEach(host => console.log(`  ws://${host}:${PORT}`));
+});
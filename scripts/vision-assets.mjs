@@ -0,0 +1,38 @@
+// Puts everything face and hand tracking needs under public/mediapipe, so the app can run without
+// reaching the MediaPipe CDNs: the wasm fileset is copied from node_modules, the two models are
+// downloaded once. Runs before `dev` and `build`; a failed download only warns, and the app then
+// loads that model from its CDN instead (the service worker keeps a copy for offline use).
+import { copyFile, mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const target = join(root, 'public', 'mediapipe');
+const wasmSource = join(root, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+
+const MODELS = {
+  'face_landmarker.task': 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
+  'hand_landmarker.task': 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+};
+
+const exists = path => stat(path).then(() => true, () => false);
+
+await mkdir(join(target, 'wasm'), { recursive: true });
+await mkdir(join(target, 'models'), { recursive: true });
+
+for (const file of await readdir(wasmSource)) {
+  await copyFile(join(wasmSource, file), join(target, 'wasm', file));
+}
+
+for (const [file, url] of Object.entries(MODELS)) {
+  const path = join(target, 'models', file);
+  if (await exists(path)) continue;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    await writeFile(path, Buffer.from(await response.arrayBuffer()));
+    console.log(`vision-assets: downloaded ${file}`);
+  } catch (err) {
+    console.warn(`vision-assets: could not download ${file} (${err.message}); it will load from the CDN`);
+  }
+}
@@ -1,17 +1,70 @@
 
-export enum FlowerSpecies {
-  Rose = '玫瑰',
-  Dandelion = '蒲公英',
-  WildChrysanthemum = '野菊',
-  Tulip = '郁金香',
-  Sunflower = '向日葵',
+// Key into the species registry (utils/species/registry.ts). Built-ins use their Chinese names.
+export type SpeciesId = string;
+
+export type SpeciesSelection = SpeciesId | 'Random';
+
+// Tunable gesture detection. Distances are in normalized landmark units.
+export interface GestureThresholds {
+  pinchCloseDistance: number; // Thumb–index distance that counts as a pinch
+  pinchFarDistance: number; // Distance at which pinch proximity starts rising from 0
+  mouthRestOffset: number; // Lip gap / face height ratio treated as a closed mouth
+  mouthGain: number; // Multiplier from ratio above rest to openness 0..1
+  pinchCooldown: number; // ms between two seeds from a held pinch
+  clearHoldTime: number; // ms of open palm before the garden is cleared
+  blowThreshold: number; // mouthFunnel/mouthPucker blendshape score at which blowing starts
+}
+
+export type GrowthMode = 'all' | 'focused';
+export type FocusSource = 'face' | 'finger' | 'selection';
+// What a pinch or drag edits while shaping the terrain ('off' = normal sowing)
+export type TerrainTool = 'off' | 'ground' | 'planter' | 'platform';
+// How the live canvas is drawn: 2D canvas with cached sprites, or the same plus instanced WebGL heads and particles
+export type RendererKind = 'canvas' | 'webgl';
+
+export type CameraResolution = '480p' | '720p' | '1080p';
+
+// Which camera feeds the garden and how it is shown; see utils/camera.ts
+export interface CameraSettings {
+  deviceId: string | null; // null: the browser's default front camera
+  resolution: CameraResolution;
+  mirrored: boolean; // Show the view like a mirror (natural for a front camera)
 }
 
-export type SpeciesSelection = FlowerSpecies | 'Random';
+// sprout → bud → bloom → (seedHead) → wilting → decaying → removed
+export type PlantStage = 'sprout' | 'bud' | 'bloom' | 'seedHead' | 'wilting' | 'decaying';
+
+// Procedural sound and the microphone growth input; see utils/audio
+export interface SoundSettings {
+  muted: boolean;
+  volume: number; // 0 to 1
+  micGrowth: boolean; // Humming into the microphone grows plants, like opening the mouth
+}
 
 export interface PlantConfig {
   selectedSpecies: SpeciesSelection;
   growthHeightFactor: number; // 0.0 to 1.0
+  gestures: GestureThresholds;
+  growthMode: GrowthMode; // Grow every plant, or only those near the focus
+  focusSource: FocusSource; // Where the focus comes from in 'focused' mode
+  focusRadius: number; // px around the focus in which plants grow
+  lifecycleSpeed: number; // Aging multiplier; 0 pauses aging
+  windStrength: number; // Ambient breeze, 0 (still) to 1
+  eraserRadius: number; // px around the eraser that it sweeps clean
+  terrainTool: TerrainTool;
+  plantingRules: PlantingRules;
+  renderer: RendererKind;
+  showStats: boolean; // Frame rate and plant count overlay
+  camera: CameraSettings;
+  sound: SoundSettings;
+}
+
+// Optional rules for how plants share space, each switched on or off in the ControlPanel
+export interface PlantingRules {
+  spacing: boolean; // Seeds can't take root closer to a plant than their species' spacing
+  bounce: boolean; // Seeds bounce off plants and hop aside from crowded spots to free ground
+  competition: boolean; // Crowded plants grow slower, shorter and paler
+  leanAway: boolean; // Plants bend slightly away from close neighbours
 }
 
 export interface Point {
@@ -24,9 +77,32 @@ export interface Seed {
   x: number;
   y: number;
   vy: number; // Vertical velocity
-  species: FlowerSpecies;
+  vx?: number; // Sideways velocity after bouncing off a plant
+  bounces?: number; // Times it has bounced, so a seed in a crowd eventually gives up
+  species: SpeciesId;
   color: string;
   isLanded: boolean;
+  contributor?: string; // Station that sowed it in a shared garden (see utils/sync); missing when not shared
+}
+
+export type LeafShape = 'oval' | 'lance' | 'heart' | 'blade' | 'toothed';
+
+// Plant structure is in px relative to the plant's base (y up is negative), laid out for the
+// fully grown plant. Growth reveals it progressively, see utils/plantStructure.ts.
+export interface PlantBranch {
+  points: Point[]; // Polyline from the attachment point outwards
+  start: number; // growthProgress at which the branch sprouts
+  end: number; // growthProgress at which it reaches full length
+}
+
+export interface PlantLeaf {
+  x: number; // Attachment point
+  y: number;
+  angle: number; // Radians, 0 = pointing up
+  length: number;
+  width: number;
+  shape: LeafShape;
+  appearAt: number; // growthProgress at which the leaf unfurls
 }
 
 export interface Plant {
@@ -36,10 +112,42 @@ export interface Plant {
   height: number;
   maxHeight: number;
   growthProgress: number; // 0 to 1
-  species: FlowerSpecies;
+  species: SpeciesId;
   color: string;
   seed: number; // Random seed for procedural variation
-  stemControlPoints: Point[];
+  stemControlPoints: Point[]; // Main stem polyline, evenly spaced in growthProgress (first point is the base)
+  branches: PlantBranch[];
+  leaves: PlantLeaf[];
+  stage: PlantStage;
+  stageAge: number; // Simulated ms spent in the current stage (scaled by lifecycleSpeed)
+  florets: number; // Fraction of a seed head still attached, 0 to 1
+  sway: number; // px the stem tip is bent sideways by the wind (spring state, not saved)
+  swayVelocity: number;
+  crowding?: number; // 0 to 1, how hemmed in by neighbours it is (competition rule, not saved)
+  lean?: number; // px of stem-tip bend away from neighbours (lean-away rule, not saved)
+  contributor?: string; // Inherited from its seed
+}
+
+// Raised bed standing on the ground; plants in it grow from its rim
+export interface Planter {
+  id: string;
+  x: number; // Centre, canvas px
+  width: number;
+  height: number; // Rim height above the ground under its centre
+}
+
+// Floating ledge seeds can land on
+export interface Platform {
+  id: string;
+  x: number; // Centre, canvas px
+  y: number; // Top surface
+  width: number;
+}
+
+export interface Terrain {
+  heights: number[]; // Ground elevation in px above the canvas bottom, at evenly spaced columns across the width
+  planters: Planter[];
+  platforms: Platform[];
 }
 
 export interface Particle {
@@ -51,13 +159,56 @@ export interface Particle {
   color: string;
   life: number; // 1.0 to 0.0
   size: number;
+  // Light particles that sink slowly and drift on the wind; default is a heavy burst fragment,
+  // 'implode' one that flies back in when a clear is undone
+  kind?: 'floret' | 'petal' | 'implode';
 }
 
-export interface InteractionState {
+// From the user's point of view (the on-screen image is mirrored)
+export type Handedness = 'Left' | 'Right';
+
+export interface HandState {
+  isPresent: boolean;
   isPinching: boolean;
   pinchLocation: Point | null;
   pinchProximity: number; // 0 to 1
+}
+
+export interface InteractionState {
+  hands: Record<Handedness, HandState>; // Tracked independently so both hands can sow at once
   mouthOpenness: number; // 0 to 1
+  blowStrength: number; // 0 to 1, pursed lips blowing at the camera
   isPalmOpen: boolean; // Replaced isFistClenched
+  isThumbsDown: boolean; // Undo gesture
+  eraserPosition: Point | null; // Centre of a closed fist (or the cursor with E held) while erasing, canvas px
+  dragPosition: Point | null; // A held pinch (or pressed, moving pointer), for dragging tools such as the ground brush
   clearTimer: number; // Replaced fistTimer, ms
+  facePosition: Point | null; // Nose tip in canvas px
+  pointingPosition: Point | null; // Index fingertip while pointing (or mouse hover), canvas px
+  // Raw measurements behind the values above, used by the calibration wizard
+  mouthRatio: number | null; // Lip gap / face height, null without a face
+  pinchDistance: number | null; // Smallest thumb–index distance over all hands, null without hands
+}
+
+// Plain-data shapes of the MediaPipe results we consume. Live results from
+// detectForVideo() satisfy these, and so do recorded landmark streams.
+export interface Landmark {
+  x: number; // Normalized 0 to 1
+  y: number; // Normalized 0 to 1
+  z: number;
+}
+
+export interface Category {
+  categoryName: string;
+  score: number;
+}
+
+export interface FaceDetection {
+  faceLandmarks: Landmark[][];
+  faceBlendshapes?: { categories: Category[] }[];
+}
+
+export interface HandDetection {
+  landmarks: Landmark[][];
+  handedness?: Category[][];
 }
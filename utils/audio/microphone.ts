@@ -0,0 +1,67 @@
+const VOICE_LOW = 90; // Hz; the band-pass keeps humming and voice, drops rumble and hiss
+const VOICE_HIGH = 1000;
+const RANGE_DB = 25; // dB above the noise floor for full growth
+const MARGIN_DB = 6; // dB above the noise floor before anything grows
+const FLOOR_DRIFT = 0.01; // dB per reading the noise floor creeps up, so it follows a noisy room
+const MAX_FLOOR_DB = -35; // The floor never rises past this, so loud rooms still leave room to hum
+const ATTACK = 0.5; // Smoothing per reading while getting louder
+const RELEASE = 0.1; // ... and while getting quieter
+
+/**
+ * Microphone loudness as a growth input, for people who can't open their mouth on camera:
+ * humming or singing grows plants like an open mouth does. The level is measured against a
+ * noise floor that slowly adapts to the room.
+ */
+export class MicrophoneLevel {
+  private source: MediaStreamAudioSourceNode;
+  private analyser: AnalyserNode;
+  private samples: Float32Array<ArrayBuffer>;
+  private floor = -60;
+  private level = 0;
+
+  // Asks for microphone access; rejects with a message for the panel when it's refused
+  static async open(context: AudioContext): Promise<MicrophoneLevel> {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: false, autoGainControl: false },
+      });
+    } catch {
+      throw new Error('无法使用麦克风 (Microphone unavailable)');
+    }
+    return new MicrophoneLevel(context, stream);
+  }
+
+  private constructor(context: AudioContext, private stream: MediaStream) {
+    this.source = context.createMediaStreamSource(stream);
+    const highpass = context.createBiquadFilter();
+    highpass.type = 'highpass';
+    highpass.frequency.value = VOICE_LOW;
+    const lowpass = context.createBiquadFilter();
+    lowpass.type = 'lowpass';
+    lowpass.frequency.value = VOICE_HIGH;
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    // Analysed only, never played back
+    this.source.connect(highpass).connect(lowpass).connect(this.analyser);
+  }
+
+  // Growth input (0..1) from the current loudness; call once per frame
+  read(): number {
+    this.analyser.getFloatTimeDomainData(this.samples);
+    let sum = 0;
+    for (let i = 0; i < this.samples.length; i++) sum += this.samples[i] * this.samples[i];
+    const db = 10 * Math.log10(sum / this.samples.length + 1e-10);
+
+    this.floor = Math.min(db, this.floor + FLOOR_DRIFT, MAX_FLOOR_DB);
+    const target = Math.min(Math.max((db - this.floor - MARGIN_DB) / RANGE_DB, 0), 1);
+    this.level += (target - this.level) * (target > this.level ? ATTACK : RELEASE);
+    return this.level;
+  }
+
+  dispose() {
+    this.source.disconnect();
+    this.stream.getTracks().forEach(track => track.stop());
+  }
+}
@@ -0,0 +1,202 @@
+import { GardenEvent } from '../simulation';
+import { getSpeciesVoice } from '../species/registry';
+import { SpeciesVoice } from '../species/types';
+
+const MAX_PLUCKS_PER_FRAME = 4; // A handful of seeds landing together reads as a strum; more is noise
+const MAX_CHIMES_PER_FRAME = 3;
+const CHIME_PARTIALS = [
+  { ratio: 2, gain: 0.5 },
+  { ratio: 3, gain: 0.25 },
+  { ratio: 5.4, gain: 0.1 }, // Slightly inharmonic, for a bell-like shimmer
+];
+const CHIME_DECAY = 1.6; // s
+const SWELL_PITCH = 110; // Hz, A2
+const SWELL_DETUNE = 7; // Cents either side, for a slow chorus
+const SWELL_SMOOTHING = 0.08; // s time constant as the swell follows the mouth
+const BURST_DURATION = 0.9; // s
+
+/**
+ * Procedural garden sounds, synthesized with WebAudio; there are no audio files:
+ * - a pluck in the species' voice when a seed lands
+ * - a chime an octave and a twelfth above it when a flower head opens
+ * - a pad that swells with the mouth while growing
+ * - a noise burst with a low thump when the garden is cleared
+ * Sounds are panned by where they happen. Browsers only start audio after a user gesture, so
+ * nothing plays until resume() has been called from one.
+ */
+export class SoundEngine {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private swell: { gain: GainNode; filter: BiquadFilterNode } | null = null;
+  private noise: AudioBuffer | null = null;
+  private volume = 0.6;
+  private muted = false;
+
+  // The shared context, created on first use (the microphone input also runs in it)
+  get audioContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.master = this.context.createGain();
+      this.master.connect(this.context.destination);
+      this.applyVolume();
+    }
+    return this.context;
+  }
+
+  // Call from a user gesture (click, key press) so the browser lets audio start
+  resume() {
+    const context = this.audioContext;
+    if (context.state === 'suspended') context.resume().catch(err => console.warn('Audio could not start:', err));
+  }
+
+  setVolume(volume: number, muted: boolean) {
+    this.volume = volume;
+    this.muted = muted;
+    this.applyVolume();
+  }
+
+  // Plays the sounds for one step's events; `width` is the garden's, for panning
+  play(events: GardenEvent[], width: number) {
+    if (!this.isAudible() || events.length === 0) return;
+    let plucks = 0;
+    let chimes = 0;
+    events.forEach(event => {
+      const pan = width > 0 ? Math.min(Math.max(event.type === 'exploded' ? 0 : (event.x / width) * 2 - 1, -1), 1) : 0;
+      if (event.type === 'seedLanded' && plucks++ < MAX_PLUCKS_PER_FRAME) {
+        this.pluck(getSpeciesVoice(event.species), pan);
+      } else if (event.type === 'headOpened' && chimes++ < MAX_CHIMES_PER_FRAME) {
+        this.chime(getSpeciesVoice(event.species), pan);
+      } else if (event.type === 'exploded' && event.count > 0) {
+        this.burst(event.count);
+      }
+    });
+  }
+
+  // Follows the growth input (0..1) every frame; silent at 0
+  setSwell(amount: number) {
+    if (!this.swell && (amount <= 0 || !this.isAudible())) return;
+    const { gain, filter } = this.swell ?? this.createSwell();
+    const now = this.audioContext.currentTime;
+    gain.gain.setTargetAtTime(amount ** 1.5 * 0.18, now, SWELL_SMOOTHING);
+    filter.frequency.setTargetAtTime(200 + amount * 1800, now, SWELL_SMOOTHING);
+  }
+
+  dispose() {
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.master = null;
+    this.swell = null;
+  }
+
+  private isAudible() {
+    return !this.muted && this.volume > 0 && this.context?.state === 'running';
+  }
+
+  private applyVolume() {
+    if (!this.master || !this.context) return;
+    this.master.gain.setTargetAtTime(this.muted ? 0 : this.volume, this.context.currentTime, 0.02);
+  }
+
+  // A voice's output, panned, into the master gain
+  private output(pan: number): AudioNode {
+    const context = this.audioContext;
+    const panner = context.createStereoPanner();
+    panner.pan.value = pan;
+    panner.connect(this.master!);
+    return panner;
+  }
+
+  private pluck(voice: SpeciesVoice, pan: number) {
+    const context = this.audioContext;
+    const now = context.currentTime;
+    const oscillator = context.createOscillator();
+    oscillator.type = voice.wave;
+    oscillator.frequency.value = voice.pitch;
+    // The brightness dies away faster than the tone, like a plucked string
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(voice.pitch * 8, now);
+    filter.frequency.exponentialRampToValueAtTime(voice.pitch * 1.5, now + voice.decay * 0.5);
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0.0001, now);
+    gain.gain.exponentialRampToValueAtTime(0.3, now + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.0001, now + voice.decay);
+    oscillator.connect(filter).connect(gain).connect(this.output(pan));
+    oscillator.start(now);
+    oscillator.stop(now + voice.decay + 0.05);
+  }
+
+  private chime(voice: SpeciesVoice, pan: number) {
+    const context = this.audioContext;
+    const now = context.currentTime;
+    const output = this.output(pan);
+    CHIME_PARTIALS.forEach(partial => {
+      const oscillator = context.createOscillator();
+      oscillator.frequency.value = voice.pitch * partial.ratio;
+      const gain = context.createGain();
+      gain.gain.setValueAtTime(0.0001, now);
+      gain.gain.exponentialRampToValueAtTime(partial.gain * 0.2, now + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.0001, now + CHIME_DECAY / partial.ratio * 2);
+      oscillator.connect(gain).connect(output);
+      oscillator.start(now);
+      oscillator.stop(now + CHIME_DECAY + 0.05);
+    });
+  }
+
+  // Two detuned saws through a low-pass that opens as the mouth does
+  private createSwell() {
+    const context = this.audioContext;
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 200;
+    filter.Q.value = 4;
+    const gain = context.createGain();
+    gain.gain.value = 0;
+    filter.connect(gain).connect(this.master!);
+    [-SWELL_DETUNE, SWELL_DETUNE].forEach(detune => {
+      const oscillator = context.createOscillator();
+      oscillator.type = 'sawtooth';
+      oscillator.frequency.value = SWELL_PITCH;
+      oscillator.detune.value = detune;
+      oscillator.connect(filter);
+      oscillator.start();
+    });
+    this.swell = { gain, filter };
+    return this.swell;
+  }
+
+  // Louder for a bigger garden, up to a point
+  private burst(count: number) {
+    const context = this.audioContext;
+    const now = context.currentTime;
+    const loudness = Math.min(0.25 + count / 40, 1);
+
+    if (!this.noise) {
+      this.noise = context.createBuffer(1, Math.round(context.sampleRate * BURST_DURATION), context.sampleRate);
+      const data = this.noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    }
+    const noise = context.createBufferSource();
+    noise.buffer = this.noise;
+    const filter = context.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.Q.value = 0.8;
+    filter.frequency.setValueAtTime(3000, now);
+    filter.frequency.exponentialRampToValueAtTime(200, now + BURST_DURATION);
+    const noiseGain = context.createGain();
+    noiseGain.gain.setValueAtTime(0.5 * loudness, now);
+    noiseGain.gain.exponentialRampToValueAtTime(0.0001, now + BURST_DURATION);
+    noise.connect(filter).connect(noiseGain).connect(this.master!);
+    noise.start(now);
+
+    const thump = context.createOscillator();
+    thump.frequency.setValueAtTime(90, now);
+    thump.frequency.exponentialRampToValueAtTime(40, now + 0.3);
+    const thumpGain = context.createGain();
+    thumpGain.gain.setValueAtTime(0.6 * loudness, now);
+    thumpGain.gain.exponentialRampToValueAtTime(0.0001, now + 0.4);
+    thump.connect(thumpGain).connect(this.master!);
+    thump.start(now);
+    thump.stop(now + 0.45);
+  }
+}
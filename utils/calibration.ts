@@ -0,0 +1,85 @@
+import { GestureThresholds } from '../types';
+import { DEFAULT_GESTURE_THRESHOLDS } from './gestures';
+
+const PROFILES_KEY = 'garden-ai:gesture-profiles';
+const ACTIVE_PROFILE_KEY = 'garden-ai:active-profile';
+
+// What the calibration wizard measures, all from InteractionState's raw metrics
+export interface CalibrationSamples {
+  mouthRest: number; // Lip ratio with the mouth relaxed/closed
+  mouthOpen: number; // Lip ratio with the mouth comfortably wide open
+  fingersRelaxed: number; // Thumb–index distance with the hand relaxed
+  fingersPinched: number; // Thumb–index distance while pinching
+}
+
+export type GestureProfiles = Record<string, GestureThresholds>;
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+export const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)))];
+};
+
+/**
+ * Derives thresholds from the user's own range of motion:
+ * growth starts a little above their resting mouth and reaches 100% before their widest
+ * opening; a pinch triggers about a third of the way from their pinched to relaxed fingers.
+ * Timings (cooldown, clear hold) are carried over from `base`.
+ */
+export const computeThresholds = (samples: CalibrationSamples, base: GestureThresholds): GestureThresholds => {
+  const mouthRange = Math.max(samples.mouthOpen - samples.mouthRest, 0.01);
+  const mouthRestOffset = samples.mouthRest + mouthRange * 0.15;
+  const mouthFull = samples.mouthRest + mouthRange * 0.85;
+
+  const fingerRange = Math.max(samples.fingersRelaxed - samples.fingersPinched, 0.02);
+  const pinchCloseDistance = samples.fingersPinched + fingerRange * 0.35;
+  const pinchFarDistance = samples.fingersPinched + fingerRange * 0.8;
+
+  return {
+    ...base,
+    mouthRestOffset,
+    mouthGain: 1 / (mouthFull - mouthRestOffset),
+    pinchCloseDistance,
+    pinchFarDistance,
+  };
+};
+
+export const loadProfiles = (): GestureProfiles => {
+  try {
+    const profiles = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '{}') as GestureProfiles;
+    // Profiles saved before a threshold existed get its default
+    Object.keys(profiles).forEach(name => {
+      profiles[name] = { ...DEFAULT_GESTURE_THRESHOLDS, ...profiles[name] };
+    });
+    return profiles;
+  } catch {
+    return {};
+  }
+};
+
+export const saveProfile = (name: string, thresholds: GestureThresholds) => {
+  const profiles = loadProfiles();
+  profiles[name] = thresholds;
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  setActiveProfile(name);
+};
+
+export const deleteProfile = (name: string) => {
+  const profiles = loadProfiles();
+  delete profiles[name];
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  if (getActiveProfile() === name) setActiveProfile(null);
+};
+
+export const getActiveProfile = (): string | null => localStorage.getItem(ACTIVE_PROFILE_KEY);
+
+export const setActiveProfile = (name: string | null) => {
+  if (name) localStorage.setItem(ACTIVE_PROFILE_KEY, name);
+  else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+};
@@ -0,0 +1,54 @@
+import { CameraResolution, CameraSettings } from '../types';
+
+const CAMERA_SETTINGS_KEY = 'garden-ai:camera';
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { width: number; height: number }> = {
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+};
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = { deviceId: null, resolution: '720p', mirrored: true };
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+// The resolution is only a preference: phones in portrait hand back a tall frame, others the
+// nearest size they support. The view adapts to whatever the stream delivers.
+const videoConstraints = (settings: CameraSettings): MediaTrackConstraints => {
+  const { width, height } = CAMERA_RESOLUTIONS[settings.resolution];
+  return {
+    width: { ideal: width },
+    height: { ideal: height },
+    ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: 'user' }),
+  };
+};
+
+export const openCamera = (settings: CameraSettings): Promise<MediaStream> =>
+  navigator.mediaDevices.getUserMedia({ video: videoConstraints(settings) });
+
+export const stopStream = (stream: MediaStream | null) => {
+  stream?.getTracks().forEach(track => track.stop());
+};
+
+// Labels are only filled in once camera access has been granted
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput')
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `摄像头 ${i + 1} (Camera ${i + 1})` }));
+};
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    return { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(localStorage.getItem(CAMERA_SETTINGS_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  localStorage.setItem(CAMERA_SETTINGS_KEY, JSON.stringify(settings));
+};
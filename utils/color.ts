@@ -0,0 +1,18 @@
+// Simple utility to darken/lighten hex color
+export function adjustColorBrightness(hex: string, percent: number) {
+    const num = parseInt(hex.replace('#', ''), 16),
+    amt = Math.round(2.55 * percent),
+    R = (num >> 16) + amt,
+    G = (num >> 8 & 0x00FF) + amt,
+    B = (num & 0x0000FF) + amt;
+    return '#' + (0x1000000 + (R<255?R<1?0:R:255)*0x10000 + (G<255?G<1?0:G:255)*0x100 + (B<255?B<1?0:B:255)).toString(16).slice(1);
+}
+
+// Linear blend between two hex colours, t = 0 → a, t = 1 → b
+export function mixColors(a: string, b: string, t: number) {
+    if (t <= 0) return a;
+    const ca = parseInt(a.replace('#', ''), 16),
+    cb = parseInt(b.replace('#', ''), 16),
+    mix = (shift: number) => Math.round(((ca >> shift) & 0xFF) * (1 - t) + ((cb >> shift) & 0xFF) * t);
+    return '#' + (0x1000000 + mix(16) * 0x10000 + mix(8) * 0x100 + mix(0)).toString(16).slice(1);
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { ViewMapping } from './coordinates';
+
+// Applies a setTransform() matrix to a world point
+const apply = ([a, b, c, d, e, f]: number[], x: number, y: number) => ({ x: a * x + c * y + e, y: b * x + d * y + f });
+
+describe('ViewMapping', () => {
+  const world = { width: 1280, height: 720 };
+
+  it('covers a taller view by scaling to its height and cropping the sides', () => {
+    const mapping = new ViewMapping(world, { width: 800, height: 900 }, false);
+    expect(mapping.scale).toBe(1.25);
+    expect(mapping.offsetX).toBe(-400);
+    expect(mapping.offsetY).toBe(0);
+  });
+
+  it('covers a wider view by scaling to its width and cropping top and bottom', () => {
+    const mapping = new ViewMapping(world, { width: 1280, height: 360 }, false);
+    expect(mapping.scale).toBe(1);
+    expect(mapping.offsetX).toBe(0);
+    expect(mapping.offsetY).toBe(-180);
+  });
+
+  it('maps landmarks across the camera frame', () => {
+    const mapping = new ViewMapping(world, { width: 640, height: 360 }, true);
+    expect(mapping.fromNormalized(0.5, 0.25)).toEqual({ x: 640, y: 180 });
+  });
+
+  it('takes view positions back to where the transform draws them', () => {
+    for (const mirrored of [false, true]) {
+      const mapping = new ViewMapping(world, { width: 800, height: 900 }, mirrored, 2);
+      const transform = mapping.transform(1);
+      for (const point of [{ x: 0, y: 0 }, { x: 640, y: 360 }, { x: 1000, y: 100 }]) {
+        const onScreen = apply(transform, point.x, point.y);
+        const back = mapping.fromView(onScreen.x, onScreen.y);
+        expect(back.x).toBeCloseTo(point.x);
+        expect(back.y).toBeCloseTo(point.y);
+      }
+    }
+  });
+
+  it('mirrors around the middle of the view', () => {
+    const mapping = new ViewMapping(world, { width: 1280, height: 720 }, true);
+    expect(mapping.fromView(100, 50)).toEqual({ x: 1180, y: 50 });
+    expect(apply(mapping.transform(), 1180, 50)).toEqual({ x: 100, y: 50 });
+  });
+
+  it('sizes the canvas for the pixel ratio', () => {
+    const mapping = new ViewMapping(world, { width: 801, height: 450.4 }, false, 1.5);
+    expect(mapping.canvasSize).toEqual({ width: 1202, height: 676 });
+    expect(mapping.transform()[0]).toBeCloseTo(mapping.scale * 1.5);
+  });
+});
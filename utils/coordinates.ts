@@ -0,0 +1,58 @@
+import { Point } from '../types';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export type Transform = [number, number, number, number, number, number];
+
+/**
+ * How garden coordinates relate to the screen. The garden ("world") is measured in pixels of the
+ * camera frame, or of the window when there is no camera. On screen it covers the canvas element
+ * the way the <video> does with `object-fit: cover` (scaled to fill, overflow cropped evenly), and
+ * is optionally mirrored. Landmarks, pointer input and drawing all map through here, so what you
+ * touch is where the seed lands.
+ */
+export class ViewMapping {
+  readonly scale: number; // CSS px per world px
+  readonly offsetX: number; // CSS px from the element's edge to the world origin, before mirroring
+  readonly offsetY: number;
+
+  constructor(
+    readonly world: Size,
+    readonly view: Size, // The canvas element's CSS size
+    readonly mirrored: boolean,
+    readonly pixelRatio = 1 // Canvas pixels per CSS px
+  ) {
+    this.scale = Math.max(view.width / world.width, view.height / world.height);
+    this.offsetX = (view.width - world.width * this.scale) / 2;
+    this.offsetY = (view.height - world.height * this.scale) / 2;
+  }
+
+  // Canvas backing store size for crisp drawing at the device's pixel density
+  get canvasSize(): Size {
+    return {
+      width: Math.max(1, Math.round(this.view.width * this.pixelRatio)),
+      height: Math.max(1, Math.round(this.view.height * this.pixelRatio)),
+    };
+  }
+
+  // A landmark (0..1 across the camera frame) in world px
+  fromNormalized(x: number, y: number): Point {
+    return { x: x * this.world.width, y: y * this.world.height };
+  }
+
+  // A position relative to the element's top-left corner, in CSS px, in world px
+  fromView(viewX: number, viewY: number): Point {
+    const x = this.mirrored ? this.view.width - viewX : viewX;
+    return { x: (x - this.offsetX) / this.scale, y: (viewY - this.offsetY) / this.scale };
+  }
+
+  // 2D transform (for setTransform) from world px to canvas px at `pixelRatio` per CSS px
+  transform(pixelRatio = this.pixelRatio): Transform {
+    const scale = this.scale * pixelRatio;
+    const originX = this.mirrored ? this.view.width - this.offsetX : this.offsetX;
+    return [this.mirrored ? -scale : scale, 0, 0, scale, originX * pixelRatio, this.offsetY * pixelRatio];
+  }
+}
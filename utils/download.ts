@@ -0,0 +1,13 @@
+// Triggers a browser download for the given blob
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Filesystem-safe timestamp, e.g. 2024-05-01-13-45-10
+export const fileTimestamp = (date: Date = new Date()) => date.toISOString().slice(0, 19).replace(/[:T]/g, '-');
@@ -1,7 +1,95 @@
 
-import { FlowerSpecies, Plant, Seed, Particle } from '../types';
+import { Plant, PlantLeaf, Seed, Particle, Point, SpeciesId, Terrain } from '../types';
+import { getDroopSide, getPlantHead, HEAD_OPEN_PROGRESS, toPlantSpace } from './plantGeometry';
+import { growPolyline, LEAF_UNFURL_PROGRESS } from './plantStructure';
+import { getSpecies } from './species/registry';
+import { HeadShape } from './species/types';
+import { mixColors } from './color';
+import { getBloomOpenness, getDecayAmount, getWiltAmount, hasSeedHead } from './lifecycle';
+import { groundYAt, planterTopY, PLATFORM_THICKNESS } from './terrain';
+
+// The subset of the Canvas 2D API used below. Anything implementing it can render
+// the garden: the on-screen canvas, an offscreen export canvas or SvgContext.
+export type DrawingContext = Pick<CanvasRenderingContext2D,
+  'save' | 'restore' | 'translate' | 'scale' | 'rotate' | 'createRadialGradient' |
+  'beginPath' | 'moveTo' | 'lineTo' | 'quadraticCurveTo' | 'bezierCurveTo' | 'arc' | 'ellipse' |
+  'fill' | 'stroke' | 'fillStyle' | 'strokeStyle' | 'lineWidth' | 'lineCap' | 'lineJoin' | 'globalAlpha'
+>;
+
+/**
+ * Draws the costly parts of a plant, centred at the origin of the current transform: the open
+ * flower head and the dandelion clock. The live renderer swaps in cached sprites; exports use vectors.
+ */
+export interface HeadPainter {
+  flower: (ctx: DrawingContext, species: SpeciesId, color: string) => void;
+  seedHead: (ctx: DrawingContext, florets: number) => void;
+}
+
+// Ground (translucent, so the camera image still shows), then planters and platforms
+export const drawTerrain = (ctx: DrawingContext, terrain: Terrain, width: number, height: number) => {
+  const last = terrain.heights.length - 1;
+  const ground = terrain.heights.map((elevation, i) => ({ x: (i / last) * width, y: height - elevation }));
 
-export const drawSeed = (ctx: CanvasRenderingContext2D, seed: Seed) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(0, height);
+  ground.forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.lineTo(width, height);
+  ctx.fillStyle = 'rgba(68, 44, 24, 0.55)';
+  ctx.fill();
+
+  ctx.beginPath();
+  ground.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.strokeStyle = '#65a30d';
+  ctx.lineWidth = 3;
+  ctx.lineJoin = 'round';
+  ctx.stroke();
+
+  terrain.planters.forEach(planter => {
+    const top = planterTopY(terrain, planter, width, height);
+    const bottom = groundYAt(terrain, planter.x, width, height) + 6; // Sunk into the slope a little
+    const half = planter.width / 2;
+    // Tapered terracotta pot with a rim and a strip of soil
+    ctx.beginPath();
+    ctx.moveTo(planter.x - half, top);
+    ctx.lineTo(planter.x + half, top);
+    ctx.lineTo(planter.x + half * 0.8, bottom);
+    ctx.lineTo(planter.x - half * 0.8, bottom);
+    ctx.fillStyle = '#c2410c';
+    ctx.fill();
+    ctx.beginPath();
+    ctx.moveTo(planter.x - half - 4, top - 2);
+    ctx.lineTo(planter.x + half + 4, top - 2);
+    ctx.lineTo(planter.x + half + 4, top + 10);
+    ctx.lineTo(planter.x - half - 4, top + 10);
+    ctx.fillStyle = '#9a3412';
+    ctx.fill();
+    ctx.beginPath();
+    ctx.ellipse(planter.x, top, half - 4, 4, 0, 0, Math.PI * 2);
+    ctx.fillStyle = '#3f2a1a';
+    ctx.fill();
+  });
+
+  terrain.platforms.forEach(platform => {
+    const half = platform.width / 2;
+    ctx.beginPath();
+    ctx.moveTo(platform.x - half, platform.y);
+    ctx.lineTo(platform.x + half, platform.y);
+    ctx.lineTo(platform.x + half - 6, platform.y + PLATFORM_THICKNESS);
+    ctx.lineTo(platform.x - half + 6, platform.y + PLATFORM_THICKNESS);
+    ctx.fillStyle = '#78716c';
+    ctx.fill();
+    ctx.beginPath();
+    ctx.moveTo(platform.x - half, platform.y);
+    ctx.lineTo(platform.x + half, platform.y);
+    ctx.strokeStyle = '#65a30d';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+export const drawSeed = (ctx: DrawingContext, seed: Seed) => {
   ctx.save();
   ctx.translate(seed.x, seed.y);
   
@@ -19,181 +107,397 @@ export const drawSeed = (ctx: CanvasRenderingContext2D, seed: Seed) => {
   ctx.restore();
 };
 
-export const drawParticle = (ctx: CanvasRenderingContext2D, particle: Particle) => {
+export const drawParticle = (ctx: DrawingContext, particle: Particle) => {
   ctx.save();
   ctx.globalAlpha = Math.max(0, particle.life);
-  ctx.fillStyle = particle.color;
-  ctx.beginPath();
-  ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
-  ctx.fill();
+  ctx.translate(particle.x, particle.y);
+  if (particle.kind === 'petal') ctx.rotate(getParticleAngle(particle));
+  drawParticleShape(ctx, particle.kind, particle.size, particle.color);
   ctx.restore();
 };
 
-export const drawPlant = (ctx: CanvasRenderingContext2D, plant: Plant, globalHeightFactor: number) => {
+// Petals tumble as they drift; other particles aren't rotated
+export const getParticleAngle = (particle: Particle) => particle.vx + particle.life * 6;
+
+// One particle centred at the origin, `size` px across its main axis
+export const drawParticleShape = (ctx: DrawingContext, kind: Particle['kind'], size: number, color: string) => {
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  switch (kind) {
+    case 'floret': {
+      // Dandelion seed: a tiny achene under a tuft of pappus hairs
+      ctx.arc(0, size, 1, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 0.75;
+      ctx.beginPath();
+      for (let i = -2; i <= 2; i++) {
+        ctx.moveTo(0, size);
+        ctx.lineTo(i * size * 0.5, -size * (1 - Math.abs(i) * 0.15));
+      }
+      ctx.stroke();
+      break;
+    }
+    case 'petal':
+      ctx.ellipse(0, 0, size, size / 2, 0, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    default:
+      ctx.arc(0, 0, size, 0, Math.PI * 2);
+      ctx.fill();
+  }
+};
+
+export const drawPlant = (ctx: DrawingContext, plant: Plant, globalHeightFactor: number, heads: HeadPainter = VECTOR_HEADS) => {
   // Apply global height factor. 
   // effectiveProgress combines individual growth (mouth) and global setting (slider)
   const effectiveProgress = plant.growthProgress * globalHeightFactor;
 
   if (effectiveProgress < 0.01) return;
 
-  const currentHeight = plant.maxHeight * effectiveProgress;
-  const startX = plant.x;
-  const startY = plant.y;
-  const endY = startY - currentHeight;
+  const head = getPlantHead(plant, globalHeightFactor);
+
+  // Lifecycle: wilting bends the stem and browns it, decaying fades the whole plant
+  const wilt = getWiltAmount(plant);
+  const decay = getDecayAmount(plant);
+  const droopSide = getDroopSide(plant);
+  const toCanvas = (p: Point) => toPlantSpace(plant, p, wilt);
+  const { palette } = getSpecies(plant.species);
+  // Competition: crowded plants come out washed-out. Colour blends are stepped so head sprites can be reused.
+  const pallor = stepped(plant.crowding ?? 0) * MAX_PALLOR;
+  const color = mixColors(plant.color, PALE_COLOR, pallor);
 
   ctx.save();
-  ctx.strokeStyle = '#4ade80'; // Green stem
-  ctx.lineWidth = 4 * effectiveProgress;
+  ctx.globalAlpha = 1 - decay;
+  ctx.strokeStyle = mixColors(mixColors(palette.stem, PALE_COLOR, pallor), WITHERED_COLOR, wilt);
   ctx.lineCap = 'round';
   ctx.lineJoin = 'round';
 
-  // Draw Stem (Procedural curve)
-  ctx.beginPath();
-  ctx.moveTo(startX, startY);
-  
-  ctx.quadraticCurveTo(
-    startX + (Math.sin(plant.seed) * 20), 
-    startY - (currentHeight / 2), 
-    startX + (Math.cos(plant.seed) * 10), 
-    endY
-  );
-  ctx.stroke();
+  // Draw Stem: the structure is revealed segment by segment as the plant grows
+  ctx.lineWidth = 4 * effectiveProgress;
+  strokeSmooth(ctx, growPolyline(plant.stemControlPoints, effectiveProgress).map(toCanvas));
 
-  // Draw Leaves
-  if (effectiveProgress > 0.3) {
-    const leafCount = 2;
-    for (let i = 0; i < leafCount; i++) {
-      const leafY = startY - (currentHeight * ((i + 1) / (leafCount + 1)));
-      const side = i % 2 === 0 ? 1 : -1;
-      const leafSize = 20 * effectiveProgress;
-      
-      ctx.beginPath();
-      ctx.fillStyle = '#22c55e';
-      ctx.ellipse(
-        startX + (side * 5), 
-        leafY, 
-        leafSize, 
-        leafSize / 3, 
-        (side * Math.PI) / 4, 
-        0, 
-        Math.PI * 2
-      );
-      ctx.fill();
-    }
-  }
+  // Side branches sprout once the main stem has reached them
+  ctx.lineWidth = Math.max(2.5 * effectiveProgress, 1);
+  plant.branches.forEach(branch => {
+    if (effectiveProgress <= branch.start) return;
+    const span = branch.end - branch.start;
+    const grown = span > 0 ? (effectiveProgress - branch.start) / span : 1;
+    strokeSmooth(ctx, growPolyline(branch.points, grown).map(toCanvas));
+  });
+
+  // Draw Leaves, each unfurling shortly after its node appears
+  ctx.fillStyle = mixColors(mixColors(palette.leaf, PALE_COLOR, pallor), WITHERED_COLOR, wilt);
+  plant.leaves.forEach((leaf, i) => {
+    const unfurl = Math.min((effectiveProgress - leaf.appearAt) / LEAF_UNFURL_PROGRESS, 1);
+    if (unfurl <= 0) return;
+    const base = toCanvas(leaf);
+    const size = unfurl * (1 - wilt * 0.3);
+
+    ctx.save();
+    ctx.translate(base.x, base.y);
+    // Leaves sag as they wilt, lean with the wind and flutter as the stem swings
+    const flutter = (plant.sway / plant.maxHeight) * 0.8 + plant.swayVelocity * 0.06 * (i % 2 === 0 ? 1 : -1);
+    ctx.rotate(leaf.angle + Math.sign(leaf.angle || droopSide) * wilt * Math.PI / 4 + flutter);
+    ctx.scale(size, size);
+    drawLeaf(ctx, leaf);
+    ctx.restore();
+  });
 
   // Draw Flower
-  if (effectiveProgress > 0.6) {
-    const flowerScale = (effectiveProgress - 0.6) / 0.4; // 0 to 1 scaling
-    const headX = startX + (Math.cos(plant.seed) * 10);
-    const headY = endY;
+  if (effectiveProgress > HEAD_OPEN_PROGRESS) {
+    const flowerScale = (effectiveProgress - HEAD_OPEN_PROGRESS) / (1 - HEAD_OPEN_PROGRESS); // 0 to 1 scaling
 
-    ctx.translate(headX, headY);
+    ctx.translate(head.x, head.y);
     ctx.scale(flowerScale, flowerScale);
 
-    drawFlowerHead(ctx, plant.species, plant.color);
-    
-    ctx.restore();
-  } else {
-    ctx.restore();
+    switch (plant.stage) {
+      case 'sprout':
+      case 'bud':
+        drawBud(ctx, color, 1);
+        break;
+
+      case 'bloom': {
+        // Petals unfold out of the bud
+        const openness = getBloomOpenness(plant);
+        if (openness < 1) drawBud(ctx, color, 1 - openness);
+        ctx.globalAlpha = (1 - decay) * openness;
+        ctx.scale(0.3 + 0.7 * openness, 0.3 + 0.7 * openness);
+        heads.flower(ctx, plant.species, color);
+        break;
+      }
+
+      case 'seedHead':
+        heads.seedHead(ctx, plant.florets);
+        break;
+
+      case 'wilting':
+      case 'decaying':
+        // The head nods over and shrivels; petals are shed as particles by the simulation
+        ctx.rotate(droopSide * wilt * Math.PI / 2);
+        if (hasSeedHead(plant.species)) {
+          drawSpentHead(ctx);
+        } else {
+          ctx.scale(1 - wilt * 0.4, 1 - wilt * 0.4);
+          heads.flower(ctx, plant.species, mixColors(color, WITHERED_COLOR, stepped(wilt) * 0.7));
+        }
+        break;
+    }
   }
+
+  ctx.restore();
 };
 
-const drawFlowerHead = (ctx: CanvasRenderingContext2D, species: FlowerSpecies, color: string) => {
-  switch (species) {
-    case FlowerSpecies.Sunflower:
-      // Petals
-      ctx.fillStyle = '#f59e0b';
-      for (let i = 0; i < 14; i++) {
-        ctx.rotate((Math.PI * 2) / 14);
-        ctx.beginPath();
-        ctx.ellipse(0, 20, 6, 18, 0, 0, Math.PI * 2);
-        ctx.fill();
-      }
-      // Center
-      ctx.beginPath();
-      ctx.arc(0, 0, 14, 0, Math.PI * 2);
-      ctx.fillStyle = '#78350f'; // Brown
-      ctx.fill();
+const WITHERED_COLOR = '#a16207'; // Dry brown
+const PALE_COLOR = '#e7e5c4'; // Washed-out straw, for plants starved of light
+const MAX_PALLOR = 0.55; // How far a fully crowded plant fades towards it
+const stepped = (amount: number) => Math.round(amount * 10) / 10;
+
+// Polyline drawn as a smooth curve through the midpoints of its segments
+const strokeSmooth = (ctx: DrawingContext, points: Point[]) => {
+  if (points.length < 2) return;
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length - 1; i++) {
+    const midX = (points[i].x + points[i + 1].x) / 2;
+    const midY = (points[i].y + points[i + 1].y) / 2;
+    ctx.quadraticCurveTo(points[i].x, points[i].y, midX, midY);
+  }
+  const last = points[points.length - 1];
+  ctx.lineTo(last.x, last.y);
+  ctx.stroke();
+};
+
+// Leaf outline in its own frame: attached at the origin, pointing up (-y)
+const drawLeaf = (ctx: DrawingContext, leaf: PlantLeaf) => {
+  const l = leaf.length;
+  const w = leaf.width;
+  ctx.beginPath();
+  switch (leaf.shape) {
+    case 'oval':
+      ctx.ellipse(0, -l / 2, w / 2, l / 2, 0, 0, Math.PI * 2);
       break;
 
-    case FlowerSpecies.Tulip:
-      ctx.fillStyle = color;
-      ctx.beginPath();
+    case 'lance':
       ctx.moveTo(0, 0);
-      ctx.bezierCurveTo(-15, -20, -15, -40, 0, -50);
-      ctx.bezierCurveTo(15, -40, 15, -20, 0, 0);
-      ctx.fill();
+      ctx.bezierCurveTo(w * 0.6, -l * 0.3, w * 0.3, -l * 0.8, 0, -l);
+      ctx.bezierCurveTo(-w * 0.3, -l * 0.8, -w * 0.6, -l * 0.3, 0, 0);
       break;
 
-    case FlowerSpecies.Rose:
-      ctx.fillStyle = color;
-      // Spiral body
-      ctx.beginPath();
-      for(let i=0; i<3; i++) {
-          ctx.arc(Math.sin(i*2)*3, Math.cos(i*2)*3, 10 + i*4, 0, Math.PI*2);
-      }
-      ctx.fill();
-      
-      // Detail lines
-      ctx.strokeStyle = adjustColorBrightness(color, -30);
-      ctx.lineWidth = 1;
-      ctx.beginPath();
-      ctx.arc(0, 0, 8, 0, Math.PI*2);
-      ctx.stroke();
+    case 'heart':
+      ctx.moveTo(0, 0);
+      ctx.bezierCurveTo(w * 0.9, l * 0.05, w * 0.6, -l * 0.7, 0, -l);
+      ctx.bezierCurveTo(-w * 0.6, -l * 0.7, -w * 0.9, l * 0.05, 0, 0);
       break;
-      
-    case FlowerSpecies.Dandelion: // 蒲公英
-      // Fluffy white head
-      ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
-      ctx.lineWidth = 1;
-      
-      // Draw many fine lines from center
-      for (let i = 0; i < 48; i++) {
-        ctx.rotate((Math.PI * 2) / 48);
-        ctx.beginPath();
-        ctx.moveTo(0, 0);
-        ctx.lineTo(0, 24);
-        ctx.stroke();
-        
-        // Little dots at the end
-        ctx.beginPath();
-        ctx.arc(0, 24, 1.5, 0, Math.PI * 2);
-        ctx.fillStyle = 'white';
-        ctx.fill();
-      }
-      // Small center
-      ctx.beginPath();
-      ctx.arc(0, 0, 3, 0, Math.PI * 2);
-      ctx.fillStyle = '#d1d5db';
-      ctx.fill();
+
+    case 'blade':
+      // Long strap that curls over near the tip
+      ctx.moveTo(-w * 0.4, 0);
+      ctx.quadraticCurveTo(-w * 0.5, -l * 0.6, w * 0.2, -l);
+      ctx.quadraticCurveTo(w * 0.5, -l * 0.6, w * 0.4, 0);
       break;
 
-    case FlowerSpecies.WildChrysanthemum: // 野菊
-      // Small yellow petals, simpler than Sunflower, smaller center
-      ctx.fillStyle = color === '#eab308' ? '#fde047' : color; // Use yellow if default theme, else theme
-      const petals = 12;
-      for (let i = 0; i < petals; i++) {
-        ctx.rotate((Math.PI * 2) / petals);
-        ctx.beginPath();
-        ctx.ellipse(0, 12, 4, 10, 0, 0, Math.PI * 2);
-        ctx.fill();
+    case 'toothed': {
+      // Dandelion leaf: lobes pointing back towards the base on both sides
+      const lobes = 5;
+      ctx.moveTo(0, 0);
+      for (let i = 1; i <= lobes; i++) {
+        ctx.lineTo(w * 0.5, -l * (i - 0.6) / lobes);
+        ctx.lineTo(w * 0.2, -l * i / lobes);
+      }
+      ctx.lineTo(0, -l);
+      for (let i = lobes; i >= 1; i--) {
+        ctx.lineTo(-w * 0.2, -l * i / lobes);
+        ctx.lineTo(-w * 0.5, -l * (i - 0.6) / lobes);
       }
-      // Center
-      ctx.beginPath();
-      ctx.arc(0, 0, 5, 0, Math.PI * 2);
-      ctx.fillStyle = '#d97706'; // Darker center
-      ctx.fill();
       break;
+    }
   }
+  ctx.fill();
 };
 
-// Simple utility to darken/lighten hex color
-function adjustColorBrightness(hex: string, percent: number) {
-    const num = parseInt(hex.replace('#', ''), 16),
-    amt = Math.round(2.55 * percent),
-    R = (num >> 16) + amt,
-    G = (num >> 8 & 0x00FF) + amt,
-    B = (num & 0x0000FF) + amt;
-    return '#' + (0x1000000 + (R<255?R<1?0:R:255)*0x10000 + (G<255?G<1?0:G:255)*0x100 + (B<255?B<1?0:B:255)).toString(16).slice(1);
-}
+// Closed teardrop bud in the flower's colour, wrapped in green sepals
+const drawBud = (ctx: DrawingContext, color: string, alpha: number) => {
+  ctx.save();
+  ctx.globalAlpha *= alpha;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.bezierCurveTo(-9, -8, -7, -22, 0, -28);
+  ctx.bezierCurveTo(7, -22, 9, -8, 0, 0);
+  ctx.fill();
+
+  ctx.fillStyle = '#16a34a';
+  ctx.beginPath();
+  ctx.moveTo(0, 2);
+  ctx.bezierCurveTo(-10, -2, -8, -12, -3, -16);
+  ctx.lineTo(0, -6);
+  ctx.lineTo(3, -16);
+  ctx.bezierCurveTo(8, -12, 10, -2, 0, 2);
+  ctx.fill();
+  ctx.restore();
+};
+
+// Dandelion clock: fine white pappus radiating from the centre.
+// `florets` (0 to 1) thins it out evenly as the wind blows seeds away.
+const drawSeedHead = (ctx: DrawingContext, florets: number) => {
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.lineWidth = 1;
+  
+  // Draw many fine lines from center
+  for (let i = 0; i < 48; i++) {
+    ctx.rotate((Math.PI * 2) / 48);
+    if (Math.floor((i + 1) * florets) === Math.floor(i * florets)) continue;
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(0, 24);
+    ctx.stroke();
+    
+    // Little dots at the end
+    ctx.beginPath();
+    ctx.arc(0, 24, 1.5, 0, Math.PI * 2);
+    ctx.fillStyle = 'white';
+    ctx.fill();
+  }
+  // Small center
+  ctx.beginPath();
+  ctx.arc(0, 0, 3, 0, Math.PI * 2);
+  ctx.fillStyle = '#d1d5db';
+  ctx.fill();
+};
+
+// Bare receptacle left once the seeds have flown
+const drawSpentHead = (ctx: DrawingContext) => {
+  ctx.beginPath();
+  ctx.arc(0, 0, 5, 0, Math.PI * 2);
+  ctx.fillStyle = '#a8a29e';
+  ctx.fill();
+};
+
+// Soft ring around the focus of targeted growth; brightens with `intensity` (mouth openness)
+export const drawFocusAura = (ctx: DrawingContext, focus: Point, radius: number, intensity: number) => {
+  ctx.save();
+  ctx.translate(focus.x, focus.y);
+
+  const gradient = ctx.createRadialGradient(0, 0, radius * 0.6, 0, 0, radius);
+  gradient.addColorStop(0, 'rgba(250, 204, 21, 0)');
+  gradient.addColorStop(0.8, `rgba(250, 204, 21, ${0.08 + intensity * 0.25})`);
+  gradient.addColorStop(1, 'rgba(250, 204, 21, 0)');
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(0, 0, radius, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.strokeStyle = `rgba(250, 204, 21, ${0.3 + intensity * 0.5})`;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(0, 0, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  ctx.restore();
+};
+
+// Outline of the area an armed species conversion will reach, in the target species' colour
+export const drawConversionBrush = (ctx: DrawingContext, center: Point, radius: number, color: string) => {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2;
+  ctx.globalAlpha = 0.12;
+  ctx.beginPath();
+  ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.globalAlpha = 0.7;
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Eraser cursor: the swept circle with a cross at its centre
+export const drawEraserCursor = (ctx: DrawingContext, center: Point, radius: number) => {
+  ctx.save();
+  ctx.strokeStyle = '#f87171';
+  ctx.fillStyle = 'rgba(248, 113, 113, 0.1)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(center.x - 6, center.y - 6);
+  ctx.lineTo(center.x + 6, center.y + 6);
+  ctx.moveTo(center.x + 6, center.y - 6);
+  ctx.lineTo(center.x - 6, center.y + 6);
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Halo around the selected plant's head plus a tick at its base
+export const drawSelectionHighlight = (ctx: DrawingContext, plant: Plant, globalHeightFactor: number) => {
+  const head = getPlantHead(plant, globalHeightFactor);
+  ctx.save();
+  ctx.strokeStyle = '#ffffff';
+  ctx.globalAlpha = 0.8;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(head.x, head.y, 28, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(plant.x - 10, plant.y);
+  ctx.lineTo(plant.x + 10, plant.y);
+  ctx.stroke();
+  ctx.restore();
+};
+
+const drawFlowerHead = (ctx: DrawingContext, species: SpeciesId, color: string) => {
+  const { head } = getSpecies(species);
+  if (typeof head === 'function') head(ctx, color);
+  else drawHeadShape(ctx, head, color);
+};
+
+export const VECTOR_HEADS: HeadPainter = { flower: drawFlowerHead, seedHead: drawSeedHead };
+
+// Renders a declarative head: rings of petals pointing outwards, then the centre disc
+const drawHeadShape = (ctx: DrawingContext, shape: HeadShape, color: string) => {
+  shape.petals.forEach(layer => {
+    const step = (Math.PI * 2) / layer.count;
+    const inner = layer.inner ?? 0;
+    const mid = (inner + layer.length) / 2;
+    const half = (layer.length - inner) / 2;
+    const w = layer.width / 2;
+
+    ctx.save();
+    ctx.rotate(step * (layer.offset ?? 0));
+    ctx.fillStyle = layer.color ?? color;
+    for (let i = 0; i < layer.count; i++) {
+      ctx.rotate(step);
+      ctx.beginPath();
+      switch (layer.shape) {
+        case 'ellipse':
+          ctx.ellipse(0, mid, w, half, 0, 0, Math.PI * 2);
+          break;
+        case 'round':
+          ctx.arc(0, mid, Math.min(w, half), 0, Math.PI * 2);
+          break;
+        case 'teardrop':
+          ctx.moveTo(0, inner);
+          ctx.bezierCurveTo(w * 1.4, inner + half * 0.6, w, layer.length, 0, layer.length);
+          ctx.bezierCurveTo(-w, layer.length, -w * 1.4, inner + half * 0.6, 0, inner);
+          break;
+        case 'spike':
+          ctx.moveTo(-w, inner);
+          ctx.lineTo(0, layer.length);
+          ctx.lineTo(w, inner);
+          break;
+      }
+      ctx.fill();
+    }
+    ctx.restore();
+  });
+
+  if (shape.center) {
+    ctx.beginPath();
+    ctx.arc(0, 0, shape.center.radius, 0, Math.PI * 2);
+    ctx.fillStyle = shape.center.color;
+    ctx.fill();
+  }
+};
@@ -0,0 +1,62 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { InteractionState } from '../types';
+import { processInteraction } from './gestures';
+import { ViewMapping } from './coordinates';
+import { createInteractionState } from './input/types';
+import { parseLandmarkRecording } from './landmarkRecording';
+
+// Hand-built frames in the recorder's format: nothing, a closed then half-open mouth,
+// a right-hand pinch and an open palm
+const recording = parseLandmarkRecording(
+  readFileSync(new URL('./fixtures/gestures.landmarks.json', import.meta.url), 'utf8')
+);
+const view = new ViewMapping(recording, recording, false);
+
+const interactionAt = (t: number): InteractionState => {
+  const frame = recording.frames.find(f => f.t === t);
+  if (!frame) throw new Error(`No frame at ${t}`);
+  const state = createInteractionState();
+  processInteraction(state, frame.face, frame.hands, view);
+  return state;
+};
+
+describe('processInteraction', () => {
+  it('reports nothing for an empty frame', () => {
+    const state = interactionAt(0);
+    expect(state.mouthOpenness).toBe(0);
+    expect(state.facePosition).toBeNull();
+    expect(state.hands.Left.isPresent).toBe(false);
+    expect(state.hands.Right.isPresent).toBe(false);
+    expect(state.isPalmOpen).toBe(false);
+  });
+
+  it('ignores a resting mouth and scales an open one', () => {
+    expect(interactionAt(33).mouthOpenness).toBe(0);
+    const open = interactionAt(67);
+    expect(open.mouthOpenness).toBeCloseTo(0.55);
+    expect(open.mouthRatio).toBeCloseTo(0.075);
+    expect(open.facePosition?.x).toBeCloseTo(640);
+    expect(open.facePosition?.y).toBeCloseTo(252);
+  });
+
+  it('pinches with the hand MediaPipe labels as the mirrored side', () => {
+    const state = interactionAt(100);
+    expect(state.hands.Left.isPresent).toBe(false);
+    expect(state.hands.Right.isPinching).toBe(true);
+    expect(state.hands.Right.pinchProximity).toBe(1);
+    expect(state.hands.Right.pinchLocation?.x).toBeCloseTo(512);
+    expect(state.hands.Right.pinchLocation?.y).toBeCloseTo(453.6);
+    expect(state.pinchDistance).toBeCloseTo(Math.hypot(0.01, 0.01));
+    expect(state.dragPosition).toEqual(state.hands.Right.pinchLocation);
+    expect(state.isPalmOpen).toBe(false);
+  });
+
+  it('treats an open palm as clearing, not pinching', () => {
+    const state = interactionAt(133);
+    expect(state.isPalmOpen).toBe(true);
+    expect(state.hands.Right.isPresent).toBe(true);
+    expect(state.hands.Right.isPinching).toBe(false);
+    expect(state.eraserPosition).toBeNull();
+  });
+});
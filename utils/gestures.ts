@@ -0,0 +1,194 @@
+import { InteractionState, FaceDetection, HandDetection, GestureThresholds, Handedness, Landmark } from '../types';
+import { ViewMapping } from './coordinates';
+
+export const DEFAULT_GESTURE_THRESHOLDS: GestureThresholds = {
+  pinchCloseDistance: 0.05,
+  pinchFarDistance: 0.15,
+  mouthRestOffset: 0.02,
+  mouthGain: 10,
+  pinchCooldown: 500,
+  clearHoldTime: 5000,
+  blowThreshold: 0.35,
+};
+
+export const HANDEDNESS: Handedness[] = ['Left', 'Right'];
+
+// Pairs each detected hand with a Left/Right slot. MediaPipe labels handedness as if the
+// image were mirrored; our frames aren't (only the view may be), so its labels are swapped.
+// Two hands with the same label (e.g. two people's right hands) get one slot each.
+const assignHandSlots = (handResult: HandDetection): { slot: Handedness; landmarks: Landmark[] }[] => {
+  const taken = new Set<Handedness>();
+  const assigned: { slot: Handedness; landmarks: Landmark[] }[] = [];
+
+  handResult.landmarks.slice(0, HANDEDNESS.length).forEach((landmarks, i) => {
+    const label = handResult.handedness?.[i]?.[0]?.categoryName;
+    let slot: Handedness;
+    if (label === 'Left' || label === 'Right') {
+      slot = label === 'Left' ? 'Right' : 'Left';
+    } else {
+      // No label: the user's right hand shows up on the left half of the raw frame
+      slot = landmarks[0].x < 0.5 ? 'Right' : 'Left';
+    }
+    if (taken.has(slot)) slot = slot === 'Left' ? 'Right' : 'Left';
+    taken.add(slot);
+    assigned.push({ slot, landmarks });
+  });
+
+  return assigned;
+};
+
+// Index, middle, ring and pinky tips all closer to the wrist than their PIP joints
+const areFingersCurled = (landmarks: Landmark[]) => {
+  const fromWrist = (idx: number) => Math.hypot(landmarks[idx].x - landmarks[0].x, landmarks[idx].y - landmarks[0].y);
+  return fromWrist(8) < fromWrist(6) &&
+    fromWrist(12) < fromWrist(10) &&
+    fromWrist(16) < fromWrist(14) &&
+    fromWrist(20) < fromWrist(18);
+};
+
+// Translates raw landmarks into the given InteractionState snapshot; sowing, growing and
+// clearing are decided by the simulation on its own fixed clock.
+// Pure apart from mutating `state`, so recorded landmark streams can drive it without a camera.
+export const processInteraction = (
+  state: InteractionState,
+  faceResult: FaceDetection,
+  handResult: HandDetection,
+  view: ViewMapping,
+  thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS
+) => {
+  const { pinchCloseDistance, pinchFarDistance, mouthRestOffset, mouthGain, blowThreshold } = thresholds;
+
+  // --- FACE: Mouth Openness ---
+  if (faceResult.faceLandmarks && faceResult.faceLandmarks.length > 0) {
+    const landmarks = faceResult.faceLandmarks[0];
+    const upperLip = landmarks[13];
+    const lowerLip = landmarks[14];
+    const faceTop = landmarks[10];
+    const faceBottom = landmarks[152];
+    const faceHeight = Math.abs(faceTop.y - faceBottom.y);
+
+    const mouthDist = Math.abs(upperLip.y - lowerLip.y);
+    const mouthRatio = mouthDist / faceHeight;
+    const normalizedOpenness = Math.min(Math.max(mouthRatio - mouthRestOffset, 0) * mouthGain, 1);
+    
+    state.mouthOpenness = normalizedOpenness;
+    state.mouthRatio = mouthRatio;
+
+    const noseTip = landmarks[1];
+    state.facePosition = view.fromNormalized(noseTip.x, noseTip.y);
+
+    // --- FACE: Blowing (pursed / funnelled lips) ---
+    const blendshapes = faceResult.faceBlendshapes?.[0]?.categories ?? [];
+    const score = (name: string) => blendshapes.find(c => c.categoryName === name)?.score ?? 0;
+    const pursed = Math.max(score('mouthFunnel'), score('mouthPucker'));
+    state.blowStrength = Math.min(Math.max(pursed - blowThreshold, 0) / Math.max(1 - blowThreshold, 1e-6), 1);
+  } else {
+    state.mouthOpenness = 0;
+    state.blowStrength = 0;
+    state.mouthRatio = null;
+    state.facePosition = null;
+  }
+
+  // --- HANDS Logic ---
+  HANDEDNESS.forEach(slot => {
+    const hand = state.hands[slot];
+    hand.isPresent = false;
+    hand.isPinching = false;
+    hand.pinchProximity = 0;
+  });
+  let anyPalmOpenDetected = false;
+  let anyThumbsDown = false;
+  state.eraserPosition = null;
+  let minPinchDistance: number | null = null;
+  state.pointingPosition = null;
+
+  if (handResult.landmarks) {
+    // Pass 1: Check for Open Hand (5 Fingers Extended) across all detected hands
+    for (const landmarks of handResult.landmarks) {
+       // Logic: A finger is open if tip is farther from wrist than the joint before it
+       // Landmarks: 0=Wrist, 4=ThumbTip, 8=IndexTip...
+       // Comparison: Tip vs MCP(joint near palm) usually reliable
+       const isTipFartherThanJoint = (tipIdx: number, jointIdx: number) => {
+          const dTip = Math.hypot(landmarks[tipIdx].x - landmarks[0].x, landmarks[tipIdx].y - landmarks[0].y);
+          const dJoint = Math.hypot(landmarks[jointIdx].x - landmarks[0].x, landmarks[jointIdx].y - landmarks[0].y);
+          return dTip > dJoint;
+       };
+
+       // Thumb(4 vs 2), Index(8 vs 5), Middle(12 vs 9), Ring(16 vs 13), Pinky(20 vs 17)
+       // Using MCP (5,9,13,17) for fingers, MCP(2) for thumb
+       if (
+           isTipFartherThanJoint(4, 2) && 
+           isTipFartherThanJoint(8, 5) && 
+           isTipFartherThanJoint(12, 9) && 
+           isTipFartherThanJoint(16, 13) && 
+           isTipFartherThanJoint(20, 17)
+       ) {
+         anyPalmOpenDetected = true;
+       }
+    }
+
+    // Pointing: index extended, middle/ring/pinky curled (tip closer to the wrist than its PIP joint)
+    for (const landmarks of handResult.landmarks) {
+      const fromWrist = (idx: number) => Math.hypot(landmarks[idx].x - landmarks[0].x, landmarks[idx].y - landmarks[0].y);
+      const isPointing = fromWrist(8) > fromWrist(6) &&
+        fromWrist(12) < fromWrist(10) &&
+        fromWrist(16) < fromWrist(14) &&
+        fromWrist(20) < fromWrist(18);
+      if (isPointing) {
+        state.pointingPosition = view.fromNormalized(landmarks[8].x, landmarks[8].y);
+        break;
+      }
+    }
+
+    // Four fingers curled: a thumbs-down (thumb extended, pointing at the floor) undoes,
+    // any other closed fist is the eraser. The open palm is already taken by clearing.
+    for (const landmarks of handResult.landmarks) {
+      if (!areFingersCurled(landmarks)) continue;
+      const fromWrist = (idx: number) => Math.hypot(landmarks[idx].x - landmarks[0].x, landmarks[idx].y - landmarks[0].y);
+      const thumbLength = Math.hypot(landmarks[4].x - landmarks[2].x, landmarks[4].y - landmarks[2].y);
+      // Within roughly 35° of straight down (image y grows downwards)
+      const thumbPointsDown = landmarks[4].y - landmarks[2].y > thumbLength * 0.8 && fromWrist(4) > fromWrist(3);
+      if (thumbPointsDown) {
+        anyThumbsDown = true;
+      } else if (!state.eraserPosition) {
+        // Middle-finger knuckle: the middle of the fist
+        state.eraserPosition = view.fromNormalized(landmarks[9].x, landmarks[9].y);
+      }
+    }
+
+    // Raw thumb–index distance regardless of pose, for calibration
+    for (const landmarks of handResult.landmarks) {
+      const dist = Math.hypot(landmarks[4].x - landmarks[8].x, landmarks[4].y - landmarks[8].y);
+      if (minPinchDistance === null || dist < minPinchDistance) minPinchDistance = dist;
+    }
+
+    // Pass 2: Check for Pinch per hand (Only if NO Open Hand is detected)
+    for (const { slot, landmarks } of assignHandSlots(handResult)) {
+      const hand = state.hands[slot];
+      hand.isPresent = true;
+      // A fist can bring thumb and index tips close together; it isn't a pinch
+      if (anyPalmOpenDetected || areFingersCurled(landmarks)) continue;
+
+      const thumbTip = landmarks[4];
+      const indexTip = landmarks[8];
+      const pinchDist = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y);
+
+      hand.pinchProximity = Math.max(0, Math.min(1,
+        (pinchFarDistance - pinchDist) / Math.max(pinchFarDistance - pinchCloseDistance, 1e-6)
+      ));
+
+      if (pinchDist < pinchCloseDistance) {
+        hand.isPinching = true;
+        hand.pinchLocation = view.fromNormalized(indexTip.x, indexTip.y);
+      }
+    }
+  }
+  
+  // A held pinch also drags; the first pinching hand wins
+  const dragging = [state.hands.Left, state.hands.Right].find(hand => hand.isPinching);
+  state.dragPosition = dragging ? dragging.pinchLocation : null;
+
+  state.pinchDistance = minPinchDistance;
+  state.isPalmOpen = anyPalmOpenDetected;
+  state.isThumbsDown = anyThumbsDown;
+};
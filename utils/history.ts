@@ -0,0 +1,41 @@
+// Bounded undo/redo stacks. Entries are plain data; the owner decides how to apply and revert them.
+export class History<T> {
+  private undoStack: T[] = [];
+  private redoStack: T[] = [];
+
+  constructor(private limit = 100) {}
+
+  // Records a new entry; anything that was undone can no longer be redone
+  push(entry: T) {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  // Returns the entry to revert, or undefined when there is nothing to undo
+  undo(): T | undefined {
+    const entry = this.undoStack.pop();
+    if (entry !== undefined) this.redoStack.push(entry);
+    return entry;
+  }
+
+  // Returns the entry to apply again, or undefined when there is nothing to redo
+  redo(): T | undefined {
+    const entry = this.redoStack.pop();
+    if (entry !== undefined) this.undoStack.push(entry);
+    return entry;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+}
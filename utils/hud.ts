@@ -0,0 +1,109 @@
+import { InteractionState, Handedness } from '../types';
+
+export interface HudBar {
+  icon: string;
+  title: string;
+  percent: number; // 0 to 100
+  color: string; // Bar fill
+  text: string;
+  textColor: string;
+  borderColor: string;
+}
+
+// Single source of truth for what the status HUD shows. The DOM HUD and the
+// canvas HUD used for recordings both render this model.
+export const getHudModel = (state: InteractionState, clearHoldTime: number): HudBar[] => {
+  const idleBorder = 'rgba(255, 255, 255, 0.1)';
+
+  // Pinch, one bar per hand
+  const pinchBar = (slot: Handedness): HudBar => {
+    const hand = state.hands[slot];
+    const title = slot === 'Left' ? '播种 左手 (Left Pinch)' : '播种 右手 (Right Pinch)';
+    if (state.isPalmOpen) {
+      // If palm is open, show restricted state
+      return { icon: '🤏', title, percent: 0, color: '#64748b', text: '无法播种 (Palm Open)', textColor: '#64748b', borderColor: idleBorder };
+    }
+    const pinchPercent = hand.pinchProximity * 100;
+    if (hand.isPinching) {
+      return { icon: '🤏', title, percent: pinchPercent, color: '#22c55e', text: '已播种!', textColor: '#22c55e', borderColor: idleBorder };
+    }
+    return {
+      icon: '🤏', title, percent: pinchPercent, color: '#06b6d4',
+      text: !hand.isPresent ? '未检测到' : pinchPercent > 10 ? '捏合手指...' : '等待中',
+      textColor: '#06b6d4', borderColor: idleBorder
+    };
+  };
+
+  // Growth
+  const growthPercent = Math.min(state.mouthOpenness * 100, 100);
+  const growth: HudBar = {
+    icon: '😮', title: '生长 (Mouth)', percent: growthPercent, color: '#facc15',
+    text: `${growthPercent.toFixed(0)}%`, textColor: '#facc15', borderColor: idleBorder
+  };
+
+  // Clear (open hand)
+  const clearPercent = Math.min((state.clearTimer / clearHoldTime) * 100, 100);
+  const clear: HudBar = {
+    icon: '🖐️', title: '清除 (Open Hand)', percent: clearPercent, color: '#ef4444',
+    text: state.isPalmOpen && clearPercent >= 100 ? '已粉碎!' : `${(state.clearTimer / 1000).toFixed(1)}s`,
+    textColor: '#ef4444',
+    borderColor: state.isPalmOpen ? `rgba(239, 68, 68, ${0.3 + clearPercent / 200})` : idleBorder,
+  };
+
+  return [pinchBar('Left'), pinchBar('Right'), growth, clear];
+};
+
+const roundRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+};
+
+// Paints the HUD panels in the top-left corner, mirroring the DOM layout (in CSS px × scale)
+export const drawHud = (ctx: CanvasRenderingContext2D, bars: HudBar[], scale: number) => {
+  ctx.save();
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.textBaseline = 'middle';
+
+  const x = 16;
+  const width = 256;
+  const height = 50;
+  const gap = 12;
+
+  bars.forEach((bar, i) => {
+    const y = 16 + i * (height + gap);
+
+    roundRect(ctx, x, y, width, height, 8);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fill();
+    ctx.strokeStyle = bar.borderColor;
+    ctx.lineWidth = 1;
+    ctx.stroke();
+
+    ctx.font = 'bold 12px sans-serif';
+    ctx.fillStyle = '#d1d5db';
+    ctx.textAlign = 'left';
+    ctx.fillText(`${bar.icon} ${bar.title}`, x + 12, y + 18);
+
+    ctx.font = '12px monospace';
+    ctx.fillStyle = bar.textColor;
+    ctx.textAlign = 'right';
+    ctx.fillText(bar.text, x + width - 12, y + 18);
+
+    // Track + fill
+    roundRect(ctx, x + 12, y + 32, width - 24, 8, 4);
+    ctx.fillStyle = 'rgba(55, 65, 81, 0.5)';
+    ctx.fill();
+    if (bar.percent > 0) {
+      roundRect(ctx, x + 12, y + 32, Math.max(8, (width - 24) * bar.percent / 100), 8, 4);
+      ctx.fillStyle = bar.color;
+      ctx.fill();
+    }
+  });
+
+  ctx.restore();
+};
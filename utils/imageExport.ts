@@ -0,0 +1,71 @@
+import { Plant, Seed, Terrain } from '../types';
+import { DrawingContext, drawPlant, drawSeed, drawTerrain } from './drawing';
+import { SvgContext } from './svgContext';
+import { downloadBlob, fileTimestamp } from './download';
+
+export interface ImageExportOptions {
+  heightFactor: number; // Same global height factor the live canvas uses
+  mirror: boolean; // Match the mirrored on-screen view
+  video?: HTMLVideoElement | null; // Draw the current camera frame behind the garden
+}
+
+interface GardenLayer {
+  plants: Plant[];
+  seeds: Seed[];
+  terrain: Terrain;
+}
+
+// Only the garden itself is exported: no HUD, pinch indicator or explosion particles
+const renderGarden = (ctx: DrawingContext, garden: GardenLayer, width: number, height: number, heightFactor: number) => {
+  drawTerrain(ctx, garden.terrain, width, height);
+  garden.seeds.forEach(seed => drawSeed(ctx, seed));
+  garden.plants.forEach(plant => drawPlant(ctx, plant, heightFactor));
+};
+
+const hasFrame = (video?: HTMLVideoElement | null): video is HTMLVideoElement =>
+  !!video && video.readyState >= 2 && video.videoWidth > 0;
+
+export const exportGardenSvg = (garden: GardenLayer, width: number, height: number, options: ImageExportOptions) => {
+  const ctx = new SvgContext(width, height, options.mirror ? [-1, 0, 0, 1, width, 0] : undefined);
+
+  if (hasFrame(options.video)) {
+    // SVG can't reference a live video, so embed a snapshot of the current frame
+    const frame = document.createElement('canvas');
+    frame.width = width;
+    frame.height = height;
+    frame.getContext('2d')?.drawImage(options.video, 0, 0, width, height);
+    const transform = options.mirror ? ` transform="matrix(-1 0 0 1 ${width} 0)"` : '';
+    ctx.appendRaw(
+      `<image href="${frame.toDataURL('image/jpeg', 0.92)}" width="${width}" height="${height}"${transform}/>`
+    );
+  }
+
+  renderGarden(ctx, garden, width, height, options.heightFactor);
+  const blob = new Blob([ctx.toString()], { type: 'image/svg+xml' });
+  downloadBlob(blob, `garden-${fileTimestamp()}.svg`);
+};
+
+// Renders at `scale` × the canvas resolution; vector drawing stays crisp at any scale
+export const exportGardenPng = async (
+  garden: GardenLayer, width: number, height: number, scale: number, options: ImageExportOptions
+) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+
+  ctx.scale(scale, scale);
+  if (options.mirror) {
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+  if (hasFrame(options.video)) {
+    ctx.drawImage(options.video, 0, 0, width, height);
+  }
+  renderGarden(ctx, garden, width, height, options.heightFactor);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('PNG encoding failed');
+  downloadBlob(blob, `garden-${fileTimestamp()}@${scale}x.png`);
+};
@@ -0,0 +1,47 @@
+import { GestureThresholds, InteractionState } from '../../types';
+import { ViewMapping } from '../coordinates';
+import { processInteraction } from '../gestures';
+import { LandmarkRecorder } from '../landmarkRecording';
+import { LandmarkPipeline } from '../vision/landmarkPipeline';
+import { InputProvider } from './types';
+
+/**
+ * Live webcam input. New video frames go to the detection pipeline (normally a worker, at each
+ * model's own rate); every rendered frame reads the interpolated landmarks, so gestures and the
+ * HUD stay smooth however long inference takes.
+ */
+export class CameraInputProvider implements InputProvider {
+  readonly id = 'camera';
+  private lastVideoTime = -1;
+
+  constructor(
+    private video: HTMLVideoElement,
+    readonly pipeline: LandmarkPipeline,
+    recorder?: LandmarkRecorder
+  ) {
+    // Recordings keep the raw results, timed by when they arrived
+    if (recorder) pipeline.onResult = (now, face, hands) => recorder.push(now, face, hands);
+  }
+
+  getPreferredSize() {
+    return this.video.videoWidth > 0 ? { width: this.video.videoWidth, height: this.video.videoHeight } : null;
+  }
+
+  isReady() {
+    return this.video.readyState >= 2;
+  }
+
+  update(state: InteractionState, now: number, view: ViewMapping, thresholds: GestureThresholds) {
+    if (this.video.currentTime !== this.lastVideoTime) {
+      this.lastVideoTime = this.video.currentTime;
+      this.pipeline.capture(this.video, now);
+    }
+
+    const sample = this.pipeline.sample(now);
+    if (sample) processInteraction(state, sample.face, sample.hands, view, thresholds);
+  }
+
+  dispose() {
+    // The camera stream outlives the provider so switching back is instant
+  }
+}
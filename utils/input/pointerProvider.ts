@@ -0,0 +1,182 @@
+import { InteractionState, Point } from '../../types';
+import { ViewMapping } from '../coordinates';
+import { InputProvider } from './types';
+
+const LONG_PRESS_TIME = 350; // ms; shorter presses are taps (sow), longer ones grow
+const DRAG_DISTANCE = 8; // CSS px a press has to move before it becomes a drag instead of a tap or long-press
+const TAP_HOLD_TIME = 80; // ms a tap keeps the "pinch" down so the fixed-step simulation can't miss it
+const GROWTH_RAMP_UP = 1200; // ms from 0 to full growth while held
+const GROWTH_RAMP_DOWN = 300; // ms from full growth back to 0 after release
+const CLEAR_KEY = 'c';
+const BLOW_KEY = 'b';
+const ERASE_KEY = 'e';
+const BLOW_RAMP = 250; // ms from 0 to a full blow and back
+
+/**
+ * Mouse, touch and keyboard input for machines without a camera:
+ * - click / tap: sow at the pointer
+ * - hold Space, or long-press: grow (ramps up like slowly opening the mouth)
+ * - hold B: blow a gust from the cursor (like blowing at the camera)
+ * - hold C: clear (same 5 s hold as the open palm)
+ * - hold E: erase under the cursor (like moving a closed fist)
+ * - press and drag: drags (e.g. shapes the ground with the terrain tool)
+ * - hover: stands in for a pointing finger
+ * Positions are kept relative to the canvas element and mapped into the garden on update, so a
+ * change of view (resize, mirroring) applies straight away.
+ */
+export class PointerInputProvider implements InputProvider {
+  readonly id = 'pointer';
+
+  private pointerDownAt: number | null = null;
+  private pressOrigin: Point | null = null;
+  private dragging = false;
+  private tapLocation: Point | null = null;
+  private tapUntil = 0;
+  private hover: Point | null = null;
+  private spaceHeld = false;
+  private clearHeld = false;
+  private blowHeld = false;
+  private eraseHeld = false;
+  private growth = 0;
+  private blow = 0;
+  private lastUpdate = 0;
+
+  constructor(private canvas: HTMLCanvasElement) {
+    canvas.addEventListener('pointerdown', this.handlePointerDown);
+    canvas.addEventListener('pointerup', this.handlePointerUp);
+    canvas.addEventListener('pointermove', this.handlePointerMove);
+    canvas.addEventListener('pointerleave', this.handlePointerLeave);
+    canvas.addEventListener('pointercancel', this.handlePointerCancel);
+    canvas.addEventListener('contextmenu', this.preventDefault);
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+  }
+
+  getPreferredSize() {
+    return null;
+  }
+
+  isReady() {
+    return true;
+  }
+
+  update(state: InteractionState, now: number, view: ViewMapping) {
+    const dt = this.lastUpdate ? now - this.lastUpdate : 0;
+    this.lastUpdate = now;
+
+    const longPress = this.pointerDownAt !== null && !this.dragging && now - this.pointerDownAt >= LONG_PRESS_TIME;
+    const growing = this.spaceHeld || longPress;
+    this.growth = growing
+      ? Math.min(1, this.growth + dt / GROWTH_RAMP_UP)
+      : Math.max(0, this.growth - dt / GROWTH_RAMP_DOWN);
+    this.blow = Math.min(1, Math.max(0, this.blow + (this.blowHeld ? dt : -dt) / BLOW_RAMP));
+
+    // The pointer acts as a single (right) hand
+    const hand = state.hands.Right;
+    const tapping = this.tapLocation !== null && now < this.tapUntil;
+    const hover = this.hover && view.fromView(this.hover.x, this.hover.y);
+    hand.isPresent = true;
+    hand.isPinching = tapping;
+    if (tapping && this.tapLocation) hand.pinchLocation = view.fromView(this.tapLocation.x, this.tapLocation.y);
+    // Show pinch "proximity" while a press is still short enough to become a tap
+    hand.pinchProximity = tapping || (this.pointerDownAt !== null && !longPress && !this.dragging) ? 1 : 0;
+    state.mouthOpenness = this.growth;
+    state.blowStrength = this.blow;
+    state.isPalmOpen = this.clearHeld;
+    state.eraserPosition = this.eraseHeld ? hover : null;
+    state.dragPosition = this.dragging ? hover : null;
+    // The cursor stands in for a pointing finger (focus / selection)
+    state.pointingPosition = hover;
+  }
+
+  dispose() {
+    this.canvas.removeEventListener('pointerdown', this.handlePointerDown);
+    this.canvas.removeEventListener('pointerup', this.handlePointerUp);
+    this.canvas.removeEventListener('pointermove', this.handlePointerMove);
+    this.canvas.removeEventListener('pointerleave', this.handlePointerLeave);
+    this.canvas.removeEventListener('pointercancel', this.handlePointerCancel);
+    this.canvas.removeEventListener('contextmenu', this.preventDefault);
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+  }
+
+  private handlePointerDown = (e: PointerEvent) => {
+    this.canvas.setPointerCapture(e.pointerId);
+    this.pointerDownAt = performance.now();
+    this.pressOrigin = this.toLocal(e);
+    this.dragging = false;
+  };
+
+  private handlePointerMove = (e: PointerEvent) => {
+    this.hover = this.toLocal(e);
+    // Only a press that moves before it turns into a long-press drags, so growing can't be interrupted
+    const origin = this.pressOrigin;
+    if (origin && this.pointerDownAt !== null && performance.now() - this.pointerDownAt < LONG_PRESS_TIME &&
+      Math.hypot(this.hover.x - origin.x, this.hover.y - origin.y) > DRAG_DISTANCE) {
+      this.dragging = true;
+    }
+  };
+
+  private handlePointerLeave = () => {
+    // Touch pointers "leave" when lifted; keep the last position while a press is active
+    if (this.pointerDownAt === null) this.hover = null;
+  };
+
+  private handlePointerUp = (e: PointerEvent) => {
+    if (this.pointerDownAt === null) return;
+    const now = performance.now();
+    if (!this.dragging && now - this.pointerDownAt < LONG_PRESS_TIME) {
+      this.tapLocation = this.toLocal(e);
+      this.tapUntil = now + TAP_HOLD_TIME;
+    }
+    this.endPress();
+  };
+
+  private handlePointerCancel = () => {
+    this.endPress();
+  };
+
+  // CSS px from the canvas element's top-left corner
+  private toLocal(e: PointerEvent): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }
+
+  private endPress() {
+    this.pointerDownAt = null;
+    this.pressOrigin = null;
+    this.dragging = false;
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (isTypingTarget(e.target)) return;
+    if (e.code === 'Space') {
+      e.preventDefault(); // Don't scroll or "click" a focused button
+      this.spaceHeld = true;
+    } else if (e.key.toLowerCase() === CLEAR_KEY) {
+      this.clearHeld = true;
+    } else if (e.key.toLowerCase() === BLOW_KEY) {
+      this.blowHeld = true;
+    } else if (e.key.toLowerCase() === ERASE_KEY) {
+      this.eraseHeld = true;
+    }
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    if (e.code === 'Space') {
+      if (!isTypingTarget(e.target)) e.preventDefault();
+      this.spaceHeld = false;
+    } else if (e.key.toLowerCase() === CLEAR_KEY) {
+      this.clearHeld = false;
+    } else if (e.key.toLowerCase() === BLOW_KEY) {
+      this.blowHeld = false;
+    } else if (e.key.toLowerCase() === ERASE_KEY) {
+      this.eraseHeld = false;
+    }
+  };
+
+  private preventDefault = (e: Event) => e.preventDefault();
+}
+
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
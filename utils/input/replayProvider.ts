@@ -0,0 +1,28 @@
+import { GestureThresholds, InteractionState } from '../../types';
+import { ViewMapping } from '../coordinates';
+import { processInteraction } from '../gestures';
+import { LandmarkPlayer } from '../landmarkRecording';
+import { InputProvider } from './types';
+
+/** Feeds a recorded landmark stream through the same gesture logic as the camera. */
+export class ReplayInputProvider implements InputProvider {
+  readonly id = 'replay';
+
+  constructor(private player: LandmarkPlayer) {}
+
+  getPreferredSize() {
+    // Keep the canvas size the session was recorded at
+    return { width: this.player.file.width, height: this.player.file.height };
+  }
+
+  isReady() {
+    return true;
+  }
+
+  update(state: InteractionState, now: number, view: ViewMapping, thresholds: GestureThresholds) {
+    const frame = this.player.frameAt(now);
+    if (frame) processInteraction(state, frame.face, frame.hands, view, thresholds);
+  }
+
+  dispose() {}
+}
@@ -0,0 +1,56 @@
+import { GestureThresholds, HandState, InteractionState } from '../../types';
+import { ViewMapping } from '../coordinates';
+
+export type InputProviderId = 'camera' | 'pointer' | 'replay';
+
+/**
+ * A source of InteractionState. The camera pipeline, mouse/touch/keyboard and
+ * recorded landmark replays all plug in here, so the rest of the app never
+ * needs to know where input comes from.
+ */
+export interface InputProvider {
+  readonly id: InputProviderId;
+  // Canvas size this provider wants (e.g. the video resolution), or null for no preference
+  getPreferredSize(): { width: number; height: number } | null;
+  // False while the provider is still warming up (models loading, video not playing yet)
+  isReady(): boolean;
+  // Writes the latest input into `state`, in garden coordinates; called once per rendered frame
+  update(state: InteractionState, now: number, view: ViewMapping, thresholds: GestureThresholds): void;
+  dispose(): void;
+}
+
+const createHandState = (): HandState => ({
+  isPresent: false,
+  isPinching: false,
+  pinchLocation: null,
+  pinchProximity: 0,
+});
+
+export const createInteractionState = (): InteractionState => ({
+  hands: { Left: createHandState(), Right: createHandState() },
+  mouthOpenness: 0,
+  blowStrength: 0,
+  isPalmOpen: false,
+  isThumbsDown: false,
+  eraserPosition: null,
+  dragPosition: null,
+  clearTimer: 0,
+  facePosition: null,
+  pointingPosition: null,
+  mouthRatio: null,
+  pinchDistance: null,
+});
+
+export const resetInteraction = (state: InteractionState) => {
+  state.hands = { Left: createHandState(), Right: createHandState() };
+  state.mouthOpenness = 0;
+  state.blowStrength = 0;
+  state.isPalmOpen = false;
+  state.isThumbsDown = false;
+  state.eraserPosition = null;
+  state.dragPosition = null;
+  state.facePosition = null;
+  state.pointingPosition = null;
+  state.mouthRatio = null;
+  state.pinchDistance = null;
+};
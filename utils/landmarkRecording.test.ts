@@ -0,0 +1,60 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { LandmarkPlayer, parseLandmarkRecording } from './landmarkRecording';
+
+const fixture = readFileSync(new URL('./fixtures/gestures.landmarks.json', import.meta.url), 'utf8');
+
+// The fixture with some of its fields overwritten
+const modified = (edit: (data: any) => void) => {
+  const data = JSON.parse(fixture);
+  edit(data);
+  return JSON.stringify(data);
+};
+
+describe('parseLandmarkRecording', () => {
+  it('reads the recorder format', () => {
+    const recording = parseLandmarkRecording(fixture);
+    expect(recording.width).toBe(1280);
+    expect(recording.height).toBe(720);
+    expect(recording.frames.map(f => f.t)).toEqual([0, 33, 67, 100, 133]);
+  });
+
+  it('rejects other files and newer versions', () => {
+    expect(() => parseLandmarkRecording('{')).toThrow('Invalid JSON');
+    expect(() => parseLandmarkRecording(modified(data => { data.format = 'garden-ai'; }))).toThrow('Not a landmark recording');
+    expect(() => parseLandmarkRecording(modified(data => { data.version = 2; }))).toThrow('Unsupported version');
+  });
+
+  it('rejects a canvas size that is not a positive number', () => {
+    for (const width of [0, -1280, 'wide', [1280]]) {
+      expect(() => parseLandmarkRecording(modified(data => { data.width = width; }))).toThrow('Invalid canvas size');
+    }
+  });
+
+  it('drops frames with truncated or non-finite landmarks', () => {
+    const recording = parseLandmarkRecording(modified(data => {
+      data.frames[1].face.faceLandmarks[0].length = 100;
+      data.frames[2].face.faceLandmarks[0][13].y = 'NaN';
+      data.frames[3].hands.landmarks[0].pop();
+      data.frames[4].hands.handedness = [[{ categoryName: 'Left' }]];
+    }));
+    expect(recording.frames.map(f => f.t)).toEqual([0]);
+
+    expect(() => parseLandmarkRecording(modified(data => {
+      for (const frame of data.frames) frame.t = null;
+    }))).toThrow('No usable frames');
+  });
+});
+
+describe('LandmarkPlayer', () => {
+  it('returns each frame once, at its time, and loops', () => {
+    const player = new LandmarkPlayer(parseLandmarkRecording(fixture));
+    player.start(1000);
+    expect(player.frameAt(1000)?.t).toBe(0);
+    expect(player.frameAt(1010)).toBeNull();
+    // Frames that fell due together collapse into the newest
+    expect(player.frameAt(1070)?.t).toBe(67);
+    expect(player.frameAt(1200)?.t).toBe(133);
+    expect(player.frameAt(1300)?.t).toBe(0);
+  });
+});
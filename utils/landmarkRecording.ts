@@ -0,0 +1,176 @@
+import { Category, FaceDetection, HandDetection, Landmark } from '../types';
+import { downloadBlob, fileTimestamp } from './download';
+import { isFiniteNumber } from './validation';
+
+export const LANDMARK_FORMAT_VERSION = 1;
+export const LANDMARK_FILE_EXTENSION = '.landmarks.json';
+
+// Points per detection, as the gesture logic indexes them
+const FACE_LANDMARK_COUNT = 468;
+const HAND_LANDMARK_COUNT = 21;
+
+export interface LandmarkFrame {
+  t: number; // ms since the start of the recording
+  face: FaceDetection;
+  hands: HandDetection;
+}
+
+export interface LandmarkRecordingFile {
+  format: 'garden-ai-landmarks';
+  version: number;
+  recordedAt: string; // ISO timestamp
+  width: number; // Canvas size during recording; landmarks themselves are normalized
+  height: number;
+  frames: LandmarkFrame[];
+}
+
+// Landmarks are normalized, 4 decimals is well below a pixel even at 4K
+const round = (n: number) => Math.round(n * 10000) / 10000;
+
+const packLandmarks = (sets: Landmark[][] | undefined): Landmark[][] =>
+  (sets ?? []).map(set => set.map(l => ({ x: round(l.x), y: round(l.y), z: round(l.z) })));
+
+const packCategories = (categories: Category[]): Category[] =>
+  categories.map(c => ({ categoryName: c.categoryName, score: round(c.score) }));
+
+// Copies a live MediaPipe result into plain JSON, dropping class instances and unused fields
+const packFace = (face: FaceDetection): FaceDetection => ({
+  faceLandmarks: packLandmarks(face.faceLandmarks),
+  faceBlendshapes: (face.faceBlendshapes ?? []).map(b => ({ categories: packCategories(b.categories) })),
+});
+
+const packHands = (hands: HandDetection): HandDetection => ({
+  landmarks: packLandmarks(hands.landmarks),
+  handedness: (hands.handedness ?? []).map(packCategories),
+});
+
+/** Captures detectForVideo() results with timestamps so a session can be replayed later. */
+export class LandmarkRecorder {
+  private frames: LandmarkFrame[] = [];
+  private startedAt = 0;
+  isRecording = false;
+
+  start(now: number) {
+    this.frames = [];
+    this.startedAt = now;
+    this.isRecording = true;
+  }
+
+  push(now: number, face: FaceDetection, hands: HandDetection) {
+    if (!this.isRecording) return;
+    this.frames.push({ t: Math.round(now - this.startedAt), face: packFace(face), hands: packHands(hands) });
+  }
+
+  stop(width: number, height: number): LandmarkRecordingFile {
+    this.isRecording = false;
+    const file: LandmarkRecordingFile = {
+      format: 'garden-ai-landmarks',
+      version: LANDMARK_FORMAT_VERSION,
+      recordedAt: new Date().toISOString(),
+      width,
+      height,
+      frames: this.frames,
+    };
+    this.frames = [];
+    return file;
+  }
+}
+
+/** Plays a recording back in real time, handing out each frame once when its timestamp is reached. */
+export class LandmarkPlayer {
+  private startedAt = 0;
+  private index = 0;
+
+  constructor(readonly file: LandmarkRecordingFile, readonly loop = true) {}
+
+  get duration() {
+    const frames = this.file.frames;
+    return frames.length > 0 ? frames[frames.length - 1].t : 0;
+  }
+
+  get isFinished() {
+    return !this.loop && this.index >= this.file.frames.length;
+  }
+
+  start(now: number) {
+    this.startedAt = now;
+    this.index = 0;
+  }
+
+  // Returns the newest frame due at `now` that hasn't been returned yet, or null
+  frameAt(now: number): LandmarkFrame | null {
+    const frames = this.file.frames;
+    if (frames.length === 0) return null;
+
+    if (this.loop && this.index >= frames.length) this.start(now);
+
+    const elapsed = now - this.startedAt;
+    let due: LandmarkFrame | null = null;
+    while (this.index < frames.length && frames[this.index].t <= elapsed) {
+      due = frames[this.index];
+      this.index++;
+    }
+    return due;
+  }
+}
+
+// Every set complete and every point finite, so replaying can't index past the end or spread NaN
+const isLandmarkSetList = (sets: unknown, count: number): sets is Landmark[][] =>
+  Array.isArray(sets) && sets.every(set => Array.isArray(set) && set.length >= count &&
+    set.every(l => l && isFiniteNumber(l.x) && isFiniteNumber(l.y) && isFiniteNumber(l.z)));
+
+const isCategoryList = (categories: unknown): categories is Category[] =>
+  Array.isArray(categories) && categories.every(c => c && typeof c.categoryName === 'string' && isFiniteNumber(c.score));
+
+const isUsableFrame = (f: LandmarkFrame) =>
+  !!f && isFiniteNumber(f.t) &&
+  isLandmarkSetList(f.face?.faceLandmarks ?? [], FACE_LANDMARK_COUNT) &&
+  (f.face?.faceBlendshapes ?? []).every(b => b && isCategoryList(b.categories)) &&
+  isLandmarkSetList(f.hands?.landmarks ?? [], HAND_LANDMARK_COUNT) &&
+  (f.hands?.handedness ?? []).every(isCategoryList);
+
+export const parseLandmarkRecording = (text: string): LandmarkRecordingFile => {
+  let data: Partial<LandmarkRecordingFile> | null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('手势录制文件已损坏 (Invalid JSON)');
+  }
+  if (!data || data.format !== 'garden-ai-landmarks' || !Array.isArray(data.frames)) {
+    throw new Error('不是手势录制文件 (Not a landmark recording)');
+  }
+  if (typeof data.version !== 'number' || data.version > LANDMARK_FORMAT_VERSION) {
+    throw new Error(`手势录制版本不支持 (Unsupported version ${data.version})`);
+  }
+  const width = data.width ?? 1280;
+  const height = data.height ?? 720;
+  if (!isFiniteNumber(width) || !isFiniteNumber(height) || width <= 0 || height <= 0) {
+    throw new Error('手势录制文件已损坏 (Invalid canvas size)');
+  }
+  // Truncated or hand-edited frames are skipped; a recording with nothing left is rejected
+  const frames = data.frames.filter(isUsableFrame);
+  if (frames.length === 0 && data.frames.length > 0) {
+    throw new Error('手势录制文件已损坏 (No usable frames)');
+  }
+  return {
+    format: 'garden-ai-landmarks',
+    version: data.version,
+    recordedAt: data.recordedAt ?? '',
+    width,
+    height,
+    frames: frames
+      .map(f => ({
+        t: f.t,
+        face: { faceLandmarks: f.face?.faceLandmarks ?? [], faceBlendshapes: f.face?.faceBlendshapes ?? [] },
+        hands: { landmarks: f.hands?.landmarks ?? [], handedness: f.hands?.handedness ?? [] },
+      }))
+      .sort((a, b) => a.t - b.t),
+  };
+};
+
+export const readLandmarkRecording = async (file: File) => parseLandmarkRecording(await file.text());
+
+export const downloadLandmarkRecording = (file: LandmarkRecordingFile) => {
+  const blob = new Blob([JSON.stringify(file)], { type: 'application/json' });
+  downloadBlob(blob, `landmarks-${fileTimestamp(new Date(file.recordedAt))}${LANDMARK_FILE_EXTENSION}`);
+};
@@ -0,0 +1,49 @@
+import { Plant, PlantStage, SpeciesId } from '../types';
+import { getSpecies } from './species/registry';
+
+export const PLANT_STAGES: PlantStage[] = ['sprout', 'bud', 'bloom', 'seedHead', 'wilting', 'decaying'];
+
+// growthProgress at which the stem sets a bud (matches where drawPlant starts drawing a head)
+export const BUD_PROGRESS = 0.6;
+export const BLOOM_OPEN_TIME = 2500; // ms for a fresh bloom to open its petals
+
+// How long the time-based stages last at lifecycleSpeed 1. Sprout and bud are driven by growth.
+const STAGE_DURATIONS: Partial<Record<PlantStage, number>> = {
+  bloom: 60000,
+  seedHead: 20000,
+  wilting: 15000,
+  decaying: 10000,
+};
+
+export const getStageDuration = (stage: PlantStage): number | null => STAGE_DURATIONS[stage] ?? null;
+
+// Growth-driven stage for a plant that hasn't bloomed yet
+export const stageForProgress = (growthProgress: number): PlantStage =>
+  growthProgress >= 1 ? 'bloom' : growthProgress >= BUD_PROGRESS ? 'bud' : 'sprout';
+
+// Stages growth moves a plant through; the later ones follow on with time
+export const isGrowthStage = (stage: PlantStage) => stage === 'sprout' || stage === 'bud' || stage === 'bloom';
+
+// Dandelion-like species turn into a seed head after blooming; everything else wilts straight away
+export const hasSeedHead = (species: SpeciesId) => getSpecies(species).seedHead;
+
+const stageFraction = (plant: Plant) => {
+  const duration = getStageDuration(plant.stage);
+  return duration ? Math.min(plant.stageAge / duration, 1) : 0;
+};
+
+// 0 while bud, opening to 1 over BLOOM_OPEN_TIME; stays open afterwards
+export const getBloomOpenness = (plant: Plant): number => {
+  if (plant.stage === 'sprout' || plant.stage === 'bud') return 0;
+  if (plant.stage === 'bloom') return Math.min(plant.stageAge / BLOOM_OPEN_TIME, 1);
+  return 1;
+};
+
+// 0 for a healthy plant, rising to 1 as it wilts; fully wilted while decaying
+export const getWiltAmount = (plant: Plant): number => {
+  if (plant.stage === 'wilting') return stageFraction(plant);
+  return plant.stage === 'decaying' ? 1 : 0;
+};
+
+// 0 → 1 over the decaying stage, after which the plant is removed
+export const getDecayAmount = (plant: Plant): number => plant.stage === 'decaying' ? stageFraction(plant) : 0;
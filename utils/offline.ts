@@ -0,0 +1,10 @@
+// Registers public/sw.js, which caches the app and the vision models so it keeps working offline.
+// Production builds only: in development it would serve stale modules.
+export const registerOfflineCache = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(err => {
+      console.warn('Offline cache unavailable:', err);
+    });
+  });
+};
@@ -0,0 +1,31 @@
+import { Particle } from '../types';
+
+// Bounded free list of particle objects. Bursts of thousands of particles reuse dead ones instead of
+// allocating, so clearing a big garden doesn't stall on garbage collection.
+export class ParticlePool {
+  private free: Particle[] = [];
+
+  constructor(private limit = 4000) {}
+
+  // A particle with exactly the given fields, recycled when possible
+  acquire(init: Particle): Particle {
+    const particle = this.free.pop();
+    if (!particle) return { ...init };
+    particle.kind = undefined;
+    return Object.assign(particle, init);
+  }
+
+  release(particle: Particle) {
+    if (this.free.length < this.limit) this.free.push(particle);
+  }
+
+  // Removes the particles `isAlive` rejects in place, keeping order, and recycles them
+  sweep(particles: Particle[], isAlive: (particle: Particle) => boolean) {
+    let kept = 0;
+    particles.forEach(particle => {
+      if (isAlive(particle)) particles[kept++] = particle;
+      else this.release(particle);
+    });
+    particles.length = kept;
+  }
+}
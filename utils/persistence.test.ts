@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { Plant, Seed } from '../types';
+import {
+  decodeShareCode, deserializeGarden, encodeShareCode, GARDEN_FORMAT_VERSION, GardenContents, migrateGardenFile,
+  parseGardenFile, serializeGarden,
+} from './persistence';
+import { generatePlantStructure } from './plantStructure';
+import { createTerrain, shapeGround } from './terrain';
+
+const createPlant = (id: string, x: number, changes: Partial<Plant> = {}): Plant => ({
+  id, x, y: 700, height: 0, maxHeight: 200, growthProgress: 0.8, species: '玫瑰', color: '#ff0000', seed: 0.25,
+  ...generatePlantStructure('玫瑰', 0.25, 200),
+  stage: 'bud', stageAge: 1500, florets: 1, sway: 0, swayVelocity: 0,
+  ...changes,
+});
+
+const seed: Seed = { id: 's1', x: 320, y: 100, vy: 2, species: '蒲公英', color: '#facc15', isLanded: false };
+
+const createGarden = (): GardenContents => {
+  const terrain = createTerrain();
+  shapeGround(terrain, { x: 640, y: 500 }, 200, 1280, 720);
+  terrain.planters.push({ id: 'planter1', x: 300, width: 120, height: 60 });
+  return {
+    plants: [createPlant('p1', 640), createPlant('p2', 100, { species: '蒲公英', stage: 'seedHead', florets: 0.5, growthProgress: 1 })],
+    seeds: [seed],
+    terrain,
+  };
+};
+
+describe('garden files', () => {
+  it('reloads a saved garden at another canvas size in the same place', () => {
+    const file = parseGardenFile(JSON.stringify(serializeGarden(createGarden(), 1280, 720)));
+    const { plants, seeds, terrain } = deserializeGarden(file, 640, 360);
+    expect(plants.map(p => [p.id, p.x, p.y, p.stage, p.florets])).toEqual([['p1', 320, 350, 'bud', 1], ['p2', 50, 350, 'seedHead', 0.5]]);
+    expect(plants[0].stemControlPoints).toEqual(createGarden().plants[0].stemControlPoints.map(p => ({ x: Math.round(p.x * 10) / 10, y: Math.round(p.y * 10) / 10 })));
+    expect(seeds).toEqual([{ ...seed, x: 160, y: 50 }]);
+    expect(terrain.planters).toEqual([{ id: 'planter1', x: 150, width: 60, height: 30 }]);
+    expect(Math.max(...terrain.heights)).toBeCloseTo(Math.max(...createGarden().terrain.heights) / 2, 1);
+  });
+
+  it('upgrades a v1 file: stage from growth, structure from the seed, flat ground', () => {
+    const file = migrateGardenFile({
+      format: 'garden-ai',
+      version: 1,
+      savedAt: '2025-01-01T00:00:00.000Z',
+      plants: [{ id: 'old', species: '玫瑰', color: '#ff0000', seed: 0.25, maxHeight: 200, growthProgress: 1, x: 0.5, y: 0.9 }],
+      seeds: [{ id: 'falling', species: '玫瑰', color: '#ff0000', x: 0.1, y: 0.1, vy: 1 }],
+    });
+    expect(file.version).toBe(GARDEN_FORMAT_VERSION);
+    expect(file.plants[0]).toMatchObject({ stage: 'bloom', stageAge: 0, florets: 1, ...generatePlantStructure('玫瑰', 0.25, 200) });
+    expect(file.terrain).toBeUndefined();
+    expect(deserializeGarden(file, 1280, 720).terrain).toEqual(createTerrain());
+  });
+
+  it('drops unusable items and repairs the rest', () => {
+    const file = migrateGardenFile({
+      format: 'garden-ai',
+      version: GARDEN_FORMAT_VERSION,
+      plants: [
+        { species: '玫瑰', color: 'red', seed: 0.25, maxHeight: 200, growthProgress: 0.3, x: 0.5, y: 0.9, stage: 'growing' },
+        { species: 'nonexistent', seed: 0.25, maxHeight: 200, growthProgress: 1, x: 0.5, y: 0.9 },
+        { species: '玫瑰', seed: 0.25, maxHeight: 200, growthProgress: 1, x: 'left', y: 0.9 },
+        null,
+      ],
+      seeds: [{ species: '玫瑰', x: 0.1, y: 0.1 }],
+      terrain: { heights: [0.1, 'high'], planters: [], platforms: [] },
+    });
+    expect(file.plants).toHaveLength(1);
+    expect(file.plants[0]).toMatchObject({ id: 'p0', color: '#e11d48', stage: 'sprout' });
+    expect(file.seeds).toEqual([]);
+    expect(file.terrain).toBeUndefined();
+  });
+
+  it('rejects other files, newer versions and corrupt ones', () => {
+    expect(() => parseGardenFile('{')).toThrow('Invalid JSON');
+    expect(() => migrateGardenFile({ format: 'garden-ai-landmarks', version: 1 })).toThrow('Not a garden file');
+    expect(() => migrateGardenFile({ format: 'garden-ai', version: GARDEN_FORMAT_VERSION + 1 })).toThrow('Unsupported version');
+    expect(() => migrateGardenFile({ format: 'garden-ai', version: 1, plants: {} })).toThrow('Corrupt garden file');
+  });
+});
+
+describe('share codes', () => {
+  it('round-trips plants and terrain, regrowing the structure', () => {
+    const file = serializeGarden(createGarden(), 1280, 720);
+    const shared = decodeShareCode(encodeShareCode(file));
+    expect(shared.plants.map(p => [p.species, p.color, p.stage, p.stageAge])).toEqual(
+      file.plants.map(p => [p.species, p.color, p.stage, p.stageAge])
+    );
+    // Positions are rounded to 4 digits
+    shared.plants.forEach((p, i) => {
+      expect(p.x).toBeCloseTo(file.plants[i].x, 4);
+      expect(p.y).toBeCloseTo(file.plants[i].y, 4);
+    });
+    expect(shared.plants[0].stemControlPoints).toEqual(generatePlantStructure('玫瑰', 0.25, 200).stemControlPoints);
+    expect(shared.seeds).toEqual([]);
+    expect(shared.terrain?.planters).toHaveLength(1);
+    expect(shared.terrain?.planters[0].x).toBeCloseTo(file.terrain!.planters[0].x, 4);
+    shared.terrain?.heights.forEach((h, i) => expect(h).toBeCloseTo(file.terrain!.heights[i], 2));
+  });
+
+  it('leaves flat ground out of the code', () => {
+    const garden = { ...createGarden(), terrain: createTerrain() };
+    const file = serializeGarden(garden, 1280, 720);
+    const withHills = encodeShareCode(serializeGarden(createGarden(), 1280, 720));
+    expect(encodeShareCode(file).length).toBeLessThan(withHills.length);
+    expect(decodeShareCode(encodeShareCode(file)).terrain).toBeUndefined();
+  });
+
+  it('rejects a damaged code', () => {
+    expect(() => decodeShareCode('not-a-code!')).toThrow('Invalid share code');
+  });
+});
@@ -0,0 +1,327 @@
+import { Plant, PlantBranch, PlantLeaf, PlantStage, Planter, Platform, Point, Seed, SpeciesId, Terrain } from '../types';
+import { downloadBlob, fileTimestamp } from './download';
+import { PLANT_STAGES } from './lifecycle';
+import { createTerrain } from './terrain';
+import { isFiniteNumber, isUsablePlant, isUsableSeed, repairPlant, repairSeed, validateTerrain } from './validation';
+
+// Bump when the on-disk shape changes and add a step to migrateGardenFile()
+export const GARDEN_FORMAT_VERSION = 4;
+export const GARDEN_FILE_EXTENSION = '.garden.json';
+
+const AUTOSAVE_KEY = 'garden-ai:autosave';
+const SHARE_HASH_PREFIX = '#garden=';
+
+// Positions are stored normalized (0..1 of the canvas size) so a garden saved
+// at 1280×720 lands in the same place on a phone-sized canvas.
+export interface SavedPlant {
+  id: string;
+  species: SpeciesId;
+  color: string;
+  seed: number;
+  maxHeight: number;
+  growthProgress: number;
+  stage: PlantStage; // Since v2
+  stageAge: number; // Since v2
+  florets?: number; // Seed head left after blowing; missing means intact
+  contributor?: string; // Who sowed it, in a shared garden
+  // Since v3. Structure is in px relative to the plant's base, so it is not normalized
+  stemControlPoints: Point[];
+  branches: PlantBranch[];
+  leaves: PlantLeaf[];
+  x: number;
+  y: number;
+}
+
+export interface SavedSeed {
+  id: string;
+  species: SpeciesId;
+  color: string;
+  x: number;
+  y: number;
+  vy: number;
+  contributor?: string;
+}
+
+// Since v4. Elevations and sizes are normalized like positions
+export interface SavedTerrain {
+  heights: number[]; // Ground elevation above the bottom edge at evenly spaced columns
+  planters: Planter[];
+  platforms: Platform[];
+}
+
+export interface GardenFile {
+  format: 'garden-ai';
+  version: number;
+  savedAt: string; // ISO timestamp
+  plants: SavedPlant[];
+  seeds: SavedSeed[];
+  terrain?: SavedTerrain; // Missing means flat ground
+}
+
+export interface GardenContents {
+  plants: Plant[];
+  seeds: Seed[];
+  terrain: Terrain;
+}
+
+const round = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const roundPoint = (p: Point): Point => ({ x: round(p.x, 1), y: round(p.y, 1) });
+
+export const serializeGarden = (garden: GardenContents, width: number, height: number): GardenFile => ({
+  format: 'garden-ai',
+  version: GARDEN_FORMAT_VERSION,
+  savedAt: new Date().toISOString(),
+  plants: garden.plants.map(plant => ({
+    id: plant.id,
+    species: plant.species,
+    color: plant.color,
+    seed: plant.seed,
+    maxHeight: plant.maxHeight,
+    growthProgress: plant.growthProgress,
+    stage: plant.stage,
+    stageAge: plant.stageAge,
+    florets: round(plant.florets, 2),
+    contributor: plant.contributor,
+    stemControlPoints: plant.stemControlPoints.map(roundPoint),
+    branches: plant.branches.map(branch => ({ ...branch, points: branch.points.map(roundPoint) })),
+    leaves: plant.leaves.map(leaf => ({ ...leaf, ...roundPoint(leaf), angle: round(leaf.angle, 3) })),
+    x: plant.x / width,
+    y: plant.y / height,
+  })),
+  seeds: garden.seeds.map(seed => ({
+    id: seed.id,
+    species: seed.species,
+    color: seed.color,
+    x: seed.x / width,
+    y: seed.y / height,
+    vy: seed.vy,
+    contributor: seed.contributor,
+  })),
+  terrain: {
+    heights: garden.terrain.heights.map(h => round(h / height, 4)),
+    planters: garden.terrain.planters.map(p => ({ ...p, x: p.x / width, width: p.width / width, height: p.height / height })),
+    platforms: garden.terrain.platforms.map(p => ({ ...p, x: p.x / width, y: p.y / height, width: p.width / width })),
+  },
+});
+
+export const deserializeGarden = (file: GardenFile, width: number, height: number): GardenContents => ({
+  plants: file.plants.map(saved => ({
+    id: saved.id,
+    x: saved.x * width,
+    y: saved.y * height,
+    height: 0,
+    maxHeight: saved.maxHeight,
+    growthProgress: saved.growthProgress,
+    species: saved.species,
+    color: saved.color,
+    seed: saved.seed,
+    stemControlPoints: saved.stemControlPoints,
+    branches: saved.branches,
+    leaves: saved.leaves,
+    stage: saved.stage,
+    stageAge: saved.stageAge,
+    florets: saved.florets ?? 1,
+    sway: 0,
+    swayVelocity: 0,
+    contributor: saved.contributor,
+  })),
+  seeds: file.seeds.map(saved => ({
+    id: saved.id,
+    x: saved.x * width,
+    y: saved.y * height,
+    vy: saved.vy,
+    species: saved.species,
+    color: saved.color,
+    isLanded: false,
+    contributor: saved.contributor,
+  })),
+  terrain: file.terrain
+    ? {
+      heights: file.terrain.heights.map(h => h * height),
+      planters: file.terrain.planters.map(p => ({ ...p, x: p.x * width, width: p.width * width, height: p.height * height })),
+      platforms: file.terrain.platforms.map(p => ({ ...p, x: p.x * width, y: p.y * height, width: p.width * width })),
+    }
+    : createTerrain(),
+});
+
+// Validates untrusted JSON (imported file, share code, localStorage) and upgrades old versions
+export const migrateGardenFile = (data: unknown): GardenFile => {
+  const file = data as Partial<GardenFile> | null;
+  if (!file || file.format !== 'garden-ai' || !isFiniteNumber(file.version)) {
+    throw new Error('不是有效的花园文件 (Not a garden file)');
+  }
+  if (file.version > GARDEN_FORMAT_VERSION) {
+    throw new Error(`花园文件版本过新 (Unsupported version ${file.version})`);
+  }
+  if (!Array.isArray(file.plants) || !Array.isArray(file.seeds)) {
+    throw new Error('花园文件已损坏 (Corrupt garden file)');
+  }
+
+  return {
+    format: 'garden-ai',
+    version: GARDEN_FORMAT_VERSION,
+    savedAt: typeof file.savedAt === 'string' ? file.savedAt : new Date().toISOString(),
+    plants: file.plants.filter(isUsablePlant).map((p, i) => ({
+      ...repairPlant(p),
+      id: typeof p.id === 'string' ? p.id : `p${i}`,
+    })),
+    seeds: file.seeds.filter(isUsableSeed).map((s, i) => ({
+      ...repairSeed(s),
+      id: typeof s.id === 'string' ? s.id : `s${i}`,
+    })),
+    // v1–v3 had flat ground
+    terrain: validateTerrain(file.terrain),
+  };
+};
+
+export const parseGardenFile = (text: string): GardenFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('花园文件已损坏 (Invalid JSON)');
+  }
+  return migrateGardenFile(data);
+};
+
+// --- Share codes ---
+// A share code is the garden file packed into positional arrays and base64url encoded.
+// Only landed plants are shared; falling seeds are transient.
+// Stage (index into PLANT_STAGES) and stage age in seconds were appended in v2.
+// Plant structure is left out to keep links short; it is regenerated from the seed on load.
+// Since v4 a third element carries the terrain, only when it isn't flat.
+
+type PackedPlant = [SpeciesId, string, number, number, number, number, number, number?, number?];
+type PackedTerrain = [number[], [number, number, number][], [number, number, number][]];
+
+const isFlat = (terrain: SavedTerrain) =>
+  terrain.planters.length === 0 && terrain.platforms.length === 0 && terrain.heights.every(h => h === terrain.heights[0]);
+
+const packTerrain = ({ heights, planters, platforms }: SavedTerrain): PackedTerrain => [
+  heights.map(h => round(h, 3)),
+  planters.map(p => [round(p.x, 4), round(p.width, 4), round(p.height, 4)]),
+  platforms.map(p => [round(p.x, 4), round(p.y, 4), round(p.width, 4)]),
+];
+
+// Shape is checked by migrateGardenFile; this only has to not throw
+const unpackTerrain = (packed: unknown): Partial<SavedTerrain> | undefined => {
+  if (!Array.isArray(packed)) return undefined;
+  const [heights, planters, platforms] = packed as PackedTerrain;
+  return {
+    heights,
+    planters: Array.isArray(planters)
+      ? planters.filter(Array.isArray).map(([x, width, height], i) => ({ id: `planter${i}`, x, width, height }))
+      : [],
+    platforms: Array.isArray(platforms)
+      ? platforms.filter(Array.isArray).map(([x, y, width], i) => ({ id: `platform${i}`, x, y, width }))
+      : [],
+  };
+};
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (code: string) => {
+  const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export const encodeShareCode = (file: GardenFile): string => {
+  const packed: PackedPlant[] = file.plants.map(p => [
+    p.species,
+    p.color.replace('#', ''),
+    round(p.x, 4),
+    round(p.y, 4),
+    Math.round(p.maxHeight),
+    round(p.growthProgress, 3),
+    round(p.seed, 3),
+    PLANT_STAGES.indexOf(p.stage),
+    round(p.stageAge / 1000, 1),
+  ]);
+  const terrain = file.terrain && !isFlat(file.terrain) ? [packTerrain(file.terrain)] : [];
+  return toBase64Url(JSON.stringify([file.version, packed, ...terrain]));
+};
+
+export const decodeShareCode = (code: string): GardenFile => {
+  let version: unknown;
+  let packed: unknown;
+  let terrain: unknown;
+  try {
+    [version, packed, terrain] = JSON.parse(fromBase64Url(code));
+  } catch {
+    throw new Error('分享码无效 (Invalid share code)');
+  }
+  if (!Array.isArray(packed)) throw new Error('分享码无效 (Invalid share code)');
+
+  return migrateGardenFile({
+    format: 'garden-ai',
+    version,
+    plants: (packed as PackedPlant[]).map(([species, color, x, y, maxHeight, growthProgress, seed, stage, stageAge], i) => ({
+      id: `shared-${i}`,
+      species,
+      color: `#${color}`,
+      x,
+      y,
+      maxHeight,
+      growthProgress,
+      seed,
+      stage: stage === undefined ? undefined : PLANT_STAGES[stage],
+      stageAge: stageAge === undefined ? undefined : stageAge * 1000,
+    })),
+    seeds: [],
+    terrain: unpackTerrain(terrain),
+  });
+};
+
+export const buildShareUrl = (file: GardenFile): string =>
+  `${location.origin}${location.pathname}${location.search}${SHARE_HASH_PREFIX}${encodeShareCode(file)}`;
+
+// Returns the garden encoded in the current URL hash, if any
+export const readShareCodeFromHash = (): GardenFile | null => {
+  if (!location.hash.startsWith(SHARE_HASH_PREFIX)) return null;
+  return decodeShareCode(location.hash.slice(SHARE_HASH_PREFIX.length));
+};
+
+export const clearShareHash = () => {
+  history.replaceState(null, '', `${location.pathname}${location.search}`);
+};
+
+// --- Autosave (localStorage) ---
+
+export const saveAutosave = (file: GardenFile) => {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(file));
+  } catch (err) {
+    // Quota exceeded or storage disabled (private mode); autosave is best-effort
+    console.warn('Autosave failed:', err);
+  }
+};
+
+export const loadAutosave = (): GardenFile | null => {
+  const text = localStorage.getItem(AUTOSAVE_KEY);
+  if (!text) return null;
+  try {
+    return parseGardenFile(text);
+  } catch (err) {
+    console.warn('Discarding unreadable autosave:', err);
+    return null;
+  }
+};
+
+// --- File export/import ---
+
+export const downloadGardenFile = (file: GardenFile) => {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `garden-${fileTimestamp(new Date(file.savedAt))}${GARDEN_FILE_EXTENSION}`);
+};
+
+export const readGardenFile = async (file: File): Promise<GardenFile> => parseGardenFile(await file.text());
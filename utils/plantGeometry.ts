@@ -0,0 +1,101 @@
+import { Plant, Point, SpeciesId } from '../types';
+import { getWiltAmount } from './lifecycle';
+import { growPolyline, pointAlong } from './plantStructure';
+import { getSpecies } from './species/registry';
+
+// Effective progress (growth × height factor) past which the flower head shows, scaling up to full size at 1
+export const HEAD_OPEN_PROGRESS = 0.6;
+
+// Which way a wilting stem droops (-1 or 1), fixed per plant
+export const getDroopSide = (plant: Plant) => Math.sin(plant.seed) >= 0 ? 1 : -1;
+
+// Maps a point of the plant's structure (relative to its base) into canvas px.
+// Wilting bends the plant over and wind sways it: the higher up a point, the further it moves.
+export const toPlantSpace = (plant: Plant, local: Point, wilt = getWiltAmount(plant)): Point => {
+  if (wilt <= 0 && plant.sway === 0) return { x: plant.x + local.x, y: plant.y + local.y };
+  const rise = Math.max(-local.y, 0);
+  const f = Math.min(rise / Math.max(plant.maxHeight, 1), 1);
+  const sway = plant.sway * f * f;
+  return {
+    x: plant.x + local.x + getDroopSide(plant) * wilt * 0.35 * rise * f + sway,
+    // A bent stem keeps its length, so the tip dips a little as it swings out
+    y: plant.y + local.y + wilt * 0.4 * rise * f + (sway * sway) / (2 * Math.max(rise, 1)),
+  };
+};
+
+// Where drawPlant puts the flower head (tip of the grown main stem), for a given global height factor
+export const getPlantHead = (plant: Plant, heightFactor: number): Point => {
+  const grown = Math.min(plant.growthProgress * heightFactor, 1);
+  if (plant.stemControlPoints.length < 2) {
+    return toPlantSpace(plant, { x: 0, y: -plant.maxHeight * grown });
+  }
+  return toPlantSpace(plant, pointAlong(plant.stemControlPoints, grown));
+};
+
+// Shortest distance from a point to the plant's stem (approximated as base → head segment)
+export const distanceToPlant = (point: Point, plant: Plant, heightFactor: number): number => {
+  const head = getPlantHead(plant, heightFactor);
+  const dx = head.x - plant.x;
+  const dy = head.y - plant.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0
+    ? Math.max(0, Math.min(1, ((point.x - plant.x) * dx + (point.y - plant.y) * dy) / lengthSq))
+    : 0;
+  return Math.hypot(point.x - (plant.x + dx * t), point.y - (plant.y + dy * t));
+};
+
+const distanceToSegment = (point: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0
+    ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq))
+    : 0;
+  return Math.hypot(point.x - (a.x + dx * t), point.y - (a.y + dy * t));
+};
+
+// Reach of a full-size open flower head from its centre. Declarative heads are measured;
+// drawn ones declare it (or get a typical size).
+export const getHeadRadius = (species: SpeciesId): number => {
+  const { head, headRadius } = getSpecies(species);
+  if (typeof head === 'function') return headRadius ?? 20;
+  return Math.max(...head.petals.map(layer => layer.length), head.center?.radius ?? 0, 8);
+};
+
+/**
+ * Distance from a point to the plant as drawPlant draws it: the grown stem and branches
+ * (drooped and swayed) plus the flower head at its current size. 0 is a direct hit;
+ * Infinity while nothing of the plant is visible yet.
+ */
+export const hitTestPlant = (point: Point, plant: Plant, heightFactor: number): number => {
+  const progress = plant.growthProgress * heightFactor;
+  if (progress < 0.01) return Infinity;
+
+  const wilt = getWiltAmount(plant);
+  const strokes = [growPolyline(plant.stemControlPoints, progress)];
+  plant.branches.forEach(branch => {
+    if (progress <= branch.start) return;
+    const span = branch.end - branch.start;
+    strokes.push(growPolyline(branch.points, span > 0 ? (progress - branch.start) / span : 1));
+  });
+
+  let best = Infinity;
+  const halfWidth = 2 * progress;
+  strokes.forEach(stroke => {
+    const points = stroke.map(p => toPlantSpace(plant, p, wilt));
+    for (let i = 0; i < points.length - 1; i++) {
+      best = Math.min(best, distanceToSegment(point, points[i], points[i + 1]) - halfWidth);
+    }
+  });
+
+  if (progress > HEAD_OPEN_PROGRESS) {
+    const head = getPlantHead(plant, heightFactor);
+    // Buds and seed heads have fixed sizes (see drawBud, drawSeedHead)
+    const radius = plant.stage === 'sprout' || plant.stage === 'bud' ? 16
+      : plant.stage === 'seedHead' ? 24
+      : getHeadRadius(plant.species);
+    const scale = (progress - HEAD_OPEN_PROGRESS) / (1 - HEAD_OPEN_PROGRESS);
+    best = Math.min(best, Math.hypot(point.x - head.x, point.y - head.y) - radius * scale);
+  }
+  return Math.max(best, 0);
+};
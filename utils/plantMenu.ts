@@ -0,0 +1,112 @@
+import { Plant, Point } from '../types';
+import { getPlantHead } from './plantGeometry';
+
+export type PlantMenuAction = 'delete' | 'recolor' | 'species' | 'move' | 'duplicate';
+
+export interface PlantMenuButton {
+  action: PlantMenuAction;
+  icon: string;
+  label: string;
+  x: number; // Canvas px
+  y: number;
+}
+
+const MENU_ITEMS: Omit<PlantMenuButton, 'x' | 'y'>[] = [
+  { action: 'delete', icon: '🗑️', label: '删除 (Delete)' },
+  { action: 'recolor', icon: '🎨', label: '换色 (Recolor)' },
+  { action: 'species', icon: '🌼', label: '换种 (Species)' },
+  { action: 'move', icon: '✋', label: '移动 (Move)' },
+  { action: 'duplicate', icon: '➕', label: '复制 (Duplicate)' },
+];
+
+const BUTTON_RADIUS = 20;
+const MENU_RADIUS = 70; // px from the flower head to the button centres
+
+// Buttons fanned out above the selected plant's head, kept inside the canvas.
+// The simulation hit-tests pinches against the same layout that App draws.
+export const getPlantMenuLayout = (plant: Plant, heightFactor: number, width: number, height: number): PlantMenuButton[] => {
+  const head = getPlantHead(plant, heightFactor);
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, BUTTON_RADIUS), max - BUTTON_RADIUS);
+  return MENU_ITEMS.map((item, i) => {
+    // Spread over the upper arc, from 150° to 30° above the horizontal
+    const angle = -Math.PI * (5 / 6 - (i / (MENU_ITEMS.length - 1)) * (2 / 3));
+    return {
+      ...item,
+      x: clamp(head.x + Math.cos(angle) * MENU_RADIUS, width),
+      y: clamp(head.y + Math.sin(angle) * MENU_RADIUS, height),
+    };
+  });
+};
+
+export const hitTestPlantMenu = (buttons: PlantMenuButton[], point: Point): PlantMenuButton | null =>
+  buttons.find(button => Math.hypot(point.x - button.x, point.y - button.y) <= BUTTON_RADIUS) ?? null;
+
+// In a mirrored view text is flipped back to read correctly
+const fillUnmirroredText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number) => {
+  ctx.save();
+  ctx.translate(x, y);
+  if (ctx.getTransform().a < 0) ctx.scale(-1, 1);
+  ctx.fillText(text, 0, 0);
+  ctx.restore();
+};
+
+// Round buttons with an icon; the one under `pointer` is highlighted and labelled
+export const drawPlantMenu = (ctx: CanvasRenderingContext2D, buttons: PlantMenuButton[], pointer: Point | null) => {
+  const hovered = pointer ? hitTestPlantMenu(buttons, pointer) : null;
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  buttons.forEach(button => {
+    const isHovered = button === hovered;
+    ctx.beginPath();
+    ctx.arc(button.x, button.y, BUTTON_RADIUS, 0, Math.PI * 2);
+    ctx.fillStyle = isHovered ? 'rgba(34, 197, 94, 0.8)' : 'rgba(0, 0, 0, 0.6)';
+    ctx.fill();
+    ctx.strokeStyle = isHovered ? '#4ade80' : 'rgba(255, 255, 255, 0.4)';
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+
+    ctx.font = '16px sans-serif';
+    ctx.fillStyle = '#ffffff';
+    fillUnmirroredText(ctx, button.icon, button.x, button.y + 1);
+    if (isHovered) {
+      ctx.font = 'bold 11px sans-serif';
+      fillUnmirroredText(ctx, button.label, button.x, button.y - BUTTON_RADIUS - 10);
+    }
+  });
+
+  ctx.restore();
+};
+
+// Where a plant being moved will be replanted: a marker on the ground under the pointer
+export const drawMoveTarget = (ctx: CanvasRenderingContext2D, x: number, groundY: number, color: string) => {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.globalAlpha = 0.8;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(x, groundY - 40);
+  ctx.lineTo(x, groundY - 8);
+  ctx.moveTo(x - 6, groundY - 14);
+  ctx.lineTo(x, groundY - 8);
+  ctx.lineTo(x + 6, groundY - 14);
+  ctx.moveTo(x - 12, groundY);
+  ctx.lineTo(x + 12, groundY);
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Who sowed the selected plant, in a shared garden: a small label beside its base
+export const drawContributorTag = (ctx: CanvasRenderingContext2D, plant: Plant) => {
+  if (!plant.contributor) return;
+  ctx.save();
+  ctx.font = 'bold 11px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+  ctx.shadowBlur = 3;
+  fillUnmirroredText(ctx, `🌱 ${plant.contributor}`, plant.x, plant.y + 6);
+  ctx.restore();
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { expandStructure, generatePlantStructure, growPolyline, LEAF_UNFURL_PROGRESS, pointAlong } from './plantStructure';
+import { listSpecies } from './species/registry';
+
+describe('generatePlantStructure', () => {
+  it('gives the same structure for the same species, seed and height', () => {
+    for (const { id } of listSpecies()) {
+      expect(generatePlantStructure(id, 0.42, 200)).toEqual(generatePlantStructure(id, 0.42, 200));
+    }
+    expect(generatePlantStructure('玫瑰', 0.42, 200)).not.toEqual(generatePlantStructure('玫瑰', 0.43, 200));
+  });
+
+  it('grows a stem from the base up to roughly the plant height', () => {
+    for (const { id } of listSpecies()) {
+      const { stemControlPoints } = generatePlantStructure(id, 0.42, 200);
+      expect(stemControlPoints[0]).toEqual({ x: 0, y: 0 });
+      expect(stemControlPoints.length).toBeGreaterThan(1);
+      const top = stemControlPoints[stemControlPoints.length - 1];
+      expect(-top.y).toBeGreaterThan(150);
+      expect(-top.y).toBeLessThanOrEqual(200);
+    }
+  });
+
+  it('attaches branches and leaves within the growth range', () => {
+    const { branches, leaves } = generatePlantStructure('玫瑰', 0.42, 200);
+    expect(branches.length).toBeGreaterThan(0);
+    expect(leaves.length).toBeGreaterThan(0);
+    branches.forEach(branch => {
+      expect(branch.points.length).toBeGreaterThan(1);
+      expect(branch.start).toBeLessThanOrEqual(branch.end);
+      expect(branch.end).toBeLessThanOrEqual(1);
+    });
+    leaves.forEach(leaf => expect(leaf.appearAt).toBeLessThanOrEqual(1 - LEAF_UNFURL_PROGRESS));
+  });
+});
+
+describe('expandStructure', () => {
+  const structure = { ...listSpecies()[0].structure, axiom: 'A', rules: { A: 'FA' }, iterations: 3 };
+
+  it('rewrites the axiom once per iteration', () => {
+    expect(expandStructure(structure)).toBe('FFFA');
+  });
+
+  it('gives up once the result passes the limit', () => {
+    expect(expandStructure(structure, 3)).toBeNull();
+  });
+});
+
+describe('polylines', () => {
+  const line = [{ x: 0, y: 0 }, { x: 0, y: -10 }, { x: 10, y: -10 }];
+
+  it('interpolates between evenly spaced points', () => {
+    expect(pointAlong(line, 0)).toEqual({ x: 0, y: 0 });
+    expect(pointAlong(line, 0.25)).toEqual({ x: 0, y: -5 });
+    expect(pointAlong(line, 0.75)).toEqual({ x: 5, y: -10 });
+    expect(pointAlong(line, 2)).toEqual({ x: 10, y: -10 });
+  });
+
+  it('grows whole points plus the partial tip', () => {
+    expect(growPolyline(line, 0)).toEqual([{ x: 0, y: 0 }]);
+    expect(growPolyline(line, 0.75)).toEqual([{ x: 0, y: 0 }, { x: 0, y: -10 }, { x: 5, y: -10 }]);
+    expect(growPolyline(line, 1)).toEqual(line);
+  });
+});
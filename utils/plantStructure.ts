@@ -0,0 +1,136 @@
+import { PlantBranch, PlantLeaf, Point, SpeciesId } from '../types';
+import { createRandom } from './random';
+import { getSpecies } from './species/registry';
+import { StemStructure } from './species/types';
+
+export interface PlantStructure {
+  stemControlPoints: Point[];
+  branches: PlantBranch[];
+  leaves: PlantLeaf[];
+}
+
+// Rewrites the axiom `iterations` times. Returns null if the result would exceed `limit` symbols.
+export const expandStructure = (structure: StemStructure, limit = Infinity): string | null => {
+  let result = structure.axiom;
+  for (let i = 0; i < structure.iterations; i++) {
+    result = result.split('').map(symbol => structure.rules[symbol] ?? symbol).join('');
+    if (result.length > limit) return null;
+  }
+  return result;
+};
+
+// Growth a leaf takes to unfurl after its attachment point is reached
+export const LEAF_UNFURL_PROGRESS = 0.15;
+
+/**
+ * Builds the full-grown structure for a plant from its species' L-system. Deterministic for
+ * a given species, seed and height, so a plant can always be regenerated; it is still stored
+ * on the plant so saved gardens keep their look if the rules change.
+ */
+export const generatePlantStructure = (species: SpeciesId, seed: number, maxHeight: number): PlantStructure => {
+  const system = getSpecies(species).structure;
+  const random = createRandom(Math.floor(seed * 1e6));
+  const program = expandStructure(system) ?? '';
+
+  // Main-stem segments share the height evenly; each takes an equal slice of growthProgress
+  let mainSegments = 0;
+  let depth = 0;
+  for (const symbol of program) {
+    if (symbol === '[') depth++;
+    else if (symbol === ']') depth--;
+    else if (symbol === 'F' && depth === 0) mainSegments++;
+  }
+  mainSegments = Math.max(mainSegments, 1);
+  const segmentLength = maxHeight / mainSegments;
+  const segmentProgress = 1 / mainSegments;
+
+  interface Turtle { x: number; y: number; heading: number; depth: number; progress: number; branch: PlantBranch | null }
+  let turtle: Turtle = { x: 0, y: 0, heading: (random() - 0.5) * 0.15, depth: 0, progress: 0, branch: null };
+  const stack: Turtle[] = [];
+
+  const stemControlPoints: Point[] = [{ x: 0, y: 0 }];
+  const branches: PlantBranch[] = [];
+  const leaves: PlantLeaf[] = [];
+  let leafSide = random() < 0.5 ? 1 : -1;
+
+  const turn = (direction: number) => {
+    turtle.heading += direction * system.angle * (0.8 + random() * 0.4);
+  };
+
+  for (const symbol of program) {
+    switch (symbol) {
+      case 'F': {
+        const length = segmentLength * system.branchScale ** turtle.depth;
+        turtle.heading += (random() - 0.5) * 2 * system.curl;
+        // Keep the main stem from wandering off sideways
+        if (turtle.depth === 0) turtle.heading *= 0.7;
+        turtle.x += Math.sin(turtle.heading) * length;
+        turtle.y -= Math.cos(turtle.heading) * length;
+        turtle.progress = Math.min(turtle.progress + segmentProgress, 1);
+        if (turtle.branch) {
+          turtle.branch.points.push({ x: turtle.x, y: turtle.y });
+          turtle.branch.end = turtle.progress;
+        } else {
+          stemControlPoints.push({ x: turtle.x, y: turtle.y });
+        }
+        break;
+      }
+      case '+': turn(1); break;
+      case '-': turn(-1); break;
+      case '[': {
+        stack.push(turtle);
+        const branch: PlantBranch = { points: [{ x: turtle.x, y: turtle.y }], start: turtle.progress, end: turtle.progress };
+        branches.push(branch);
+        turtle = { ...turtle, depth: turtle.depth + 1, branch };
+        break;
+      }
+      case ']': {
+        const parent = stack.pop();
+        if (parent) turtle = parent;
+        break;
+      }
+      case 'L': {
+        // Leaves alternate sides along a stem; on a branch they follow its direction
+        const side = turtle.branch ? Math.sign(turtle.heading) || 1 : (leafSide = -leafSide);
+        const length = system.leafLength * (0.75 + random() * 0.5);
+        leaves.push({
+          x: turtle.x,
+          y: turtle.y,
+          angle: turtle.heading + side * system.leafAngle * (0.8 + random() * 0.4),
+          length,
+          width: length * system.leafAspect,
+          shape: system.leafShape,
+          // Leaves at the very tip still need room to unfurl before growth tops out
+          appearAt: Math.min(turtle.progress, 1 - LEAF_UNFURL_PROGRESS),
+        });
+        break;
+      }
+    }
+  }
+
+  // Branches with no segments only existed to angle their leaves
+  return { stemControlPoints, branches: branches.filter(b => b.points.length > 1), leaves };
+};
+
+// Point at `t` (0..1) along a polyline whose points are evenly spaced in t
+export const pointAlong = (points: Point[], t: number): Point => {
+  if (points.length === 0) return { x: 0, y: 0 };
+  if (points.length === 1 || t <= 0) return points[0];
+  const position = Math.min(t, 1) * (points.length - 1);
+  const i = Math.min(Math.floor(position), points.length - 2);
+  const f = position - i;
+  return {
+    x: points[i].x + (points[i + 1].x - points[i].x) * f,
+    y: points[i].y + (points[i + 1].y - points[i].y) * f,
+  };
+};
+
+// The part of a polyline grown by `t`: whole points up to t plus the partial tip
+export const growPolyline = (points: Point[], t: number): Point[] => {
+  if (points.length < 2 || t <= 0) return points.slice(0, 1);
+  const position = Math.min(t, 1) * (points.length - 1);
+  const whole = Math.floor(position);
+  const grown = points.slice(0, whole + 1);
+  if (position > whole) grown.push(pointAlong(points, t));
+  return grown;
+};
@@ -0,0 +1,25 @@
+export type Random = () => number;
+
+// Mulberry32: tiny, fast and fully deterministic for a given seed.
+// Good enough for visual variation; not meant for anything security related.
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Short base-36 id drawn from the given generator
+export const randomId = (random: Random): string =>
+  Math.floor(random() * 0x7fffffff).toString(36) + Math.floor(random() * 0x7fffffff).toString(36);
+
+// Stable 32-bit hash of a string, e.g. to seed a generator from an id
+export const hashString = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  return hash;
+};
@@ -0,0 +1,98 @@
+import { HudBar, drawHud } from './hud';
+import { downloadBlob, fileTimestamp } from './download';
+import { ViewMapping } from './coordinates';
+
+export interface RecordingOptions {
+  includeVideo: boolean; // Composite the webcam frame behind the garden
+  includeHud: boolean; // Paint the pinch/growth/clear HUD into the clip
+}
+
+export interface CompositeSources {
+  video: HTMLVideoElement | null;
+  garden: HTMLCanvasElement; // The live canvas, already in screen layout
+  view: ViewMapping; // How the video is laid out on screen; also sizes the HUD like on screen
+  hud: HudBar[];
+}
+
+const RECORDING_FPS = 30;
+const MIME_CANDIDATES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+/**
+ * The on-screen view is a <video>, the garden <canvas> and a DOM HUD stacked on top of
+ * each other. This composites them into one canvas every frame, as laid out on screen
+ * (start it at the view's CSS size), and records that canvas's stream with MediaRecorder.
+ */
+export class SessionRecorder {
+  private canvas = document.createElement('canvas');
+  private ctx = this.canvas.getContext('2d');
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private options: RecordingOptions = { includeVideo: true, includeHud: true };
+  startedAt = 0;
+
+  get isRecording() {
+    return this.recorder?.state === 'recording';
+  }
+
+  start(width: number, height: number, options: RecordingOptions) {
+    if (this.isRecording) return;
+    if (!isRecordingSupported()) throw new Error('此浏览器不支持录制 (Recording not supported)');
+
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.options = options;
+    this.chunks = [];
+
+    const mimeType = MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(this.canvas.captureStream(RECORDING_FPS), mimeType ? { mimeType } : undefined);
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    this.recorder.start(1000); // Flush a chunk every second so long sessions don't pile up in one buffer
+    this.startedAt = performance.now();
+  }
+
+  // Call once per rendered frame while recording
+  drawFrame(sources: CompositeSources) {
+    const ctx = this.ctx;
+    if (!ctx || !this.isRecording) return;
+    const { width, height } = this.canvas;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+
+    // The video frame spans the garden's world, so it goes through the same mapping as the garden
+    const { view } = sources;
+    const scale = width / Math.max(1, view.view.width);
+    if (this.options.includeVideo && sources.video && sources.video.readyState >= 2) {
+      ctx.setTransform(...view.transform(scale));
+      ctx.drawImage(sources.video, 0, 0, view.world.width, view.world.height);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+    }
+    ctx.drawImage(sources.garden, 0, 0, width, height);
+
+    if (this.options.includeHud) drawHud(ctx, sources.hud, scale);
+  }
+
+  // Stops recording and downloads the clip
+  stop(): Promise<void> {
+    const recorder = this.recorder;
+    if (!recorder || recorder.state === 'inactive') return Promise.resolve();
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        const blob = new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' });
+        this.chunks = [];
+        this.recorder = null;
+        downloadBlob(blob, `garden-${fileTimestamp()}.webm`);
+        resolve();
+      };
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    });
+  }
+}
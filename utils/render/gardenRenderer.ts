@@ -0,0 +1,287 @@
+import { Particle, Plant, Point, RendererKind, Terrain } from '../../types';
+import { drawParticle, drawPlant, drawSeed, drawTerrain, getParticleAngle, HeadPainter } from '../drawing';
+import { getBloomOpenness, getDecayAmount, getWiltAmount } from '../lifecycle';
+import { Transform, ViewMapping } from '../coordinates';
+import { getHeadRadius, getPlantHead, toPlantSpace } from '../plantGeometry';
+import { GardenState } from '../simulation';
+import { currentScale, PARTICLE_SPRITE_SIZE, SpriteCache } from './spriteCache';
+import { InstancedSpriteRenderer } from './webglSprites';
+
+const SETTLE_FRAMES = 30; // Frames a plant has to look the same (sway aside) before it is drawn from a sprite
+const MAX_BAKES_PER_FRAME = 40; // Plant sprites rendered per frame at most, so a whole garden settling doesn't stall
+const MAX_SPRITE_PIXELS = 48_000_000; // Memory cap for plant sprites (4 bytes a pixel); plants beyond it are drawn live
+const SPRITE_MARGIN = 4; // px around a plant's extent, for stroke widths and antialiasing
+const HEAD_REACH = 28; // px a bud or dandelion clock reaches from the stem tip
+
+interface PlantLook {
+  signature: string;
+  stillFrames: number;
+}
+
+// Everything drawPlant reads except the sway, which is applied when the sprite is drawn, rounded to what
+// can show on screen
+const plantSignature = (plant: Plant) => [
+  plant.x.toFixed(1), plant.y.toFixed(1), plant.growthProgress.toFixed(4), plant.stage, plant.species, plant.color,
+  getBloomOpenness(plant).toFixed(2), getWiltAmount(plant).toFixed(3), getDecayAmount(plant).toFixed(3),
+  plant.florets.toFixed(3), (plant.crowding ?? 0).toFixed(1), plant.stemControlPoints.length, plant.leaves.length,
+].join('|');
+
+const terrainSignature = (terrain: Terrain) =>
+  `${terrain.heights.map(h => h.toFixed(1)).join()}|${terrain.planters.map(p => `${p.x},${p.width},${p.height}`).join()}|` +
+  terrain.platforms.map(p => `${p.x},${p.y},${p.width}`).join();
+
+// A settled plant rendered upright (without sway) around its base, in garden px
+interface PlantSprite {
+  canvas: HTMLCanvasElement;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  head: Point; // Where the upright head is, relative to the base, to turn the sway into a rotation
+  pixels: number;
+  frame: number; // Last frame it was drawn; sprites of removed plants are dropped
+}
+
+// Rotation about the base that takes the upright head to where the swayed one is
+const swayAngle = (plant: Plant, sprite: PlantSprite, heightFactor: number) => {
+  const head = getPlantHead(plant, heightFactor);
+  return Math.atan2(head.x - plant.x, plant.y - head.y) - Math.atan2(sprite.head.x, -sprite.head.y);
+};
+
+const clearLayer = (ctx: CanvasRenderingContext2D) => {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.restore();
+};
+
+const createLayer = () => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  return { canvas, ctx };
+};
+
+/**
+ * Draws the garden onto the live canvas, fast enough for thousands of plants:
+ * - flower and seed heads are cached sprites instead of vector paths
+ * - the terrain is baked into a static layer that is blitted each frame
+ * - plants that haven't changed for a while (apart from swaying) are rendered upright into a sprite of
+ *   their own, which is drawn rotated about the base by the current sway; leaves don't flutter then.
+ *   Only plants that are growing or aging are redrawn as paths.
+ * - with the 'webgl' kind, heads and particles of the redrawn part go through one instanced
+ *   WebGL draw, composited on top of the stems
+ * Everything is drawn in garden coordinates through the view's transform, so the layers and
+ * sprites are at the canvas's full (device pixel) resolution. Exports keep using drawPlant with
+ * vector heads.
+ */
+export class GardenRenderer {
+  private sprites = new SpriteCache();
+  private gl: InstancedSpriteRenderer | null = null;
+  private requested: RendererKind = 'canvas';
+  private terrainLayer = createLayer();
+  private terrainKey = '';
+  private plantSprites = new Map<Plant, PlantSprite>();
+  private spritePixels = 0;
+  private sizeKey = '';
+  private looks = new WeakMap<Plant, PlantLook>();
+  private frame = 0;
+
+  constructor(private ctx: CanvasRenderingContext2D) {}
+
+  get kind(): RendererKind {
+    return this.gl ? 'webgl' : 'canvas';
+  }
+
+  // Switches between the canvas and WebGL paths; returns the kind actually in use. Cheap to call every
+  // frame: a failed WebGL start isn't retried until another kind is asked for in between.
+  setKind(kind: RendererKind): RendererKind {
+    if (kind === this.requested) return this.kind;
+    this.requested = kind;
+    if (kind === 'webgl' && !this.gl) {
+      this.gl = InstancedSpriteRenderer.create();
+    } else if (kind === 'canvas' && this.gl) {
+      this.gl.dispose();
+      this.gl = null;
+    }
+    return this.kind;
+  }
+
+  // Drops every cache, e.g. after species definitions changed
+  invalidate() {
+    this.sprites.clear();
+    this.gl?.resetAtlas();
+    this.sizeKey = '';
+    this.terrainKey = '';
+  }
+
+  // Expects ctx to hold the view's transform already (for the overlays drawn around this)
+  render(garden: GardenState, heightFactor: number, view: ViewMapping) {
+    const { ctx } = this;
+    const { width, height } = view.world;
+    const transform = view.transform();
+    this.frame++;
+
+    const sizeKey = `${ctx.canvas.width}x${ctx.canvas.height}|${transform.join()}|${heightFactor}`;
+    const resized = sizeKey !== this.sizeKey;
+    if (resized) {
+      this.sizeKey = sizeKey;
+      this.plantSprites.clear();
+      this.spritePixels = 0;
+      this.terrainLayer.canvas.width = ctx.canvas.width;
+      this.terrainLayer.canvas.height = ctx.canvas.height;
+      this.terrainLayer.ctx.setTransform(...transform);
+    }
+
+    const terrainKey = terrainSignature(garden.terrain);
+    if (resized || terrainKey !== this.terrainKey) {
+      this.terrainKey = terrainKey;
+      clearLayer(this.terrainLayer.ctx);
+      drawTerrain(this.terrainLayer.ctx, garden.terrain, width, height);
+    }
+
+    // Sort plants into settled (drawn from their sprite) and moving (drawn as paths this frame)
+    const resolution = Math.hypot(transform[0], transform[1]);
+    let bakes = 0;
+    const settled: [Plant, PlantSprite][] = [];
+    const moving: Plant[] = [];
+    garden.plants.forEach(plant => {
+      const signature = plantSignature(plant);
+      const look = this.looks.get(plant);
+      const isStill = !!look && look.signature === signature && ++look.stillFrames >= SETTLE_FRAMES;
+      if (!look || look.signature !== signature) this.looks.set(plant, { signature, stillFrames: 0 });
+
+      let sprite = this.plantSprites.get(plant);
+      if (sprite && !isStill) {
+        // Changed since it was rendered
+        this.dropSprite(plant, sprite);
+        sprite = undefined;
+      } else if (!sprite && isStill && bakes < MAX_BAKES_PER_FRAME) {
+        sprite = this.bakePlant(plant, heightFactor, resolution);
+        // Out of memory for sprites: the rest wait until some are released
+        bakes = sprite ? bakes + 1 : MAX_BAKES_PER_FRAME;
+      }
+      if (sprite) {
+        sprite.frame = this.frame;
+        settled.push([plant, sprite]);
+      } else {
+        moving.push(plant);
+      }
+    });
+    // Plants removed from the garden
+    this.plantSprites.forEach((sprite, plant) => {
+      if (sprite.frame !== this.frame) this.dropSprite(plant, sprite);
+    });
+
+    // The terrain layer is already in canvas pixels
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(this.terrainLayer.canvas, 0, 0);
+    ctx.restore();
+
+    // Each sprite rotated about the plant's base, then the view transform
+    const [a, b, c, d, e, f] = transform;
+    settled.forEach(([plant, sprite]) => {
+      const angle = swayAngle(plant, sprite, heightFactor);
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      ctx.setTransform(
+        a * cos + c * sin, b * cos + d * sin, -a * sin + c * cos, -b * sin + d * cos,
+        a * plant.x + c * plant.y + e, b * plant.x + d * plant.y + f,
+      );
+      ctx.drawImage(sprite.canvas, sprite.left, sprite.top, sprite.width, sprite.height);
+    });
+    ctx.setTransform(...transform);
+
+    garden.seeds.forEach(seed => drawSeed(ctx, seed));
+
+    const gl = this.gl;
+    if (gl) {
+      gl.begin(ctx.canvas.width, ctx.canvas.height);
+      garden.particles.forEach(p => this.pushParticle(gl, p, transform));
+      const heads = this.instancedHeads(gl);
+      moving.forEach(plant => drawPlant(ctx, plant, heightFactor, heads));
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.drawImage(gl.flush(), 0, 0);
+      ctx.restore();
+    } else {
+      garden.particles.forEach(p => drawParticle(ctx, p));
+      const heads = this.sprites.painterFor(ctx);
+      moving.forEach(plant => drawPlant(ctx, plant, heightFactor, heads));
+    }
+  }
+
+  dispose() {
+    this.gl?.dispose();
+    this.gl = null;
+  }
+
+  // Renders the plant upright into a sprite of its own; nothing if that would go over the memory cap
+  private bakePlant(plant: Plant, heightFactor: number, resolution: number): PlantSprite | undefined {
+    const upright = { ...plant, x: 0, y: 0, sway: 0, swayVelocity: 0 };
+    const wilt = getWiltAmount(plant);
+    const head = getPlantHead(upright, heightFactor);
+    // Circles covering everything drawPlant draws: stems, leaves turning about their base, the head
+    const extent = [
+      ...[plant.stemControlPoints, ...plant.branches.map(branch => branch.points)].flat()
+        .map(point => ({ ...toPlantSpace(upright, point, wilt), reach: SPRITE_MARGIN })),
+      ...plant.leaves.map(leaf => ({ ...toPlantSpace(upright, leaf, wilt), reach: leaf.length + SPRITE_MARGIN })),
+      { ...head, reach: Math.max(getHeadRadius(plant.species) * 1.25 + 4, HEAD_REACH) + SPRITE_MARGIN },
+    ];
+    const left = Math.min(...extent.map(p => p.x - p.reach));
+    const top = Math.min(...extent.map(p => p.y - p.reach));
+    const width = Math.max(...extent.map(p => p.x + p.reach)) - left;
+    const height = Math.max(...extent.map(p => p.y + p.reach)) - top;
+
+    const pixelWidth = Math.ceil(width * resolution);
+    const pixelHeight = Math.ceil(height * resolution);
+    const pixels = pixelWidth * pixelHeight;
+    if (this.spritePixels + pixels > MAX_SPRITE_PIXELS) return undefined;
+
+    const { canvas, ctx } = createLayer();
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+    ctx.scale(pixelWidth / width, pixelHeight / height);
+    ctx.translate(-left, -top);
+    drawPlant(ctx, upright, heightFactor, this.sprites.painterFor(ctx));
+
+    const sprite = { canvas, left, top, width, height, head, pixels, frame: this.frame };
+    this.plantSprites.set(plant, sprite);
+    this.spritePixels += pixels;
+    return sprite;
+  }
+
+  private dropSprite(plant: Plant, sprite: PlantSprite) {
+    this.plantSprites.delete(plant);
+    this.spritePixels -= sprite.pixels;
+  }
+
+  // Queues heads for the instanced draw instead of drawing them, at the transform drawPlant set up
+  private instancedHeads(gl: InstancedSpriteRenderer): HeadPainter {
+    const { ctx, sprites } = this;
+    return {
+      flower: (_, species, color) =>
+        gl.push(sprites.flower(species, color, currentScale(ctx)), ctx.getTransform(), ctx.globalAlpha),
+      seedHead: (_, florets) =>
+        gl.push(sprites.seedHead(florets, currentScale(ctx)), ctx.getTransform(), ctx.globalAlpha),
+    };
+  }
+
+  private pushParticle(gl: InstancedSpriteRenderer, particle: Particle, [a, b, c, d, e, f]: Transform) {
+    const scale = particle.size / PARTICLE_SPRITE_SIZE;
+    const angle = particle.kind === 'petal' ? getParticleAngle(particle) : 0;
+    const cos = Math.cos(angle) * scale;
+    const sin = Math.sin(angle) * scale;
+    // The particle's own rotation and size, then the view transform
+    gl.push(
+      this.sprites.particle(particle.kind, scale * Math.hypot(a, b)),
+      {
+        a: a * cos + c * sin, b: b * cos + d * sin, c: -a * sin + c * cos, d: -b * sin + d * cos,
+        e: a * particle.x + c * particle.y + e, f: b * particle.x + d * particle.y + f,
+      },
+      Math.min(Math.max(particle.life, 0), 1),
+      particle.color,
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { Particle, SpeciesId } from '../../types';
+import { drawParticleShape, HeadPainter, VECTOR_HEADS } from '../drawing';
+import { getHeadRadius } from '../plantGeometry';
+
+// A pre-rendered bitmap, drawn centred on the origin and `radius` units out to each edge
+export interface Sprite {
+  key: string;
+  canvas: HTMLCanvasElement;
+  radius: number;
+}
+
+const MAX_SPRITES = 256; // Least recently used sprites are dropped beyond this
+const SCALE_STEPS = 2; // Resolutions per doubling of the on-screen scale
+const MIN_SCALE = 1 / 8;
+const MAX_SCALE = 4;
+const SEED_HEAD_RADIUS = 28; // drawSeedHead reaches 25.5 px
+const FLORET_STEPS = 48; // drawSeedHead has 48 pappus lines, so florets only matter to 1/48
+export const PARTICLE_SPRITE_SIZE = 8; // Particle sprites are drawn at this size and scaled to each particle
+
+// On-screen scale of the current transform
+export const currentScale = (ctx: CanvasRenderingContext2D) => {
+  const { a, b } = ctx.getTransform();
+  return Math.hypot(a, b);
+};
+
+// Snaps to a power of √2 so a plant growing or a head opening reuses a handful of sizes
+const quantizeScale = (scale: number) => {
+  const clamped = Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+  return 2 ** (Math.round(Math.log2(clamped) * SCALE_STEPS) / SCALE_STEPS);
+};
+
+/**
+ * Flower heads, seed heads and particle shapes rendered once per species, colour and scale,
+ * then blitted. A dandelion clock is ~100 path operations as vectors and one drawImage as a sprite.
+ */
+export class SpriteCache {
+  private sprites = new Map<string, Sprite>();
+
+  flower(species: SpeciesId, color: string, scale: number): Sprite {
+    const radius = Math.max(getHeadRadius(species) * 1.25, 12) + 4;
+    return this.get(`flower:${species}:${color}`, radius, scale, ctx => VECTOR_HEADS.flower(ctx, species, color));
+  }
+
+  seedHead(florets: number, scale: number): Sprite {
+    const steps = Math.round(florets * FLORET_STEPS);
+    return this.get(`seedHead:${steps}`, SEED_HEAD_RADIUS, scale, ctx => VECTOR_HEADS.seedHead(ctx, steps / FLORET_STEPS));
+  }
+
+  // White, to be tinted with the particle's colour (WebGL path)
+  particle(kind: Particle['kind'], scale: number): Sprite {
+    return this.get(`particle:${kind ?? 'fragment'}`, PARTICLE_SPRITE_SIZE * 1.5, scale,
+      ctx => drawParticleShape(ctx, kind, PARTICLE_SPRITE_SIZE, '#ffffff'));
+  }
+
+  // Draws heads as sprites into `ctx`, at the resolution its current transform needs
+  painterFor(ctx: CanvasRenderingContext2D): HeadPainter {
+    const blit = (sprite: Sprite) =>
+      ctx.drawImage(sprite.canvas, -sprite.radius, -sprite.radius, sprite.radius * 2, sprite.radius * 2);
+    return {
+      flower: (_, species, color) => blit(this.flower(species, color, currentScale(ctx))),
+      seedHead: (_, florets) => blit(this.seedHead(florets, currentScale(ctx))),
+    };
+  }
+
+  // Species definitions changed (a pack was loaded): heads have to be redrawn
+  clear() {
+    this.sprites.clear();
+  }
+
+  private get(name: string, radius: number, scale: number, draw: (ctx: CanvasRenderingContext2D) => void): Sprite {
+    const resolution = quantizeScale(scale);
+    const key = `${name}@${resolution}`;
+    let sprite = this.sprites.get(key);
+    if (sprite) {
+      // Move to the back of the map, which is kept in least-recently-used order
+      this.sprites.delete(key);
+      this.sprites.set(key, sprite);
+      return sprite;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = Math.max(1, Math.ceil(radius * 2 * resolution));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available');
+    ctx.scale(resolution, resolution);
+    ctx.translate(radius, radius);
+    draw(ctx);
+
+    sprite = { key, canvas, radius };
+    this.sprites.set(key, sprite);
+    if (this.sprites.size > MAX_SPRITES) this.sprites.delete(this.sprites.keys().next().value!);
+    return sprite;
+  }
+}
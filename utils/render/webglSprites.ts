@@ -0,0 +1,242 @@
+import { Sprite } from './spriteCache';
+
+const ATLAS_SIZE = 2048;
+const FLOATS_PER_INSTANCE = 15; // 2×3 transform, atlas rect, radius, tint
+const INITIAL_INSTANCES = 4096;
+
+const VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 corner;
+layout(location = 1) in vec3 row0; // a c e
+layout(location = 2) in vec3 row1; // b d f
+layout(location = 3) in vec4 rect; // u0 v0 u1 v1
+layout(location = 4) in float radius;
+layout(location = 5) in vec4 tint; // Premultiplied
+uniform vec2 resolution;
+out vec2 uv;
+out vec4 color;
+void main() {
+  vec3 local = vec3(corner * radius, 1.0);
+  vec2 position = vec2(dot(row0, local), dot(row1, local));
+  gl_Position = vec4(position / resolution * vec2(2.0, -2.0) + vec2(-1.0, 1.0), 0.0, 1.0);
+  uv = mix(rect.xy, rect.zw, corner * 0.5 + 0.5);
+  color = tint;
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+uniform sampler2D atlas;
+in vec2 uv;
+in vec4 color;
+out vec4 fragColor;
+void main() {
+  fragColor = texture(atlas, uv) * color;
+}`;
+
+interface AtlasRect {
+  u0: number;
+  v0: number;
+  u1: number;
+  v1: number;
+}
+
+// '#rrggbb' → [r, g, b] in 0..1; anything else is treated as white
+const parseColor = (color: string): [number, number, number] => {
+  const match = /^#([0-9a-f]{6})$/i.exec(color);
+  if (!match) return [1, 1, 1];
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+};
+
+export const isWebGLAvailable = (): boolean => {
+  try {
+    return !!document.createElement('canvas').getContext('webgl2');
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Draws many sprites in a single instanced WebGL2 call. Sprites are packed into one atlas
+ * texture on first use; each instance carries its own 2D transform, so callers can hand over
+ * the canvas transform they would have drawn the sprite with. The result is composited onto
+ * the 2D canvas with drawImage.
+ */
+export class InstancedSpriteRenderer {
+  readonly canvas = document.createElement('canvas');
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram;
+  private texture: WebGLTexture;
+  private instanceBuffer: WebGLBuffer;
+  private resolutionLocation: WebGLUniformLocation | null;
+  private instances = new Float32Array(INITIAL_INSTANCES * FLOATS_PER_INSTANCE);
+  private count = 0;
+  private atlas = new Map<string, AtlasRect>();
+  // Shelf packing: sprites fill rows left to right, a new row starts below the tallest so far
+  private shelfX = 0;
+  private shelfY = 0;
+  private shelfHeight = 0;
+  private colors = new Map<string, [number, number, number]>();
+
+  // Returns null where WebGL2 isn't available
+  static create(): InstancedSpriteRenderer | null {
+    try {
+      return new InstancedSpriteRenderer();
+    } catch (err) {
+      console.warn('WebGL renderer unavailable:', err);
+      return null;
+    }
+  }
+
+  private constructor() {
+    const gl = this.canvas.getContext('webgl2', { premultipliedAlpha: true, preserveDrawingBuffer: true });
+    if (!gl) throw new Error('WebGL2 is not available');
+    this.gl = gl;
+
+    this.program = this.createProgram();
+    this.resolutionLocation = gl.getUniformLocation(this.program, 'resolution');
+
+    const vao = gl.createVertexArray();
+    gl.bindVertexArray(vao);
+    const cornerBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    const instanceBuffer = gl.createBuffer();
+    if (!instanceBuffer) throw new Error('WebGL buffer allocation failed');
+    this.instanceBuffer = instanceBuffer;
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+    const stride = FLOATS_PER_INSTANCE * 4;
+    [[1, 3, 0], [2, 3, 3], [3, 4, 6], [4, 1, 10], [5, 4, 11]].forEach(([location, size, offset]) => {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4);
+      gl.vertexAttribDivisor(location, 1);
+    });
+
+    const texture = gl.createTexture();
+    if (!texture) throw new Error('WebGL texture allocation failed');
+    this.texture = texture;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA8, ATLAS_SIZE, ATLAS_SIZE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  // Starts a frame the size of the target canvas
+  begin(width: number, height: number) {
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    this.count = 0;
+  }
+
+  // Queues `sprite` under the transform [a c e; b d f], faded by `alpha` and tinted by `color`
+  push(sprite: Sprite, transform: DOMMatrix2DInit, alpha: number, color = '#ffffff') {
+    const rect = this.place(sprite);
+    if (!rect) return;
+    if ((this.count + 1) * FLOATS_PER_INSTANCE > this.instances.length) {
+      const grown = new Float32Array(this.instances.length * 2);
+      grown.set(this.instances);
+      this.instances = grown;
+    }
+    let rgb = this.colors.get(color);
+    if (!rgb) {
+      rgb = parseColor(color);
+      this.colors.set(color, rgb);
+    }
+    const { a = 1, b = 0, c = 0, d = 1, e = 0, f = 0 } = transform;
+    const data = this.instances;
+    let i = this.count * FLOATS_PER_INSTANCE;
+    data[i++] = a; data[i++] = c; data[i++] = e;
+    data[i++] = b; data[i++] = d; data[i++] = f;
+    data[i++] = rect.u0; data[i++] = rect.v0; data[i++] = rect.u1; data[i++] = rect.v1;
+    data[i++] = sprite.radius;
+    data[i++] = rgb[0] * alpha; data[i++] = rgb[1] * alpha; data[i++] = rgb[2] * alpha; data[i] = alpha;
+    this.count++;
+  }
+
+  // Draws everything queued since begin() and returns the canvas to composite
+  flush(): HTMLCanvasElement {
+    const { gl } = this;
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    if (this.count > 0) {
+      gl.useProgram(this.program);
+      gl.uniform2f(this.resolutionLocation, this.canvas.width, this.canvas.height);
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, this.instances.subarray(0, this.count * FLOATS_PER_INSTANCE), gl.DYNAMIC_DRAW);
+      gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, this.count);
+    }
+    return this.canvas;
+  }
+
+  // Forgets every packed sprite, e.g. after the sprite cache was cleared
+  resetAtlas() {
+    this.atlas.clear();
+    this.shelfX = this.shelfY = this.shelfHeight = 0;
+  }
+
+  dispose() {
+    this.gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+
+  // Atlas position of a sprite, uploading it first if needed; null if it can't fit
+  private place(sprite: Sprite): AtlasRect | null {
+    const existing = this.atlas.get(sprite.key);
+    if (existing) return existing;
+
+    const { width, height } = sprite.canvas;
+    if (width > ATLAS_SIZE || height > ATLAS_SIZE) return null;
+    if (this.shelfX + width > ATLAS_SIZE) {
+      this.shelfX = 0;
+      this.shelfY += this.shelfHeight;
+      this.shelfHeight = 0;
+    }
+    if (this.shelfY + height > ATLAS_SIZE) {
+      // Full: start over. Sprites already queued this frame may show stale pixels for one frame.
+      this.resetAtlas();
+    }
+
+    const { gl } = this;
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.texSubImage2D(gl.TEXTURE_2D, 0, this.shelfX, this.shelfY, gl.RGBA, gl.UNSIGNED_BYTE, sprite.canvas);
+    const rect = {
+      u0: this.shelfX / ATLAS_SIZE,
+      v0: this.shelfY / ATLAS_SIZE,
+      u1: (this.shelfX + width) / ATLAS_SIZE,
+      v1: (this.shelfY + height) / ATLAS_SIZE,
+    };
+    this.atlas.set(sprite.key, rect);
+    this.shelfX += width;
+    this.shelfHeight = Math.max(this.shelfHeight, height);
+    return rect;
+  }
+
+  private createProgram(): WebGLProgram {
+    const { gl } = this;
+    const compile = (type: number, source: string) => {
+      const shader = gl.createShader(type);
+      if (!shader) throw new Error('WebGL shader allocation failed');
+      gl.shaderSource(shader, source);
+      gl.compileShader(shader);
+      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(shader) ?? 'Shader error');
+      return shader;
+    };
+    const program = gl.createProgram();
+    if (!program) throw new Error('WebGL program allocation failed');
+    gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(gl.getProgramInfoLog(program) ?? 'Link error');
+    return program;
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { InteractionState, PlantConfig } from '../types';
+import { FIXED_TIMESTEP, GardenSimulation } from './simulation';
+import { createInteractionState } from './input/types';
+import { DEFAULT_GESTURE_THRESHOLDS } from './gestures';
+
+const config: PlantConfig = {
+  selectedSpecies: 'Random',
+  growthHeightFactor: 1,
+  gestures: DEFAULT_GESTURE_THRESHOLDS,
+  growthMode: 'all',
+  focusSource: 'face',
+  focusRadius: 150,
+  lifecycleSpeed: 1,
+  windStrength: 0.3,
+  eraserRadius: 60,
+  terrainTool: 'off',
+  plantingRules: { spacing: true, bounce: true, competition: false, leanAway: true },
+  renderer: 'canvas',
+  showStats: false,
+  camera: { deviceId: null, resolution: '720p', mirrored: true },
+  sound: { muted: false, volume: 0.6, micGrowth: false },
+};
+
+const createSimulation = (seed = 42) => new GardenSimulation({ width: 1280, height: 720, config, seed });
+
+// A short scripted session: pinches with both hands, growing, blowing and a pause
+const inputAt = (frame: number): InteractionState => {
+  const input = createInteractionState();
+  if (frame % 40 < 3) {
+    input.hands.Right = { isPresent: true, isPinching: true, pinchLocation: { x: 100 + frame * 3, y: 80 }, pinchProximity: 1 };
+  }
+  if (frame % 55 < 3) {
+    input.hands.Left = { isPresent: true, isPinching: true, pinchLocation: { x: 1200 - frame * 2, y: 60 }, pinchProximity: 1 };
+  }
+  if (frame > 120 && frame < 300) input.mouthOpenness = 0.7;
+  if (frame > 320 && frame < 360) {
+    input.blowStrength = 0.8;
+    input.facePosition = { x: 640, y: 300 };
+  }
+  return input;
+};
+
+const snapshot = (simulation: GardenSimulation) => {
+  const { plants, seeds, particles, terrain, time } = simulation.getState();
+  return JSON.parse(JSON.stringify({ plants, seeds, particles, terrain, time }));
+};
+
+describe('GardenSimulation', () => {
+  it('produces the same garden from the same seed and inputs', () => {
+    const a = createSimulation();
+    const b = createSimulation();
+    for (let frame = 0; frame < 400; frame++) {
+      a.step(inputAt(frame), FIXED_TIMESTEP);
+      b.step(inputAt(frame), FIXED_TIMESTEP);
+    }
+    const garden = snapshot(a);
+    expect(garden.plants.length).toBeGreaterThan(0);
+    expect(snapshot(b)).toEqual(garden);
+  });
+
+  it('grows as much per simulated second at 60 Hz as at 120 Hz', () => {
+    const growFor = (hz: number) => {
+      const simulation = createSimulation();
+      simulation.spawnSeed({ x: 640, y: 100 });
+      const idle = createInteractionState();
+      // Let the seed land and take root
+      for (let i = 0; i < hz * 2; i++) simulation.step(idle, 1000 / hz);
+      const growing = createInteractionState();
+      growing.mouthOpenness = 0.5;
+      for (let i = 0; i < hz; i++) simulation.step(growing, 1000 / hz);
+      const [plant] = simulation.getState().plants;
+      return plant.growthProgress;
+    };
+
+    const at60 = growFor(60);
+    expect(at60).toBeGreaterThan(0);
+    expect(growFor(120)).toBeCloseTo(at60, 10);
+  });
+});
+
+describe('GardenSimulation.applyRemoteOp', () => {
+  const size = { width: 1280, height: 720 };
+  const remotePlant = () => {
+    const sender = createSimulation(7);
+    sender.sowStressTest(1);
+    return sender.getState().plants[0];
+  };
+
+  it('ignores ops without their lists', () => {
+    const simulation = createSimulation();
+    simulation.sowStressTest(2);
+    const before = snapshot(simulation);
+    [{ type: 'sow' }, { type: 'plant' }, { type: 'remove' }, { type: 'remove', ids: 'all' }, { type: 'grow' }, null, 'clear']
+      .forEach(op => simulation.applyRemoteOp(op, size));
+    expect(snapshot(simulation)).toEqual(before);
+  });
+
+  it('repairs a plant that arrives without its structure or colour', () => {
+    const simulation = createSimulation();
+    const plant = remotePlant();
+    simulation.applyRemoteOp({ type: 'plant', plants: [{ ...plant, stemControlPoints: undefined, color: 42 }] }, size);
+    const [received] = simulation.getState().plants;
+    expect(received.id).toBe(plant.id);
+    expect(received.stemControlPoints).toEqual(plant.stemControlPoints);
+    expect(received.color).toMatch(/^#[0-9a-f]{6}$/i);
+  });
+
+  it('drops plants it cannot repair and ignores a garden of no size', () => {
+    const simulation = createSimulation();
+    const plant = remotePlant();
+    simulation.applyRemoteOp({ type: 'plant', plants: [{ ...plant, x: 'left' }, { ...plant, species: 'Triffid' }] }, size);
+    simulation.applyRemoteOp({ type: 'plant', plants: [plant] }, { width: 0, height: 720 });
+    expect(simulation.getState().plants).toHaveLength(0);
+  });
+
+  it('grows a remote plant through sprout, bud and bloom but not back from later stages', () => {
+    const simulation = createSimulation();
+    const plant = remotePlant();
+    simulation.applyRemoteOp({
+      type: 'plant',
+      plants: [
+        { ...plant, id: 'sprout', growthProgress: 0.5, stage: 'sprout', stageAge: 0 },
+        { ...plant, id: 'wilting', growthProgress: 0.5, stage: 'wilting', stageAge: 0 },
+        { ...plant, id: 'seedHead', growthProgress: 1, stage: 'seedHead', stageAge: 0 },
+      ],
+    }, size);
+    simulation.applyRemoteOp({ type: 'grow', plants: ['sprout', 'wilting', 'seedHead'].map(id => ({ id, amount: 0.6 })) }, size);
+    expect(simulation.getState().plants.map(p => [p.id, p.stage, p.growthProgress])).toEqual([
+      ['sprout', 'bloom', 1], ['wilting', 'wilting', 1], ['seedHead', 'seedHead', 1],
+    ]);
+  });
+
+  it("leaves sowing from a blown seed head to the plant's own station", () => {
+    const seedsBlownFrom = (contributor: string) => {
+      const simulation = createSimulation();
+      simulation.share('b');
+      const plant = { ...remotePlant(), species: '蒲公英', stage: 'seedHead', stageAge: 0, florets: 1, contributor };
+      simulation.applyRemoteOp({ type: 'plant', plants: [plant] }, size);
+      const blowing = createInteractionState();
+      blowing.blowStrength = 1;
+      blowing.facePosition = { x: plant.x - 100, y: plant.y - 200 };
+      for (let i = 0; i < 120; i++) simulation.step(blowing, FIXED_TIMESTEP);
+      const { plants, seeds } = simulation.getState();
+      expect(plants[0].florets).toBeLessThan(1);
+      return plants.length - 1 + seeds.length;
+    };
+    expect(seedsBlownFrom('a')).toBe(0);
+    expect(seedsBlownFrom('b')).toBeGreaterThan(0);
+  });
+});
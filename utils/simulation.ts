@@ -0,0 +1,1464 @@
+import { PlantConfig, PlantStage, Seed, Plant, Particle, InteractionState, Point, Handedness, SpeciesId, Terrain } from '../types';
+import { createRandom, hashString, randomId, Random } from './random';
+import { getSpecies, getSpeciesColor, getSpeciesSpacing, listSpecies, pickRandomSpecies } from './species/registry';
+import { distanceToPlant, getPlantHead, hitTestPlant, HEAD_OPEN_PROGRESS } from './plantGeometry';
+import { BLOOM_OPEN_TIME, getStageDuration, hasSeedHead, isGrowthStage, stageForProgress } from './lifecycle';
+import { generatePlantStructure, PlantStructure } from './plantStructure';
+import { History } from './history';
+import { ParticlePool } from './particlePool';
+import { getPlantMenuLayout, hitTestPlantMenu, PlantMenuAction } from './plantMenu';
+import {
+  cloneTerrain, createTerrain, PLANTER_HEIGHT, PLANTER_WIDTH, PLATFORM_WIDTH, scaleTerrain, shapeGround,
+  surfaceBelow, surfacesAt, supportAt, terrainFeatureAt,
+} from './terrain';
+import { validateGardenOp } from './sync/ops';
+
+// The simulation always advances in fixed 60 Hz ticks, regardless of how often
+// the host calls step(). This keeps growth and physics identical on 60/120/144 Hz displays.
+export const FIXED_TIMESTEP = 1000 / 60;
+// Cap the catch-up work after a stall (background tab, debugger) to avoid a spiral of death
+const MAX_TICKS_PER_STEP = 15;
+
+const GROWTH_SPEED = 7.5;
+const SELECT_DWELL_TIME = 800; // ms of pointing at a plant before it becomes the selection
+const SELECT_HIT_DISTANCE = 30; // px from the stem that counts as pointing at a plant
+const TAP_HIT_DISTANCE = 10; // px from a plant that a pinch or click selects it instead of sowing
+const DUPLICATE_OFFSET = 50; // px beside the original where a duplicated plant is planted
+// Recolouring cycles through the species' own colours, then these
+const RECOLOR_COLORS = ['#e11d48', '#f97316', '#facc15', '#84cc16', '#06b6d4', '#6366f1', '#d946ef', '#f8fafc'];
+const MAX_SELF_SEEDED_GARDEN = 150; // Plants + seeds above which mature plants stop self-seeding
+const SELF_SEED_SPREAD = 160; // px range around the parent where its seeds fall
+const PETAL_DROP_RATE = 0.04; // Chance per tick (at lifecycleSpeed 1) that a wilting plant sheds a petal
+
+// Wind. Forces are unitless (about -1..1 for a breeze, a few units for a strong gust)
+const SWAY_PER_FORCE = 45; // px of stem-tip bend per unit of wind on a full-height plant
+const SWAY_STIFFNESS = 0.015; // Spring pull back towards the wind-bent rest position, per tick
+const SWAY_DAMPING = 0.06; // Fraction of sway velocity lost per tick
+const GUST_FORCE = 3; // Wind force of a full-strength blow right in front of the face
+const GUST_REACH = 500; // px from the face at which a gust has dropped to half strength
+const GUST_SMOOTHING = 0.15; // How quickly gusts follow blowStrength
+const FLORET_RELEASE_FORCE = 0.6; // Gust force needed to start stripping a seed head
+const FLORET_RELEASE_RATE = 0.008; // Fraction of a seed head blown off per tick per unit of gust above that
+const FLORET_SEED_CHANCE = 0.12; // Chance that a blown-off floret carries a viable seed
+const PARTICLE_WIND_DRIFT = 2.5; // px/tick a floret or petal drifts per unit of wind
+const GROW_SESSION_GAP = 500; // ms without growth that ends a growing session (one undo step)
+const UNDO_HOLD_TIME = 600; // ms a thumbs-down must be held to undo
+const IMPLODE_TICKS = 50; // Lifetime of an explosion fragment; an undone clear replays it backwards
+const TERRAIN_BRUSH_RADIUS = 90; // px either side of the finger that a ground drag reshapes
+const SHARED_FLUSH_TICKS = 6; // Ticks between batches of growth and blown seed heads sent to a shared garden
+
+// Planting rules (config.plantingRules)
+const SEED_BOUNCE_SPEED = 2.5; // px/tick a seed is knocked sideways off a plant or hops aside from a crowded spot
+const SEED_HOP = 3; // Upward px/tick of a hop off a crowded spot
+const MAX_SEED_BOUNCES = 8; // After this many a seed falls straight; if it still has no room it doesn't take root
+const NEIGHBOUR_INTERVAL = 15; // Ticks between crowding and lean updates; neighbours change slowly
+const CROWDING_RANGE = 2.5; // Plants closer than this many spacings compete and lean apart
+const CROWDING_FULL = 3; // Summed closeness of neighbours at which a plant is fully crowded
+const COMPETITION_STUNT = 0.35; // Fraction of its height a seedling coming up fully crowded loses
+const COMPETITION_SLOWDOWN = 0.6; // Fraction of growth speed a fully crowded plant loses
+const LEAN_PER_NEIGHBOUR = 12; // px of stem-tip lean away from a neighbour right next to it
+const MAX_LEAN = 30;
+
+export const CONVERSION_RADIUS = 120; // px around the pinch that an area conversion reaches
+
+// Which existing plants a species conversion applies to
+export type ConversionScope = 'all' | 'selected' | 'area';
+
+// A plant or seed as it was before a conversion. Seeds keep their id when they land,
+// so an entry recorded for a seed may be restored onto the plant it became.
+interface ConvertedItem {
+  id: string;
+  species: SpeciesId;
+  color: string;
+  structure?: PlantStructure; // Plants only
+}
+
+type GrowthSnapshot = Pick<Plant, 'id' | 'growthProgress' | 'stage' | 'stageAge'>;
+
+const snapshotGrowth = ({ id, growthProgress, stage, stageAge }: Plant): GrowthSnapshot =>
+  ({ id, growthProgress, stage, stageAge });
+
+// Per-plant properties the plant menu edits in place
+export type PlantEdit = Partial<Pick<Plant, 'x' | 'y' | 'color'>>;
+
+// Undoable edits to the garden, newest last in the history
+export type GardenCommand =
+  | { type: 'sow'; seed: Seed; plant?: Plant } // `plant`: what the seed had grown into when undone
+  | { type: 'grow'; before: GrowthSnapshot[]; after: GrowthSnapshot[] }
+  | { type: 'convert'; species: SpeciesId; items: ConvertedItem[] }
+  | { type: 'clear'; plants: Plant[]; seeds: Seed[] }
+  | { type: 'add'; plants: Plant[] }
+  | { type: 'remove'; plants: Plant[]; seeds: Seed[] }
+  | { type: 'edit'; id: string; before: PlantEdit; after: PlantEdit }
+  | { type: 'terrain'; before: Terrain; after: Terrain };
+
+// Moments the host may want to react to (sound, haptics), reported by the step they happened in
+export type GardenEvent =
+  | { type: 'seedLanded'; species: SpeciesId; x: number }
+  | { type: 'headOpened'; species: SpeciesId; x: number }
+  | { type: 'exploded'; count: number }; // Plants cleared at once
+
+// A change to a shared garden, as sent to the other stations (see utils/sync). Ops carry outcomes
+// rather than gestures, so every station ends up with the same plants. Positions are in the
+// sender's garden px; applyRemoteOp() rescales them.
+export type GardenOp =
+  | { type: 'sow'; seeds: Seed[] } // Added, or replaced by id
+  | { type: 'plant'; plants: Plant[] } // Added, or replaced by id; also replaces the seed it grew from
+  | { type: 'remove'; ids: string[] } // Plants and seeds
+  | { type: 'grow'; plants: { id: string; amount: number }[] } // growthProgress gained, so stations growing at once add up
+  | { type: 'florets'; plants: { id: string; florets: number }[] } // Seed heads left after blowing
+  | { type: 'convert'; species: SpeciesId; items: { id: string; color: string }[] }
+  | { type: 'edit'; id: string; edit: PlantEdit }
+  | { type: 'clear' }
+  | { type: 'terrain'; terrain: Terrain };
+
+// Replaces the item with the same id, or adds it
+const upsertById = <T extends { id: string }>(items: T[], item: T) => {
+  const index = items.findIndex(existing => existing.id === item.id);
+  if (index >= 0) items[index] = item; else items.push(item);
+};
+
+export interface GardenState {
+  seeds: Seed[];
+  plants: Plant[];
+  particles: Particle[];
+  clearTimer: number; // ms, owned by the simulation so it is frame-rate independent
+  focus: Point | null; // Centre of targeted growth in 'focused' mode, null when there is none
+  selectedPlantId: string | null;
+  pendingConversion: SpeciesId | null; // Species the next pinch converts an area to, if armed
+  movingPlantId: string | null; // Plant the next pinch replants, if one is being moved
+  terrain: Terrain;
+  canUndo: boolean;
+  canRedo: boolean;
+  time: number; // Total simulated ms
+  events: GardenEvent[]; // Since the previous step() returned
+}
+
+export interface SimulationOptions {
+  width: number;
+  height: number;
+  config: PlantConfig;
+  seed?: number; // RNG seed; identical seed + inputs produce an identical garden
+}
+
+/**
+ * Headless garden engine. Knows nothing about the DOM, the camera or rendering:
+ * feed it InteractionState snapshots and elapsed time, read back the garden state.
+ */
+export class GardenSimulation {
+  private random: Random;
+  private config: PlantConfig;
+  private width: number;
+  private height: number;
+
+  private seeds: Seed[] = [];
+  private plants: Plant[] = [];
+  private particles: Particle[] = [];
+  private particlePool = new ParticlePool();
+  private terrain = createTerrain();
+
+  private accumulator = 0;
+  private time = 0;
+  private pinchCooldowns: Record<Handedness, number> = { Left: 0, Right: 0 };
+  private clearTimer = 0;
+  private focus: Point | null = null;
+  private selectedPlantId: string | null = null;
+  private dwellPlantId: string | null = null;
+  private dwellTime = 0;
+  private gust = 0; // Smoothed blow strength, 0 to 1
+  private gustOrigin: Point | null = null;
+  private pendingConversion: SpeciesId | null = null;
+  private movingPlantId: string | null = null;
+  private history = new History<GardenCommand>();
+  private growSession: { before: GrowthSnapshot[]; idle: number } | null = null;
+  private eraseStroke: { plants: Plant[]; seeds: Seed[]; last: Point } | null = null; // One undo step per stroke
+  private restoring: { plants: Plant[]; seeds: Seed[]; ticks: number } | null = null; // Undone clear, imploding
+  private terrainStroke: Terrain | null = null; // Terrain before the current ground drag, one undo step per drag
+  private undoHoldTimer = 0;
+  private undoLatched = false; // Thumbs-down has fired; must be released before it can undo again
+  private neighbourCountdown = 0; // Ticks until crowding and lean are next recomputed
+  private events: GardenEvent[] = [];
+  private contributor: string | null = null; // This station's name while the garden is shared
+  private outbox: GardenOp[] = []; // Changes made here, for takeOps()
+  private pendingGrowth = new Map<string, number>(); // growthProgress gained per plant since the last flush
+  private pendingFlorets = new Map<string, number>();
+  private flushCountdown = 0;
+
+  constructor(options: SimulationOptions) {
+    this.random = createRandom(options.seed ?? 1);
+    this.config = options.config;
+    this.width = options.width;
+    this.height = options.height;
+  }
+
+  setConfig(config: PlantConfig) {
+    this.config = config;
+  }
+
+  // Rescales existing content so the garden keeps its layout when the canvas size changes
+  resize(width: number, height: number) {
+    if (width <= 0 || height <= 0) return;
+    const sx = width / this.width;
+    const sy = height / this.height;
+    const restoring = this.restoring ? [...this.restoring.plants, ...this.restoring.seeds] : [];
+    [...this.plants, ...this.seeds, ...this.particles, ...restoring].forEach(item => {
+      item.x *= sx;
+      item.y *= sy;
+    });
+    scaleTerrain(this.terrain, sx, sy);
+    if (this.terrainStroke) scaleTerrain(this.terrainStroke, sx, sy);
+    this.width = width;
+    this.height = height;
+  }
+
+  getSize() {
+    return { width: this.width, height: this.height };
+  }
+
+  // Replace the whole garden, e.g. from a save file. Particles and timers are reset.
+  loadGarden(garden: { plants: Plant[]; seeds: Seed[]; terrain?: Terrain }) {
+    this.plants = garden.plants;
+    this.seeds = garden.seeds;
+    this.terrain = garden.terrain ?? createTerrain();
+    this.particlePool.sweep(this.particles, () => false);
+    this.clearTimer = 0;
+    this.selectedPlantId = null;
+    this.pendingConversion = null;
+    this.movingPlantId = null;
+    this.history.clear();
+    this.growSession = null;
+    this.eraseStroke = null;
+    this.restoring = null;
+    this.terrainStroke = null;
+    this.claimUntagged();
+  }
+
+  /**
+   * Starts sharing the garden as `contributor`, or stops with null. Whatever is in the garden without
+   * a contributor becomes theirs. While shared, every change made here is queued for takeOps(), and
+   * plants only self-seed on the station that sowed them, so seeds aren't dropped once per station.
+   */
+  share(contributor: string | null) {
+    this.contributor = contributor;
+    this.outbox = [];
+    this.pendingGrowth.clear();
+    this.pendingFlorets.clear();
+    this.claimUntagged();
+  }
+
+  // Changes made here since the last call, oldest first, for the other stations
+  takeOps(): GardenOp[] {
+    const ops = this.outbox;
+    this.outbox = [];
+    return ops;
+  }
+
+  // Applies another station's change (`from`: the size of its garden). It isn't undoable here.
+  // Both come off the network: a malformed op or size is ignored, malformed plants and seeds in it dropped.
+  applyRemoteOp(data: unknown, from: { width: number; height: number }) {
+    const op = validateGardenOp(data);
+    const isUsableSize = !!from && from.width > 0 && from.height > 0 && Number.isFinite(from.width) && Number.isFinite(from.height);
+    if (!op || !isUsableSize) return;
+    const sx = this.width / from.width;
+    const sy = this.height / from.height;
+    const place = <T extends Point>(item: T): T => ({ ...item, x: item.x * sx, y: item.y * sy });
+
+    switch (op.type) {
+      case 'sow': {
+        const planted = new Set(this.plants.map(p => p.id));
+        op.seeds.filter(seed => !planted.has(seed.id)).forEach(seed => upsertById(this.seeds, place(seed)));
+        break;
+      }
+      case 'plant': {
+        const ids = new Set(op.plants.map(p => p.id));
+        this.seeds = this.seeds.filter(s => !ids.has(s.id));
+        op.plants.forEach(plant => {
+          const current = this.plants.find(p => p.id === plant.id);
+          upsertById(this.plants, { ...place(plant), sway: current?.sway ?? 0, swayVelocity: current?.swayVelocity ?? 0 });
+        });
+        break;
+      }
+      case 'remove': {
+        const ids = new Set(op.ids);
+        this.plants = this.plants.filter(p => !ids.has(p.id));
+        this.seeds = this.seeds.filter(s => !ids.has(s.id));
+        break;
+      }
+      case 'grow':
+        op.plants.forEach(({ id, amount }) => {
+          const plant = this.plants.find(p => p.id === id);
+          if (plant && plant.growthProgress < 1) this.growPlant(plant, amount);
+        });
+        break;
+      case 'florets':
+        op.plants.forEach(({ id, florets }) => {
+          const plant = this.plants.find(p => p.id === id);
+          if (plant?.stage !== 'seedHead' || florets >= plant.florets) return;
+          plant.florets = florets;
+          if (florets <= 0.01) {
+            plant.florets = 0;
+            this.setStage(plant, 'wilting');
+          }
+        });
+        break;
+      case 'convert': {
+        // Structure is regenerated from the plant's seed, so only the colours need to travel
+        const colors = new Map(op.items.map(item => [item.id, item.color]));
+        this.applyConversion(op.species, item => colors.has(item.id));
+        [...this.plants, ...this.seeds].forEach(item => { item.color = colors.get(item.id) ?? item.color; });
+        break;
+      }
+      case 'edit': {
+        const edit = { ...op.edit };
+        if (edit.x !== undefined) edit.x *= sx;
+        if (edit.y !== undefined) edit.y *= sy;
+        this.editPlant(op.id, edit);
+        break;
+      }
+      case 'clear':
+        // An undone clear still flying back in here hasn't been sent yet, so it goes as well
+        this.restoring = null;
+        this.events.push({ type: 'exploded', count: this.plants.length });
+        this.explode();
+        break;
+      case 'terrain': {
+        const terrain = cloneTerrain(op.terrain);
+        scaleTerrain(terrain, sx, sy);
+        this.changeTerrain(() => { this.terrain = terrain; });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Advance by `deltaTime` ms of wall-clock time using the given input snapshot.
+   * Runs as many fixed ticks as fit; the remainder carries over to the next call.
+   */
+  step(input: InteractionState, deltaTime: number): GardenState {
+    this.accumulator += Math.min(Math.max(deltaTime, 0), FIXED_TIMESTEP * MAX_TICKS_PER_STEP);
+    while (this.accumulator >= FIXED_TIMESTEP) {
+      this.tick(input);
+      this.accumulator -= FIXED_TIMESTEP;
+    }
+    // Events are reported once; the next step starts a fresh list
+    const state = this.getState();
+    this.events = [];
+    return state;
+  }
+
+  getState(): GardenState {
+    return {
+      seeds: this.seeds,
+      plants: this.plants,
+      particles: this.particles,
+      clearTimer: this.clearTimer,
+      focus: this.focus,
+      selectedPlantId: this.selectedPlantId,
+      pendingConversion: this.pendingConversion,
+      movingPlantId: this.movingPlantId,
+      terrain: this.terrain,
+      canUndo: this.history.canUndo || this.hasOpenSession(),
+      canRedo: this.history.canRedo && !this.hasOpenSession(),
+      time: this.time,
+      events: this.events,
+    };
+  }
+
+  spawnSeed(loc: Point) {
+    const species = this.config.selectedSpecies === 'Random'
+      ? pickRandomSpecies(this.random)
+      : this.config.selectedSpecies;
+
+    const seed: Seed = {
+      id: randomId(this.random),
+      x: loc.x,
+      y: loc.y,
+      vy: 5,
+      species: species,
+      color: getSpeciesColor(species, this.random),
+      isLanded: false,
+      contributor: this.contributor ?? undefined,
+    };
+    this.seeds.push(seed);
+    this.record({ type: 'sow', seed: { ...seed } });
+    this.emit({ type: 'sow', seeds: [{ ...seed }] });
+  }
+
+  /**
+   * Turn existing plants (and falling seeds) into `species`: everything, or just the selected plant.
+   * Sowing is unaffected; new seeds always follow config.selectedSpecies. Returns how many changed.
+   */
+  convertSpecies(species: SpeciesId, scope: Exclude<ConversionScope, 'area'> = 'all'): number {
+    if (scope === 'selected') {
+      const selectedId = this.selectedPlantId;
+      return selectedId ? this.convertWhere(species, item => item.id === selectedId) : 0;
+    }
+    return this.convertWhere(species, () => true);
+  }
+
+  // Converts the plants whose stem passes within `radius` of `center`, and seeds inside it
+  convertSpeciesInArea(species: SpeciesId, center: Point, radius = CONVERSION_RADIUS): number {
+    const heightFactor = this.config.growthHeightFactor;
+    return this.convertWhere(species, item => 'isLanded' in item
+      ? Math.hypot(item.x - center.x, item.y - center.y) <= radius
+      : distanceToPlant(center, item, heightFactor) <= radius);
+  }
+
+  // Makes the next pinch convert the area around it instead of sowing; null disarms
+  armConversion(species: SpeciesId | null) {
+    this.pendingConversion = species;
+  }
+
+  // Flattens the ground and removes all planters and platforms (undoable)
+  resetTerrain() {
+    const before = this.changeTerrain(() => { this.terrain = createTerrain(); });
+    this.record({ type: 'terrain', before, after: cloneTerrain(this.terrain) });
+    this.emitTerrain();
+  }
+
+  // Reverts the most recent command (an open growing session counts); false when there was nothing to undo
+  undo(): boolean {
+    this.endSessions();
+    this.finishRestore();
+    const command = this.history.undo();
+    if (!command) return false;
+
+    switch (command.type) {
+      case 'sow':
+        // The seed may have landed since; it keeps its id as a plant
+        command.plant = this.plants.find(p => p.id === command.seed.id);
+        this.plants = this.plants.filter(p => p.id !== command.seed.id);
+        this.seeds = this.seeds.filter(s => s.id !== command.seed.id);
+        this.emit({ type: 'remove', ids: [command.seed.id] });
+        break;
+      case 'grow':
+        this.applyGrowth(command.before);
+        break;
+      case 'convert':
+        command.items.forEach(item => this.restoreItem(item));
+        this.emitConversion(command.items.map(item => item.id));
+        break;
+      case 'clear':
+        this.implode(command.plants, command.seeds); // Sent once they are back, see finishRestore()
+        break;
+      case 'add':
+        this.removePlants(command.plants);
+        this.emit({ type: 'remove', ids: command.plants.map(p => p.id) });
+        break;
+      case 'remove':
+        this.plants.push(...command.plants);
+        this.seeds.push(...command.seeds);
+        if (command.plants.length > 0) this.emit({ type: 'plant', plants: command.plants });
+        if (command.seeds.length > 0) this.emit({ type: 'sow', seeds: command.seeds });
+        break;
+      case 'edit':
+        this.editPlant(command.id, command.before);
+        this.emit({ type: 'edit', id: command.id, edit: command.before });
+        break;
+      case 'terrain':
+        this.changeTerrain(() => { this.terrain = cloneTerrain(command.before); });
+        this.emitTerrain();
+        break;
+    }
+    return true;
+  }
+
+  redo(): boolean {
+    this.endSessions();
+    this.finishRestore();
+    const command = this.history.redo();
+    if (!command) return false;
+
+    switch (command.type) {
+      case 'sow':
+        if (command.plant) {
+          this.plants.push(command.plant);
+          this.emit({ type: 'plant', plants: [command.plant] });
+        } else {
+          this.seeds.push({ ...command.seed });
+          this.emit({ type: 'sow', seeds: [{ ...command.seed }] });
+        }
+        break;
+      case 'grow':
+        this.applyGrowth(command.after);
+        break;
+      case 'convert': {
+        const ids = new Set(command.items.map(item => item.id));
+        this.applyConversion(command.species, item => ids.has(item.id));
+        this.emitConversion([...ids]);
+        break;
+      }
+      case 'clear':
+        this.explode();
+        this.emit({ type: 'clear' });
+        break;
+      case 'add':
+        this.plants.push(...command.plants);
+        this.emit({ type: 'plant', plants: command.plants });
+        break;
+      case 'remove': {
+        this.removePlants(command.plants);
+        const ids = new Set(command.seeds.map(s => s.id));
+        this.seeds = this.seeds.filter(s => !ids.has(s.id));
+        this.emit({ type: 'remove', ids: [...command.plants.map(p => p.id), ...ids] });
+        break;
+      }
+      case 'edit':
+        this.editPlant(command.id, command.after);
+        this.emit({ type: 'edit', id: command.id, edit: command.after });
+        break;
+      case 'terrain':
+        this.changeTerrain(() => { this.terrain = cloneTerrain(command.after); });
+        this.emitTerrain();
+        break;
+    }
+    return true;
+  }
+
+  /**
+   * Runs a plant-menu action on the selected plant. 'move' only picks the plant up;
+   * the next pinch replants it. Returns false when nothing is selected.
+   */
+  applyPlantAction(action: PlantMenuAction): boolean {
+    const plant = this.plants.find(p => p.id === this.selectedPlantId);
+    if (!plant) return false;
+
+    switch (action) {
+      case 'delete':
+        this.particles.push(...this.burst(plant));
+        this.removePlants([plant]);
+        this.record({ type: 'remove', plants: [plant], seeds: [] });
+        this.emit({ type: 'remove', ids: [plant.id] });
+        break;
+      case 'recolor': {
+        const colors = [...new Set([...getSpecies(plant.species).palette.petals, ...RECOLOR_COLORS])];
+        const color = colors[(colors.indexOf(plant.color) + 1) % colors.length];
+        this.record({ type: 'edit', id: plant.id, before: { color: plant.color }, after: { color } });
+        this.editPlant(plant.id, { color });
+        this.emit({ type: 'edit', id: plant.id, edit: { color } });
+        break;
+      }
+      case 'species': {
+        const all = listSpecies();
+        const next = all[(all.findIndex(s => s.id === plant.species) + 1) % all.length];
+        this.convertWhere(next.id, item => item.id === plant.id);
+        break;
+      }
+      case 'move':
+        this.movingPlantId = plant.id;
+        break;
+      case 'duplicate': {
+        const x = plant.x + DUPLICATE_OFFSET <= this.width ? plant.x + DUPLICATE_OFFSET : plant.x - DUPLICATE_OFFSET;
+        const y = this.restingY(x, plant.y);
+        const copy: Plant = {
+          ...plant, id: randomId(this.random), x, y, sway: 0, swayVelocity: 0,
+          contributor: this.contributor ?? plant.contributor,
+        };
+        this.plants.push(copy);
+        this.record({ type: 'add', plants: [copy] });
+        this.emit({ type: 'plant', plants: [copy] });
+        this.selectedPlantId = copy.id;
+        break;
+      }
+    }
+    return true;
+  }
+
+  // Planter and platform tools: tapping a feature removes it, tapping anywhere else places one
+  private editTerrainAt(location: Point) {
+    const { terrainTool } = this.config;
+    if (terrainTool !== 'planter' && terrainTool !== 'platform') return;
+    const { width, height } = this;
+    const feature = terrainFeatureAt(this.terrain, location, width, height);
+    const before = this.changeTerrain(() => {
+      const terrain = this.terrain;
+      if (feature) {
+        terrain.planters = terrain.planters.filter(p => p !== feature);
+        terrain.platforms = terrain.platforms.filter(p => p !== feature);
+      } else if (terrainTool === 'planter') {
+        const x = Math.min(Math.max(location.x, PLANTER_WIDTH / 2), width - PLANTER_WIDTH / 2);
+        terrain.planters.push({ id: randomId(this.random), x, width: PLANTER_WIDTH, height: PLANTER_HEIGHT });
+      } else {
+        terrain.platforms.push({ id: randomId(this.random), x: location.x, y: location.y, width: PLATFORM_WIDTH });
+      }
+    });
+    this.record({ type: 'terrain', before, after: cloneTerrain(this.terrain) });
+    this.emitTerrain();
+  }
+
+  /**
+   * Applies a terrain change and keeps plants standing on it: a plant stays on the ground, planter
+   * or platform it stood on if that is still under it, otherwise it drops to the surface below.
+   * Returns the terrain as it was before.
+   */
+  private changeTerrain(change: () => void): Terrain {
+    const { width, height } = this;
+    const before = cloneTerrain(this.terrain);
+    const supports = this.plants.map(plant => supportAt(before, plant.x, plant.y, width, height)?.support);
+    change();
+    this.plants.forEach((plant, i) => {
+      const surfaces = surfacesAt(this.terrain, plant.x, width, height);
+      const same = surfaces.find(s => s.support === supports[i]);
+      plant.y = same ? same.y : surfaceBelow(this.terrain, plant.x, plant.y, width, height).y;
+    });
+    return before;
+  }
+
+  // Where a plant put down at x near y stands: the first surface at or below y
+  private restingY(x: number, y: number) {
+    return surfaceBelow(this.terrain, x, y, this.width, this.height).y;
+  }
+
+  private removePlants(plants: Plant[]) {
+    const ids = new Set(plants.map(p => p.id));
+    this.plants = this.plants.filter(p => !ids.has(p.id));
+  }
+
+  private editPlant(id: string, edit: PlantEdit) {
+    const plant = this.plants.find(p => p.id === id);
+    if (plant) Object.assign(plant, edit);
+  }
+
+  // Closest plant drawn within `tolerance` px of the point
+  private plantAt(point: Point, tolerance: number): Plant | null {
+    const heightFactor = this.config.growthHeightFactor;
+    let best = tolerance;
+    let found: Plant | null = null;
+    this.plants.forEach(plant => {
+      const distance = hitTestPlant(point, plant, heightFactor);
+      if (distance <= best) {
+        best = distance;
+        found = plant;
+      }
+    });
+    return found;
+  }
+
+  /**
+   * What a pinch (or click) does, in order of precedence: convert an armed area, replant the
+   * plant being moved, edit the terrain while a terrain tool is on, press a button of the selected
+   * plant's menu, select the plant under it, or otherwise sow (which also dismisses the menu).
+   */
+  private handlePinch(location: Point) {
+    if (this.pendingConversion) {
+      this.convertSpeciesInArea(this.pendingConversion, location);
+      this.pendingConversion = null;
+      return;
+    }
+
+    const moving = this.plants.find(p => p.id === this.movingPlantId);
+    this.movingPlantId = null;
+    if (moving) {
+      const x = Math.min(Math.max(location.x, 0), this.width);
+      const y = this.restingY(x, location.y);
+      this.record({ type: 'edit', id: moving.id, before: { x: moving.x, y: moving.y }, after: { x, y } });
+      this.editPlant(moving.id, { x, y });
+      this.emit({ type: 'edit', id: moving.id, edit: { x, y } });
+      return;
+    }
+
+    if (this.config.terrainTool !== 'off') {
+      this.editTerrainAt(location);
+      return;
+    }
+
+    const selected = this.plants.find(p => p.id === this.selectedPlantId);
+    if (selected) {
+      const { width, height } = this;
+      const button = hitTestPlantMenu(getPlantMenuLayout(selected, this.config.growthHeightFactor, width, height), location);
+      if (button) {
+        this.applyPlantAction(button.action);
+        return;
+      }
+    }
+
+    const hit = this.plantAt(location, TAP_HIT_DISTANCE);
+    if (hit) {
+      this.selectedPlantId = hit.id;
+      return;
+    }
+    this.selectedPlantId = null;
+    this.spawnSeed(location);
+  }
+
+  // Adds to the history; an open growing session, eraser stroke or ground drag is recorded first so the order holds
+  private record(command: GardenCommand) {
+    this.endSessions();
+    this.history.push(command);
+  }
+
+  private endSessions() {
+    this.endGrowSession();
+    this.endEraseStroke();
+    this.endTerrainStroke();
+  }
+
+  private hasOpenSession() {
+    return this.growSession !== null || this.eraseStroke !== null || this.terrainStroke !== null;
+  }
+
+  private endTerrainStroke() {
+    const before = this.terrainStroke;
+    if (!before) return;
+    this.terrainStroke = null;
+    this.history.push({ type: 'terrain', before, after: cloneTerrain(this.terrain) });
+    this.emitTerrain(); // Once per drag; the ground changes every tick while it lasts
+  }
+
+  private endEraseStroke() {
+    const stroke = this.eraseStroke;
+    if (!stroke) return;
+    this.eraseStroke = null;
+    if (stroke.plants.length > 0 || stroke.seeds.length > 0) {
+      this.history.push({ type: 'remove', plants: stroke.plants, seeds: stroke.seeds });
+    }
+  }
+
+  private endGrowSession() {
+    const session = this.growSession;
+    if (!session) return;
+    this.growSession = null;
+
+    const before = session.before.filter(snapshot =>
+      this.plants.some(p => p.id === snapshot.id && p.growthProgress !== snapshot.growthProgress));
+    if (before.length === 0) return;
+    const after = before.map(snapshot => snapshotGrowth(this.plants.find(p => p.id === snapshot.id)!));
+    this.history.push({ type: 'grow', before, after });
+  }
+
+  private applyGrowth(snapshots: GrowthSnapshot[]) {
+    snapshots.forEach(({ id, growthProgress, stage, stageAge }) => {
+      const plant = this.plants.find(p => p.id === id);
+      if (!plant) return;
+      this.shareGrowth(plant, growthProgress - plant.growthProgress);
+      Object.assign(plant, { growthProgress, stage, stageAge });
+    });
+  }
+
+  private convertWhere(species: SpeciesId, matches: (item: Plant | Seed) => boolean): number {
+    const items = this.applyConversion(species, matches);
+    if (items.length > 0) {
+      this.record({ type: 'convert', species, items });
+      this.emitConversion(items.map(item => item.id));
+    }
+    return items.length;
+  }
+
+  // Converts matching plants and seeds, returning how they were before
+  private applyConversion(species: SpeciesId, matches: (item: Plant | Seed) => boolean): ConvertedItem[] {
+    const items: ConvertedItem[] = [];
+    this.plants.filter(matches).forEach(plant => {
+      if (plant.species === species) return;
+      const { stemControlPoints, branches, leaves } = plant;
+      items.push({ id: plant.id, species: plant.species, color: plant.color, structure: { stemControlPoints, branches, leaves } });
+      plant.species = species;
+      plant.color = getSpeciesColor(species, this.random);
+      Object.assign(plant, generatePlantStructure(species, plant.seed, plant.maxHeight));
+      if (plant.stage === 'seedHead' && !hasSeedHead(species)) this.setStage(plant, 'wilting');
+    });
+    this.seeds.filter(matches).forEach(seed => {
+      if (seed.species === species) return;
+      items.push({ id: seed.id, species: seed.species, color: seed.color });
+      seed.species = species;
+      seed.color = getSpeciesColor(species, this.random);
+    });
+    return items;
+  }
+
+  // Puts a converted plant or seed back; items that have since been removed are skipped
+  private restoreItem(item: ConvertedItem) {
+    const plant = this.plants.find(p => p.id === item.id);
+    if (plant) {
+      plant.species = item.species;
+      plant.color = item.color;
+      Object.assign(plant, item.structure ?? generatePlantStructure(item.species, plant.seed, plant.maxHeight));
+      return;
+    }
+    const seed = this.seeds.find(s => s.id === item.id);
+    if (seed) {
+      seed.species = item.species;
+      seed.color = item.color;
+    }
+  }
+
+  // Clears the garden with a burst of particles (undoable)
+  explodePlants() {
+    this.finishRestore();
+    this.record({ type: 'clear', plants: this.plants, seeds: this.seeds });
+    this.events.push({ type: 'exploded', count: this.plants.length });
+    this.explode();
+    this.emit({ type: 'clear' });
+  }
+
+  /**
+   * Stress mode: fills the garden with `count` fully grown, blooming plants of random species, spread
+   * across the width on whatever terrain is there. Their ages are staggered so they don't all wilt at
+   * once. One undo step removes them again.
+   */
+  sowStressTest(count = 2000) {
+    const bloomDuration = getStageDuration('bloom') ?? BLOOM_OPEN_TIME;
+    const plants: Plant[] = [];
+    for (let i = 0; i < count; i++) {
+      const species = pickRandomSpecies(this.random);
+      const x = this.random() * this.width;
+      const seed: Seed = {
+        id: randomId(this.random), x, y: this.restingY(x, 0), vy: 0,
+        species, color: getSpeciesColor(species, this.random), isLanded: true,
+        contributor: this.contributor ?? undefined,
+      };
+      const plant = this.createPlant(seed, 200 + this.random() * 150, this.random() * 100);
+      plant.height = plant.maxHeight;
+      plant.growthProgress = 1;
+      plant.stage = 'bloom';
+      plant.stageAge = BLOOM_OPEN_TIME + this.random() * (bloomDuration - BLOOM_OPEN_TIME) * 0.9;
+      plants.push(plant);
+    }
+    this.plants.push(...plants);
+    this.record({ type: 'add', plants });
+    this.emit({ type: 'plant', plants });
+  }
+
+  private explode() {
+    this.plants.forEach(plant => this.particles.push(...this.burst(plant)));
+    this.plants = [];
+    this.seeds = [];
+    this.selectedPlantId = null;
+  }
+
+  // Brings cleared plants back: explosion fragments fly back in, then the plants reappear
+  private implode(plants: Plant[], seeds: Seed[]) {
+    plants.forEach(plant => {
+      this.burst(plant).forEach(p => {
+        // Run the fragment forward to the end of its life, then let it retrace the path
+        for (let i = 0; i < IMPLODE_TICKS; i++) {
+          p.vy += 0.2;
+          p.x += p.vx;
+          p.y += p.vy;
+        }
+        p.kind = 'implode';
+        p.life = 0;
+        this.particles.push(p);
+      });
+    });
+    this.restoring = { plants, seeds, ticks: IMPLODE_TICKS };
+  }
+
+  private finishRestore() {
+    if (!this.restoring) return;
+    const { plants, seeds } = this.restoring;
+    this.plants.push(...plants);
+    this.seeds.push(...seeds);
+    this.restoring = null;
+    if (plants.length > 0) this.emit({ type: 'plant', plants });
+    if (seeds.length > 0) this.emit({ type: 'sow', seeds });
+  }
+
+  // Explosion fragments for one plant: petals from the head, green bits from the stem
+  private burst(plant: Plant): Particle[] {
+    const heightFactor = this.config.growthHeightFactor;
+    const effectiveHeight = plant.maxHeight * plant.growthProgress * heightFactor;
+    // Calculate flower head position
+    const { x: headX, y: headY } = getPlantHead(plant, heightFactor);
+    const particles: Particle[] = [];
+
+    // Burst count
+    const particleCount = 20;
+    for (let i = 0; i < particleCount; i++) {
+      const angle = this.random() * Math.PI * 2;
+
+      particles.push(this.particlePool.acquire({
+        id: randomId(this.random),
+        x: headX,
+        y: headY,
+        vx: Math.cos(angle) * (this.random() * 5),
+        vy: Math.sin(angle) * (this.random() * 5) - 5, // Initial upward burst
+        color: plant.color,
+        life: 1.0,
+        size: this.random() * 5 + 2
+      }));
+    }
+
+    // Add some green particles for stems
+    for (let i = 0; i < 10; i++) {
+      particles.push(this.particlePool.acquire({
+        id: randomId(this.random),
+        x: plant.x,
+        y: plant.y - (effectiveHeight / 2),
+        vx: (this.random() - 0.5) * 5,
+        vy: (this.random() - 0.5) * 5,
+        color: '#22c55e',
+        life: 1.0,
+        size: this.random() * 3 + 1
+      }));
+    }
+    return particles;
+  }
+
+  private tick(input: InteractionState) {
+    this.time += FIXED_TIMESTEP;
+
+    this.updateGestures(input);
+    this.updateEraser(input);
+    this.updateTerrain(input);
+    this.updateRestore();
+    this.updateFocus(input);
+    this.updateNeighbours();
+    this.updateWind(input);
+    this.updateSeeds();
+    this.updateParticles();
+    this.updatePlants(input);
+    this.updateLifecycle();
+    this.updateShared();
+  }
+
+  private updateGestures(input: InteractionState) {
+    const { pinchCooldown, clearHoldTime } = this.config.gestures;
+
+    // --- Sowing, per hand (debounced so a held pinch drops one seed every `pinchCooldown` ms) ---
+    (Object.keys(this.pinchCooldowns) as Handedness[]).forEach(slot => {
+      const hand = input.hands[slot];
+      if (hand.isPinching && hand.pinchLocation && !input.isPalmOpen && this.pinchCooldowns[slot] <= 0) {
+        this.handlePinch(hand.pinchLocation);
+        this.pinchCooldowns[slot] = pinchCooldown;
+      }
+      if (this.pinchCooldowns[slot] > 0) this.pinchCooldowns[slot] -= FIXED_TIMESTEP;
+    });
+
+    // --- Undo (thumbs-down held; it has to be released before it can undo again) ---
+    if (input.isThumbsDown) {
+      this.undoHoldTimer += FIXED_TIMESTEP;
+      if (this.undoHoldTimer >= UNDO_HOLD_TIME && !this.undoLatched) {
+        this.undo();
+        this.undoLatched = true;
+      }
+    } else {
+      this.undoHoldTimer = 0;
+      this.undoLatched = false;
+    }
+
+    // --- Clear timer (palm held open) ---
+    if (input.isPalmOpen) {
+      this.clearTimer += FIXED_TIMESTEP;
+      if (this.clearTimer > clearHoldTime) {
+        this.explodePlants();
+        this.clearTimer = 0;
+      }
+    } else {
+      this.clearTimer = Math.max(0, this.clearTimer - FIXED_TIMESTEP * 2);
+    }
+  }
+
+  // Removes plants and seeds along the eraser's path, bursting each plant like a clear does
+  private updateEraser(input: InteractionState) {
+    const position = input.eraserPosition;
+    if (!position) {
+      this.endEraseStroke();
+      return;
+    }
+    if (!this.eraseStroke) this.eraseStroke = { plants: [], seeds: [], last: position };
+    const stroke = this.eraseStroke;
+    const { eraserRadius, growthHeightFactor } = this.config;
+
+    // Sample the path since the last tick so a fast sweep doesn't skip anything
+    const from = stroke.last;
+    const steps = Math.max(1, Math.ceil(Math.hypot(position.x - from.x, position.y - from.y) / (eraserRadius / 2)));
+    const samples: Point[] = [];
+    for (let i = 0; i <= steps; i++) {
+      samples.push({ x: from.x + (position.x - from.x) * i / steps, y: from.y + (position.y - from.y) * i / steps });
+    }
+    stroke.last = position;
+
+    const erasedPlants = this.plants.filter(plant =>
+      samples.some(p => hitTestPlant(p, plant, growthHeightFactor) <= eraserRadius));
+    const erasedSeeds = this.seeds.filter(seed =>
+      samples.some(p => Math.hypot(seed.x - p.x, seed.y - p.y) <= eraserRadius));
+    if (erasedPlants.length === 0 && erasedSeeds.length === 0) return;
+
+    erasedPlants.forEach(plant => this.particles.push(...this.burst(plant)));
+    this.removePlants(erasedPlants);
+    this.seeds = this.seeds.filter(seed => !erasedSeeds.includes(seed));
+    stroke.plants.push(...erasedPlants);
+    stroke.seeds.push(...erasedSeeds);
+    this.emit({ type: 'remove', ids: [...erasedPlants, ...erasedSeeds].map(item => item.id) });
+  }
+
+  // Ground tool: dragging pulls the ground towards the finger, raising hills or carving valleys
+  private updateTerrain(input: InteractionState) {
+    const drag = this.config.terrainTool === 'ground' ? input.dragPosition : null;
+    if (!drag) {
+      this.endTerrainStroke();
+      return;
+    }
+    const before = this.changeTerrain(() =>
+      shapeGround(this.terrain, drag, TERRAIN_BRUSH_RADIUS, this.width, this.height));
+    if (!this.terrainStroke) this.terrainStroke = before;
+  }
+
+  private updateRestore() {
+    if (this.restoring && --this.restoring.ticks <= 0) this.finishRestore();
+  }
+
+  private updateFocus(input: InteractionState) {
+    const { focusSource, growthHeightFactor } = this.config;
+
+    // Selection by dwelling: point at (or hover over) a plant long enough to select it.
+    // Pointing at the open menu keeps the current selection.
+    const pointer = input.pointingPosition;
+    const current = this.plants.find(p => p.id === this.selectedPlantId);
+    const onMenu = !!pointer && !!current &&
+      !!hitTestPlantMenu(getPlantMenuLayout(current, growthHeightFactor, this.width, this.height), pointer);
+    const pointedPlantId = pointer && !onMenu ? this.plantAt(pointer, SELECT_HIT_DISTANCE)?.id ?? null : null;
+    if (pointedPlantId && pointedPlantId === this.dwellPlantId) {
+      this.dwellTime += FIXED_TIMESTEP;
+      if (this.dwellTime >= SELECT_DWELL_TIME) this.selectedPlantId = pointedPlantId;
+    } else {
+      this.dwellPlantId = pointedPlantId;
+      this.dwellTime = 0;
+    }
+
+    const selected = this.plants.find(p => p.id === this.selectedPlantId);
+    if (!selected) this.selectedPlantId = null;
+
+    switch (focusSource) {
+      case 'face': this.focus = input.facePosition; break;
+      case 'finger': this.focus = input.pointingPosition; break;
+      case 'selection': this.focus = selected ? getPlantHead(selected, growthHeightFactor) : null; break;
+    }
+  }
+
+  private updateSeeds() {
+    const { plantingRules, growthHeightFactor } = this.config;
+
+    this.seeds.forEach(seed => {
+      if (!seed.isLanded) {
+        // Land on the first surface passed this tick: a platform, a planter or the ground
+        const surface = surfaceBelow(this.terrain, seed.x, seed.y, this.width, this.height);
+        seed.x = Math.min(Math.max(seed.x + (seed.vx ?? 0), 0), this.width);
+        seed.y += seed.vy;
+        seed.vy += 0.5;
+        const canBounce = plantingRules.bounce && (seed.bounces ?? 0) < MAX_SEED_BOUNCES;
+
+        // Falling onto a plant knocks the seed off to the side
+        if (canBounce && seed.vy > 0) {
+          const hit = this.plants.find(plant =>
+            Math.abs(plant.x - seed.x) <= plant.maxHeight && hitTestPlant(seed, plant, growthHeightFactor) <= 2);
+          if (hit) {
+            this.bounceSeed(seed, hit.x, seed.vy * 0.3);
+            return;
+          }
+        }
+
+        if (seed.y >= surface.y) {
+          seed.y = surface.y;
+          // Too close to another plant: hop aside towards free ground, or fail to take root
+          const crowder = plantingRules.spacing ? this.crowdingPlant(seed) : null;
+          if (crowder && canBounce) {
+            this.bounceSeed(seed, crowder.x, SEED_HOP);
+            return;
+          }
+          seed.isLanded = true;
+          // In a shared garden the station that sowed a seed has the final say on whether and how
+          // it came up, as the plants around it may differ slightly between stations
+          if (crowder) {
+            if (this.isOwn(seed)) this.emit({ type: 'remove', ids: [seed.id] });
+            return;
+          }
+
+          // Drawn from the seed's id, so every station grows the same plant from it
+          const variation = createRandom(hashString(seed.id));
+          let maxHeight = 200 + variation() * 150;
+          const plantSeed = variation() * 100;
+          // Competition: a seedling coming up in a crowd is stunted
+          if (plantingRules.competition) maxHeight *= 1 - this.crowdingAt(seed, seed.species) * COMPETITION_STUNT;
+          const plant = this.createPlant(seed, maxHeight, plantSeed);
+          this.plants.push(plant);
+          this.events.push({ type: 'seedLanded', species: seed.species, x: seed.x });
+          if (this.isOwn(seed)) this.emit({ type: 'plant', plants: [{ ...plant }] });
+        }
+      }
+    });
+    this.seeds = this.seeds.filter(s => !s.isLanded);
+  }
+
+  // A sprout growing from a landed seed
+  private createPlant(seed: Seed, maxHeight: number, plantSeed: number): Plant {
+    return {
+      id: seed.id,
+      x: seed.x,
+      y: seed.y,
+      height: 0,
+      maxHeight,
+      growthProgress: 0,
+      species: seed.species,
+      color: seed.color,
+      seed: plantSeed,
+      ...generatePlantStructure(seed.species, plantSeed, maxHeight),
+      stage: 'sprout',
+      stageAge: 0,
+      florets: 1,
+      sway: 0,
+      swayVelocity: 0,
+      contributor: seed.contributor,
+    };
+  }
+
+  // Sends a seed up and sideways away from `awayFromX`; at the canvas edges it always heads inwards
+  private bounceSeed(seed: Seed, awayFromX: number, lift: number) {
+    let direction = Math.sign(seed.x - awayFromX) || (this.random() < 0.5 ? -1 : 1);
+    if (seed.x <= 0) direction = 1;
+    else if (seed.x >= this.width) direction = -1;
+    seed.vx = direction * SEED_BOUNCE_SPEED;
+    seed.vy = -lift;
+    seed.bounces = (seed.bounces ?? 0) + 1;
+  }
+
+  // Closest plant whose base is within the spacing either species needs, or null if there is room
+  private crowdingPlant(seed: Seed): Plant | null {
+    const spacing = getSpeciesSpacing(seed.species);
+    let best = Infinity;
+    let found: Plant | null = null;
+    this.plants.forEach(plant => {
+      const distance = Math.hypot(plant.x - seed.x, plant.y - seed.y);
+      if (distance < Math.max(spacing, getSpeciesSpacing(plant.species)) && distance < best) {
+        best = distance;
+        found = plant;
+      }
+    });
+    return found;
+  }
+
+  // How close to one another two bases at this distance are, 0 (out of range) to 1 (touching)
+  private closeness(distance: number, a: SpeciesId, b: SpeciesId) {
+    const range = Math.max(getSpeciesSpacing(a), getSpeciesSpacing(b)) * CROWDING_RANGE;
+    return Math.max(0, 1 - distance / range);
+  }
+
+  // Crowding (0..1) a plant of `species` at `point` would have among the current plants
+  private crowdingAt(point: Point, species: SpeciesId) {
+    const total = this.plants.reduce((sum, plant) =>
+      sum + this.closeness(Math.hypot(plant.x - point.x, plant.y - point.y), species, plant.species), 0);
+    return Math.min(total / CROWDING_FULL, 1);
+  }
+
+  // Recomputes competition crowding and lean-away bend for every plant, every few ticks
+  private updateNeighbours() {
+    if (--this.neighbourCountdown > 0) return;
+    this.neighbourCountdown = NEIGHBOUR_INTERVAL;
+    const { competition, leanAway } = this.config.plantingRules;
+
+    const sorted = [...this.plants].sort((a, b) => a.x - b.x);
+    const crowding = new Float64Array(sorted.length);
+    const lean = new Float64Array(sorted.length);
+    if (competition || leanAway) {
+      // Sweep in x order; pairs further apart than the widest range in the garden are skipped.
+      // Same falloff as closeness(), with the ranges looked up once per plant (this runs on thousands).
+      const ranges = sorted.map(p => getSpeciesSpacing(p.species) * CROWDING_RANGE);
+      const reach = ranges.reduce((max, range) => Math.max(max, range), 0);
+      sorted.forEach((a, i) => {
+        for (let j = i + 1; j < sorted.length && sorted[j].x - a.x < reach; j++) {
+          const b = sorted[j];
+          const range = Math.max(ranges[i], ranges[j]);
+          if (b.x - a.x >= range) continue;
+          const closeness = 1 - Math.hypot(b.x - a.x, b.y - a.y) / range;
+          if (closeness <= 0) continue;
+          crowding[i] += closeness;
+          crowding[j] += closeness;
+          // a is on the left: it leans left, b leans right
+          lean[i] -= closeness * LEAN_PER_NEIGHBOUR;
+          lean[j] += closeness * LEAN_PER_NEIGHBOUR;
+        }
+      });
+    }
+
+    sorted.forEach((plant, i) => {
+      plant.crowding = competition ? Math.min(crowding[i] / CROWDING_FULL, 1) : 0;
+      plant.lean = leanAway ? Math.min(Math.max(lean[i], -MAX_LEAN), MAX_LEAN) : 0;
+    });
+  }
+
+  private updateWind(input: InteractionState) {
+    // Blowing comes from the face; without one (pointer input) from wherever the user points
+    this.gust += (input.blowStrength - this.gust) * GUST_SMOOTHING;
+    this.gustOrigin = input.facePosition ?? input.pointingPosition ?? this.gustOrigin;
+
+    const heightFactor = this.config.growthHeightFactor;
+    this.plants.forEach(plant => {
+      const head = getPlantHead(plant, heightFactor);
+      const force = this.windAt(head.x);
+      const grown = Math.min(plant.growthProgress * heightFactor, 1);
+
+      // Damped spring towards the bend the current wind (plus any lean away from neighbours) would hold the stem at
+      const rest = (force * SWAY_PER_FORCE * (plant.maxHeight / 300) + (plant.lean ?? 0)) * grown;
+      plant.swayVelocity += (rest - plant.sway) * SWAY_STIFFNESS;
+      plant.swayVelocity *= 1 - SWAY_DAMPING;
+      plant.sway += plant.swayVelocity;
+
+      // Gusts strip florets off dandelion clocks; some of them take root downwind
+      if (plant.stage !== 'seedHead' || plant.florets <= 0) return;
+      const gustForce = Math.abs(this.gustAt(head.x));
+      if (gustForce < FLORET_RELEASE_FORCE) return;
+      const released = Math.min(plant.florets, (gustForce - FLORET_RELEASE_FORCE) * FLORET_RELEASE_RATE);
+      plant.florets -= released;
+      const direction = Math.sign(force) || 1;
+      const florets = Math.max(1, Math.round(released * 48));
+      for (let i = 0; i < florets; i++) {
+        this.particles.push(this.particlePool.acquire({
+          id: randomId(this.random),
+          x: head.x + (this.random() - 0.5) * 30,
+          y: head.y + (this.random() - 0.5) * 30,
+          vx: direction * (1 + this.random() * 3),
+          vy: -this.random() * 2,
+          color: '#ffffff',
+          life: 1.0,
+          size: this.random() * 2 + 3,
+          kind: 'floret'
+        }));
+        if (this.isOwn(plant) && this.random() < FLORET_SEED_CHANCE) this.selfSeed(plant, 1, direction);
+      }
+      if (plant.florets <= 0.01) {
+        plant.florets = 0;
+        this.setStage(plant, 'wilting');
+      }
+      if (this.contributor !== null) this.pendingFlorets.set(plant.id, plant.florets);
+    });
+  }
+
+  // Horizontal wind force at x: the ambient breeze plus any gust being blown
+  private windAt(x: number): number {
+    const t = this.time;
+    const breeze = this.config.windStrength *
+      (0.5 + 0.5 * Math.sin(t * 0.0005 + x * 0.003)) *
+      (0.7 + 0.3 * Math.sin(t * 0.0031 + x * 0.011)); // Turbulence so stems never settle completely
+    return breeze + this.gustAt(x);
+  }
+
+  // Gusts blow away from the face and weaken with horizontal distance from it
+  private gustAt(x: number): number {
+    if (this.gust < 0.01 || !this.gustOrigin) return 0;
+    const dx = x - this.gustOrigin.x;
+    const falloff = 1 / (1 + (dx / GUST_REACH) ** 2);
+    return (Math.sign(dx) || 1) * this.gust * GUST_FORCE * falloff;
+  }
+
+  private updateParticles() {
+    this.particles.forEach(p => {
+      if (p.kind === 'implode') {
+        // An explosion fragment played backwards: undo the move, then the gravity
+        p.x -= p.vx;
+        p.y -= p.vy;
+        p.vy -= 0.2;
+        p.life += 1 / IMPLODE_TICKS;
+        return;
+      }
+      if (p.kind) {
+        // Florets and petals: nearly weightless, carried by the wind
+        const drag = p.kind === 'floret' ? 0.05 : 0.03;
+        p.vx += (this.windAt(p.x) * PARTICLE_WIND_DRIFT - p.vx) * drag;
+        p.vy += p.kind === 'floret' ? 0.01 : 0.04;
+        p.vy *= 0.98;
+        p.life -= p.kind === 'floret' ? 0.004 : 0.01;
+      } else {
+        p.vy += 0.2; // Gravity
+        p.life -= 0.02; // Fade out
+      }
+      p.x += p.vx;
+      p.y += p.vy;
+    });
+    this.particlePool.sweep(this.particles, p => p.kind === 'implode' ? p.life < 1 : p.life > 0);
+  }
+
+  // In 'focused' mode only plants near the focus (or the selected plant) grow
+  private isInFocus(plant: Plant): boolean {
+    const { growthMode, focusSource, focusRadius, growthHeightFactor } = this.config;
+    if (growthMode === 'all') return true;
+    if (focusSource === 'selection') return plant.id === this.selectedPlantId;
+    return !!this.focus && distanceToPlant(this.focus, plant, growthHeightFactor) <= focusRadius;
+  }
+
+  private updatePlants(input: InteractionState) {
+    let grew = false;
+    if (input.mouthOpenness > 0.05) {
+      const growthInput = input.mouthOpenness * 0.001 * GROWTH_SPEED;
+      this.plants.forEach(plant => {
+        if (plant.growthProgress < 1 && this.isInFocus(plant)) {
+          // Growth until the mouth stays closed for a moment is one undo step
+          if (!this.growSession) this.growSession = { before: this.plants.map(snapshotGrowth), idle: 0 };
+          // Competition: crowded plants grow slower (crowding stays 0 while the rule is off)
+          const rate = 1 - (plant.crowding ?? 0) * COMPETITION_SLOWDOWN;
+          const before = plant.growthProgress;
+          this.growPlant(plant, growthInput * rate);
+          this.shareGrowth(plant, plant.growthProgress - before);
+          grew = true;
+        }
+      });
+    }
+
+    if (this.growSession) {
+      this.growSession.idle = grew ? 0 : this.growSession.idle + FIXED_TIMESTEP;
+      if (this.growSession.idle >= GROW_SESSION_GAP) this.endGrowSession();
+    }
+  }
+
+  // Adds to a plant's growth, opening its head and moving it through the growth stages as it passes them
+  private growPlant(plant: Plant, amount: number) {
+    const heightFactor = this.config.growthHeightFactor;
+    const before = plant.growthProgress * heightFactor;
+    plant.growthProgress = Math.min(Math.max(plant.growthProgress + amount, 0), 1);
+    if (before <= HEAD_OPEN_PROGRESS && plant.growthProgress * heightFactor > HEAD_OPEN_PROGRESS) {
+      this.events.push({ type: 'headOpened', species: plant.species, x: plant.x });
+    }
+    // A plant past bloom keeps its stage; growth only moves it through sprout, bud and bloom
+    const stage = stageForProgress(plant.growthProgress);
+    if (isGrowthStage(plant.stage) && stage !== plant.stage) this.setStage(plant, stage);
+  }
+
+  // Ages bloomed plants through seed head, wilting and decay; growth (not time) drives sprout → bud → bloom
+  private updateLifecycle() {
+    const { lifecycleSpeed } = this.config;
+    if (lifecycleSpeed <= 0) return;
+
+    const decayed = new Set<string>();
+    this.plants.forEach(plant => {
+      const duration = getStageDuration(plant.stage);
+      if (duration === null) return;
+
+      plant.stageAge += FIXED_TIMESTEP * lifecycleSpeed;
+      if (plant.stage === 'wilting' && !hasSeedHead(plant.species) && this.random() < PETAL_DROP_RATE * lifecycleSpeed) {
+        this.dropPetals(plant, 1);
+      }
+      if (plant.stageAge < duration) return;
+
+      switch (plant.stage) {
+        case 'bloom':
+          if (hasSeedHead(plant.species)) {
+            this.setStage(plant, 'seedHead');
+          } else {
+            if (this.isOwn(plant)) this.selfSeed(plant, this.random() < 0.6 ? 1 : 2);
+            this.dropPetals(plant, 6);
+            this.setStage(plant, 'wilting');
+          }
+          break;
+        case 'seedHead':
+          // Whatever the wind hasn't taken drops around the plant
+          if (this.isOwn(plant)) this.selfSeed(plant, Math.round((2 + Math.floor(this.random() * 3)) * plant.florets));
+          plant.florets = 0;
+          this.setStage(plant, 'wilting');
+          break;
+        case 'wilting':
+          this.setStage(plant, 'decaying');
+          break;
+        case 'decaying':
+          decayed.add(plant.id);
+          break;
+      }
+    });
+    if (decayed.size === 0) return;
+    // Every station ages the plants on the same clock; the owner's removal settles any drift
+    const own = this.plants.filter(p => decayed.has(p.id) && this.isOwn(p)).map(p => p.id);
+    if (own.length > 0) this.emit({ type: 'remove', ids: own });
+    this.plants = this.plants.filter(p => !decayed.has(p.id));
+  }
+
+  private setStage(plant: Plant, stage: PlantStage) {
+    plant.stage = stage;
+    plant.stageAge = 0;
+  }
+
+  // Mature plants drop seeds of their own species around themselves so the garden spreads.
+  // With a direction (-1 or 1) the seeds are carried downwind instead. They belong to the parent's contributor.
+  private selfSeed(plant: Plant, count: number, direction = 0) {
+    const head = getPlantHead(plant, this.config.growthHeightFactor);
+    const seeds: Seed[] = [];
+    for (let i = 0; i < count; i++) {
+      if (this.plants.length + this.seeds.length >= MAX_SELF_SEEDED_GARDEN) break;
+      const offset = direction === 0 ? (this.random() - 0.5) : direction * this.random() * 2;
+      const x = head.x + offset * SELF_SEED_SPREAD;
+      const seed: Seed = {
+        id: randomId(this.random),
+        x: Math.min(Math.max(x, 10), this.width - 10),
+        y: head.y,
+        vy: 0,
+        species: plant.species,
+        color: getSpeciesColor(plant.species, this.random),
+        isLanded: false,
+        contributor: plant.contributor,
+      };
+      this.seeds.push(seed);
+      seeds.push({ ...seed });
+    }
+    if (seeds.length > 0) this.emit({ type: 'sow', seeds });
+  }
+
+  // --- Shared gardens ---
+
+  // Queues a change for the other stations while the garden is shared
+  private emit(op: GardenOp) {
+    if (this.contributor === null) return;
+    this.flushShared(); // Batched growth goes first, so ops stay in the order they happened
+    this.outbox.push(op);
+  }
+
+  private isOwn(item: Plant | Seed) {
+    return this.contributor === null || item.contributor === this.contributor;
+  }
+
+  private claimUntagged() {
+    const contributor = this.contributor;
+    if (contributor === null) return;
+    [...this.plants, ...this.seeds].forEach(item => { item.contributor ??= contributor; });
+  }
+
+  private shareGrowth(plant: Plant, amount: number) {
+    if (this.contributor === null || amount === 0) return;
+    this.pendingGrowth.set(plant.id, (this.pendingGrowth.get(plant.id) ?? 0) + amount);
+  }
+
+  private emitTerrain() {
+    this.emit({ type: 'terrain', terrain: cloneTerrain(this.terrain) });
+  }
+
+  // Conversions as they now stand here, one op per species
+  private emitConversion(ids: string[]) {
+    const wanted = new Set(ids);
+    const bySpecies = new Map<SpeciesId, { id: string; color: string }[]>();
+    [...this.plants, ...this.seeds].filter(item => wanted.has(item.id)).forEach(({ id, species, color }) => {
+      bySpecies.set(species, [...(bySpecies.get(species) ?? []), { id, color }]);
+    });
+    bySpecies.forEach((items, species) => this.emit({ type: 'convert', species, items }));
+  }
+
+  // Growth and seed heads change every tick, so they are sent in batches
+  private updateShared() {
+    if (this.contributor === null || --this.flushCountdown > 0) return;
+    this.flushCountdown = SHARED_FLUSH_TICKS;
+    this.flushShared();
+  }
+
+  private flushShared() {
+    if (this.pendingGrowth.size > 0) {
+      this.outbox.push({ type: 'grow', plants: [...this.pendingGrowth].map(([id, amount]) => ({ id, amount })) });
+      this.pendingGrowth.clear();
+    }
+    if (this.pendingFlorets.size > 0) {
+      this.outbox.push({ type: 'florets', plants: [...this.pendingFlorets].map(([id, florets]) => ({ id, florets })) });
+      this.pendingFlorets.clear();
+    }
+  }
+
+  private dropPetals(plant: Plant, count: number) {
+    const head = getPlantHead(plant, this.config.growthHeightFactor);
+    for (let i = 0; i < count; i++) {
+      this.particles.push(this.particlePool.acquire({
+        id: randomId(this.random),
+        x: head.x + (this.random() - 0.5) * 20,
+        y: head.y + (this.random() - 0.5) * 20,
+        vx: (this.random() - 0.5) * 1.5,
+        vy: -this.random(),
+        color: plant.color,
+        life: 1.0,
+        size: this.random() * 3 + 2,
+        kind: 'petal'
+      }));
+    }
+  }
+}
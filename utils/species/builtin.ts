@@ -0,0 +1,116 @@
+import { SpeciesDefinition } from './types';
+import { adjustColorBrightness } from '../color';
+
+// The ids are the original FlowerSpecies enum values, so gardens saved before the registry still load
+export const BUILTIN_SPECIES: SpeciesDefinition[] = [
+  {
+    id: '玫瑰',
+    names: { en: 'Rose', zh: '玫瑰' },
+    palette: { petals: ['#e11d48'], stem: '#4ade80', leaf: '#22c55e' }, // Red-600
+    // Woody stem with short side shoots carrying paired oval leaves
+    structure: {
+      axiom: 'FA', rules: { A: 'F[+FL][-L]F[-FL]A' }, iterations: 2,
+      angle: 0.6, curl: 0.08, branchScale: 0.45,
+      leafShape: 'oval', leafLength: 18, leafAspect: 0.55, leafAngle: 0.9,
+    },
+    head: (ctx, color) => {
+      ctx.fillStyle = color;
+      // Spiral body
+      ctx.beginPath();
+      for(let i=0; i<3; i++) {
+          ctx.arc(Math.sin(i*2)*3, Math.cos(i*2)*3, 10 + i*4, 0, Math.PI*2);
+      }
+      ctx.fill();
+
+      // Detail lines
+      ctx.strokeStyle = adjustColorBrightness(color, -30);
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.arc(0, 0, 8, 0, Math.PI*2);
+      ctx.stroke();
+    },
+    headRadius: 22,
+    spacing: 45,
+    seedHead: false,
+    voice: { pitch: 440, wave: 'triangle', decay: 0.6 },
+  },
+  {
+    id: '蒲公英',
+    names: { en: 'Dandelion', zh: '蒲公英' },
+    palette: { petals: ['#cbd5e1'], stem: '#4ade80', leaf: '#22c55e' }, // Slate-300
+    // Basal rosette of toothed leaves and a bare, hollow flower stalk
+    structure: {
+      axiom: '[++L][+++L][-L][--L][---L]FFFF', rules: {}, iterations: 0,
+      angle: 0.45, curl: 0.06, branchScale: 1,
+      leafShape: 'toothed', leafLength: 42, leafAspect: 0.3, leafAngle: 0,
+    },
+    // Yellow ray florets; turns into the white seed head later (drawSeedHead)
+    head: {
+      petals: [{ count: 28, shape: 'ellipse', inner: 2, length: 20, width: 3.6, color: '#fde047' }],
+      center: { radius: 6, color: '#eab308' },
+    },
+    spacing: 30,
+    seedHead: true,
+    voice: { pitch: 784, wave: 'sine', decay: 0.35 },
+  },
+  {
+    id: '野菊',
+    names: { en: 'Daisy', zh: '野菊' },
+    palette: { petals: ['#facc15'], stem: '#4ade80', leaf: '#22c55e' }, // Yellow-400
+    // Bushy, branching stems with narrow leaves
+    structure: {
+      axiom: 'FA', rules: { A: 'F[+FLFL]F[-FL]A' }, iterations: 2,
+      angle: 0.5, curl: 0.12, branchScale: 0.55,
+      leafShape: 'lance', leafLength: 16, leafAspect: 0.3, leafAngle: 0.7,
+    },
+    // Small petals, simpler than Sunflower, smaller darker center
+    head: {
+      petals: [{ count: 12, shape: 'ellipse', inner: 2, length: 22, width: 8 }],
+      center: { radius: 5, color: '#d97706' },
+    },
+    spacing: 35,
+    seedHead: false,
+    voice: { pitch: 587.33, wave: 'triangle', decay: 0.4 },
+  },
+  {
+    id: '郁金香',
+    names: { en: 'Tulip', zh: '郁金香' },
+    palette: { petals: ['#a855f7'], stem: '#4ade80', leaf: '#22c55e' }, // Purple-500
+    // Two or three broad blades clasping the lower stem, no branches
+    structure: {
+      axiom: 'F[+L]F[-L]FA', rules: { A: 'F' }, iterations: 1,
+      angle: 0.15, curl: 0.04, branchScale: 1,
+      leafShape: 'blade', leafLength: 70, leafAspect: 0.22, leafAngle: 0.25,
+    },
+    head: (ctx, color) => {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(0, 0);
+      ctx.bezierCurveTo(-15, -20, -15, -40, 0, -50);
+      ctx.bezierCurveTo(15, -40, 15, -20, 0, 0);
+      ctx.fill();
+    },
+    headRadius: 45, // Cup rises 50px above the stem tip
+    spacing: 50,
+    seedHead: false,
+    voice: { pitch: 329.63, wave: 'sine', decay: 0.8 },
+  },
+  {
+    id: '向日葵',
+    names: { en: 'Sunflower', zh: '向日葵' },
+    palette: { petals: ['#f59e0b'], stem: '#4ade80', leaf: '#22c55e' }, // Amber-500
+    // Tall single stalk with large alternating heart-shaped leaves
+    structure: {
+      axiom: 'A', rules: { A: 'F[+L]F[-L]A' }, iterations: 4,
+      angle: 0.3, curl: 0.05, branchScale: 1,
+      leafShape: 'heart', leafLength: 34, leafAspect: 0.8, leafAngle: 0.9,
+    },
+    head: {
+      petals: [{ count: 14, shape: 'ellipse', inner: 2, length: 38, width: 12 }],
+      center: { radius: 14, color: '#78350f' }, // Brown
+    },
+    spacing: 80,
+    seedHead: false,
+    voice: { pitch: 196, wave: 'sawtooth', decay: 0.9 },
+  },
+];
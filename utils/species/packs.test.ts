@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STRUCTURE, parseSpeciesPack, SpeciesPackEntry } from './packs';
+
+const poppy: SpeciesPackEntry = {
+  id: 'meadow:poppy',
+  names: { en: 'Poppy', zh: '虞美人' },
+  palette: { petals: ['#dc2626', '#f97316'] },
+  head: { petals: [{ count: 4, shape: 'round', length: 22, width: 24 }], center: { radius: 5, color: '#1c1917' } },
+};
+
+const pack = (...species: unknown[]) => JSON.stringify({ format: 'garden-ai-species', version: 1, name: 'Meadow', species });
+
+// The pack with one field of the poppy replaced
+const withPoppy = (changes: Record<string, unknown>) => pack({ ...poppy, ...changes });
+
+describe('parseSpeciesPack', () => {
+  it('fills in what a species leaves out', () => {
+    const [species] = parseSpeciesPack(pack(poppy));
+    expect(species.id).toBe('meadow:poppy');
+    expect(species.palette).toEqual({ petals: ['#dc2626', '#f97316'], stem: '#4ade80', leaf: '#22c55e' });
+    expect(species.structure).toEqual(DEFAULT_STRUCTURE);
+    expect(species.seedHead).toBe(false);
+    expect(species.voice).toBeUndefined();
+  });
+
+  it('keeps the stem parameters and voice it gives', () => {
+    const [species] = parseSpeciesPack(withPoppy({
+      structure: { iterations: 2, leafShape: 'heart' },
+      voice: { pitch: 523.25 },
+      spacing: 60,
+      seedHead: true,
+    }));
+    expect(species.structure).toEqual({ ...DEFAULT_STRUCTURE, iterations: 2, leafShape: 'heart' });
+    expect(species.voice).toEqual({ pitch: 523.25, wave: 'triangle', decay: 0.5 });
+    expect(species.spacing).toBe(60);
+    expect(species.seedHead).toBe(true);
+  });
+
+  it('rejects files that are not species packs', () => {
+    expect(() => parseSpeciesPack('not json')).toThrow('Invalid JSON');
+    expect(() => parseSpeciesPack(JSON.stringify({ format: 'garden-ai', species: [] }))).toThrow('Not a species pack');
+    expect(() => parseSpeciesPack(JSON.stringify({ format: 'garden-ai-species', version: 2, species: [] }))).toThrow('Unsupported version');
+  });
+
+  it('rejects built-in ids and malformed species', () => {
+    expect(() => parseSpeciesPack(withPoppy({ id: '玫瑰' }))).toThrow('Cannot replace built-in species');
+    expect(() => parseSpeciesPack(withPoppy({ id: ' ' }))).toThrow('missing id');
+    expect(() => parseSpeciesPack(withPoppy({ palette: { petals: ['red'] } }))).toThrow('palette.petals');
+    expect(() => parseSpeciesPack(withPoppy({ head: { petals: [{ count: 0, shape: 'round', length: 1, width: 1 }] } }))).toThrow('head.petals');
+    expect(() => parseSpeciesPack(withPoppy({ head: { petals: [], center: { radius: 5, color: '#fff' } } }))).toThrow('head.center');
+    expect(() => parseSpeciesPack(withPoppy({ structure: { leafShape: 'star' } }))).toThrow('structure');
+    expect(() => parseSpeciesPack(withPoppy({ spacing: -1 }))).toThrow('spacing');
+    expect(() => parseSpeciesPack(withPoppy({ voice: { wave: 'sine' } }))).toThrow('voice');
+  });
+
+  it('rejects a stem whose rules would grow without bound', () => {
+    expect(() => parseSpeciesPack(withPoppy({ structure: { axiom: 'A', rules: { A: 'AA' }, iterations: 20 } }))).toThrow('too large');
+  });
+});
@@ -0,0 +1,172 @@
+import { LeafShape } from '../../types';
+import { expandStructure } from '../plantStructure';
+import { isFiniteNumber, isHexColor } from '../validation';
+import { BUILTIN_SPECIES } from './builtin';
+import { registerSpecies } from './registry';
+import { HeadShape, PetalShape, SpeciesDefinition, SpeciesVoice, StemStructure, VoiceWave } from './types';
+
+export const SPECIES_PACK_EXTENSION = '.species.json';
+const PACKS_KEY = 'garden-ai:species-packs';
+
+/**
+ * Third-party species as plain JSON. Packs can't ship code, so heads are declarative
+ * (HeadShape) and any stem parameters left out fall back to DEFAULT_STRUCTURE.
+ *
+ *   { "format": "garden-ai-species", "version": 1, "name": "Meadow",
+ *     "species": [{ "id": "meadow:poppy", "names": { "en": "Poppy", "zh": "虞美人" },
+ *                   "palette": { "petals": ["#dc2626", "#f97316"] },
+ *                   "head": { "petals": [{ "count": 4, "shape": "round", "length": 22, "width": 24 }],
+ *                             "center": { "radius": 5, "color": "#1c1917" } },
+ *                   "voice": { "pitch": 523.25, "wave": "sine", "decay": 0.5 } }] }
+ */
+export interface SpeciesPackFile {
+  format: 'garden-ai-species';
+  version: number;
+  name?: string;
+  species: SpeciesPackEntry[];
+}
+
+export interface SpeciesPackEntry {
+  id: string;
+  names: SpeciesDefinition['names'];
+  palette: { petals: string[]; stem?: string; leaf?: string };
+  structure?: Partial<StemStructure>;
+  head: HeadShape;
+  spacing?: number;
+  seedHead?: boolean;
+  voice?: Partial<SpeciesVoice>;
+}
+
+const SPECIES_PACK_VERSION = 1;
+const MAX_STRUCTURE_SYMBOLS = 2000; // Keeps a careless rule from expanding exponentially
+
+export const DEFAULT_STRUCTURE: StemStructure = {
+  axiom: 'A', rules: { A: 'F[+L]F[-L]A' }, iterations: 3,
+  angle: 0.4, curl: 0.08, branchScale: 0.6,
+  leafShape: 'lance', leafLength: 20, leafAspect: 0.35, leafAngle: 0.8,
+};
+
+const PETAL_SHAPES = new Set<PetalShape>(['ellipse', 'teardrop', 'round', 'spike']);
+const LEAF_SHAPES = new Set<LeafShape>(['oval', 'lance', 'heart', 'blade', 'toothed']);
+const VOICE_WAVES = new Set<VoiceWave>(['sine', 'triangle', 'square', 'sawtooth']);
+const BUILTIN_IDS = new Set(BUILTIN_SPECIES.map(s => s.id));
+
+function invalid(id: string, what: string): never {
+  throw new Error(`花种包无效: ${id} 的 ${what} (Invalid species pack: ${what} of "${id}")`);
+}
+
+const toDefinition = (entry: SpeciesPackEntry): SpeciesDefinition => {
+  const id = entry?.id;
+  if (typeof id !== 'string' || !id.trim()) throw new Error('花种包无效: 缺少 id (Invalid species pack: missing id)');
+  if (BUILTIN_IDS.has(id)) throw new Error(`不能覆盖内置花种 ${id} (Cannot replace built-in species "${id}")`);
+  if (!entry.names || typeof entry.names.en !== 'string') invalid(id, 'names.en');
+
+  const { petals: colors, stem = '#4ade80', leaf = '#22c55e' } = entry.palette ?? {};
+  if (!Array.isArray(colors) || colors.length === 0 || !colors.every(isHexColor)) invalid(id, 'palette.petals');
+  if (!isHexColor(stem) || !isHexColor(leaf)) invalid(id, 'palette');
+
+  const head = entry.head;
+  if (!head || !Array.isArray(head.petals)) invalid(id, 'head');
+  head.petals.forEach(layer => {
+    if (!layer || !PETAL_SHAPES.has(layer.shape) || !Number.isInteger(layer.count) || layer.count < 1 || layer.count > 200 ||
+      !isFiniteNumber(layer.length) || !isFiniteNumber(layer.width) ||
+      (layer.inner !== undefined && !isFiniteNumber(layer.inner)) ||
+      (layer.offset !== undefined && !isFiniteNumber(layer.offset)) ||
+      (layer.color !== undefined && !isHexColor(layer.color))) {
+      invalid(id, 'head.petals');
+    }
+  });
+  if (head.center && (!isFiniteNumber(head.center.radius) || !isHexColor(head.center.color))) invalid(id, 'head.center');
+
+  const structure: StemStructure = { ...DEFAULT_STRUCTURE, ...entry.structure };
+  if (typeof structure.axiom !== 'string' || !structure.rules || typeof structure.rules !== 'object' ||
+    !Object.values(structure.rules).every(rule => typeof rule === 'string') ||
+    !Number.isInteger(structure.iterations) || structure.iterations < 0 || !LEAF_SHAPES.has(structure.leafShape) ||
+    ![structure.angle, structure.curl, structure.branchScale, structure.leafLength, structure.leafAspect, structure.leafAngle].every(isFiniteNumber)) {
+    invalid(id, 'structure');
+  }
+  if (expandStructure(structure, MAX_STRUCTURE_SYMBOLS) === null) invalid(id, 'structure (too large)');
+  if (entry.spacing !== undefined && (!isFiniteNumber(entry.spacing) || entry.spacing < 0)) invalid(id, 'spacing');
+
+  // A voice needs a pitch; the rest has defaults
+  let voice: SpeciesVoice | undefined;
+  if (entry.voice !== undefined) {
+    const { pitch, wave = 'triangle', decay = 0.5 } = entry.voice ?? {};
+    if (!isFiniteNumber(pitch) || pitch < 20 || pitch > 5000 || !VOICE_WAVES.has(wave) ||
+      !isFiniteNumber(decay) || decay <= 0 || decay > 5) {
+      invalid(id, 'voice');
+    }
+    voice = { pitch, wave, decay };
+  }
+
+  return {
+    id,
+    names: entry.names,
+    palette: { petals: colors, stem, leaf },
+    structure,
+    head: { petals: head.petals, center: head.center },
+    spacing: entry.spacing,
+    seedHead: entry.seedHead === true,
+    voice,
+  };
+};
+
+// Validates an untrusted pack and converts it into registry definitions (without registering)
+export const parseSpeciesPack = (text: string): SpeciesDefinition[] => {
+  let file: Partial<SpeciesPackFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('花种包已损坏 (Invalid JSON)');
+  }
+  if (!file || file.format !== 'garden-ai-species' || !Array.isArray(file.species)) {
+    throw new Error('不是有效的花种包 (Not a species pack)');
+  }
+  if (!isFiniteNumber(file.version) || file.version > SPECIES_PACK_VERSION) {
+    throw new Error(`花种包版本过新 (Unsupported version ${file.version})`);
+  }
+  return file.species.map(toDefinition);
+};
+
+// Packs are kept in localStorage so gardens using their species still load next time
+const loadStoredPacks = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PACKS_KEY) ?? '[]') as string[];
+  } catch {
+    return [];
+  }
+};
+
+// Registers a pack picked by the user and remembers it; returns the species it added
+export const loadSpeciesPack = async (file: File): Promise<SpeciesDefinition[]> => {
+  const text = await file.text();
+  const species = parseSpeciesPack(text);
+  registerSpecies(species);
+
+  const ids = new Set(species.map(s => s.id));
+  // Drop older copies of the same species so re-importing a pack updates it
+  const stored = loadStoredPacks().filter(packText => {
+    try {
+      return !parseSpeciesPack(packText).some(s => ids.has(s.id));
+    } catch {
+      return false;
+    }
+  });
+  try {
+    localStorage.setItem(PACKS_KEY, JSON.stringify([...stored, text]));
+  } catch (err) {
+    console.warn('Could not remember species pack:', err);
+  }
+  return species;
+};
+
+// Re-registers the packs loaded in earlier sessions; call once before anything reads the registry
+export const restoreSpeciesPacks = () => {
+  loadStoredPacks().forEach(text => {
+    try {
+      registerSpecies(parseSpeciesPack(text));
+    } catch (err) {
+      console.warn('Skipping unreadable species pack:', err);
+    }
+  });
+};
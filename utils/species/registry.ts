@@ -0,0 +1,64 @@
+import { SpeciesId } from '../../types';
+import { hashString, Random } from '../random';
+import { BUILTIN_SPECIES } from './builtin';
+import { SpeciesDefinition, SpeciesVoice } from './types';
+
+// Every species the garden knows about, in display order. Built-ins first, then packs.
+const registry = new Map<SpeciesId, SpeciesDefinition>();
+const listeners = new Set<() => void>();
+
+BUILTIN_SPECIES.forEach(species => registry.set(species.id, species));
+
+// Plants whose species isn't registered (e.g. from a pack that isn't loaded) render as this
+const FALLBACK_SPECIES = BUILTIN_SPECIES[0];
+
+// Adds or replaces species; returns the ids that were registered
+export const registerSpecies = (species: SpeciesDefinition[]): SpeciesId[] => {
+  species.forEach(s => registry.set(s.id, s));
+  listeners.forEach(listener => listener());
+  return species.map(s => s.id);
+};
+
+export const listSpecies = (): SpeciesDefinition[] => [...registry.values()];
+
+export const hasSpecies = (id: string): boolean => registry.has(id);
+
+export const getSpecies = (id: SpeciesId): SpeciesDefinition => registry.get(id) ?? FALLBACK_SPECIES;
+
+// Called whenever the set of species changes, so UI built from the registry can refresh
+export const subscribeSpecies = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const pickRandomSpecies = (random: Random): SpeciesId => {
+  const all = listSpecies();
+  return all[Math.floor(random() * all.length)].id;
+};
+
+// Signature colour, or a random palette variant when a generator is given
+export const getSpeciesColor = (id: SpeciesId, random?: Random): string => {
+  const { petals } = getSpecies(id).palette;
+  return random && petals.length > 1 ? petals[Math.floor(random() * petals.length)] : petals[0];
+};
+
+const DEFAULT_SPACING = 40;
+
+// Minimum distance between this species' base and any other plant's
+export const getSpeciesSpacing = (id: SpeciesId): number => getSpecies(id).spacing ?? DEFAULT_SPACING;
+
+// Major pentatonic from C4 over two octaves, so derived voices never clash
+const PENTATONIC = [261.63, 293.66, 329.63, 392, 440, 523.25, 587.33, 659.25, 783.99, 880];
+
+// The species' own voice, or a stable one picked from its id
+export const getSpeciesVoice = (id: SpeciesId): SpeciesVoice => {
+  const { voice } = getSpecies(id);
+  if (voice) return voice;
+  return { pitch: PENTATONIC[hashString(id) % PENTATONIC.length], wave: 'triangle', decay: 0.5 };
+};
+
+// "玫瑰 (Rose)" style label used across the UI
+export const getSpeciesLabel = (species: SpeciesDefinition): string =>
+  species.names.zh && species.names.zh !== species.names.en
+    ? `${species.names.zh} (${species.names.en})`
+    : species.names.en;
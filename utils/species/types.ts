@@ -0,0 +1,68 @@
+import { LeafShape, SpeciesId } from '../../types';
+import type { DrawingContext } from '../drawing';
+
+/**
+ * Bracketed L-system that grows the stem. Symbols understood by the turtle:
+ *   F  grow one segment        +/-  turn by `angle` (jittered)
+ *   [  start a side branch      ]   end it
+ *   L  attach a leaf            anything else is a placeholder for rewriting only
+ */
+export interface StemStructure {
+  axiom: string;
+  rules: Record<string, string>;
+  iterations: number;
+  angle: number; // Radians per +/- turn
+  curl: number; // Max random heading change per segment (radians)
+  branchScale: number; // Segment length multiplier per branch depth
+  leafShape: LeafShape;
+  leafLength: number; // px at full size
+  leafAspect: number; // width / length
+  leafAngle: number; // Radians between a stem and its leaves
+}
+
+export type PetalShape = 'ellipse' | 'teardrop' | 'round' | 'spike';
+
+// One ring of identical petals around the centre of the head
+export interface PetalLayer {
+  count: number;
+  shape: PetalShape;
+  inner?: number; // px from the centre where petals start (default 0)
+  length: number; // px from the centre to the petal tip
+  width: number;
+  color?: string; // Defaults to the plant's colour
+  offset?: number; // Rotation in fractions of one petal step, to stagger layers
+}
+
+// Declarative flower head, for species that can't ship code (JSON packs)
+export interface HeadShape {
+  petals: PetalLayer[];
+  center?: { radius: number; color: string };
+}
+
+// Draws the open flower head centred at the origin, in its full-size coordinates
+export type DrawHead = (ctx: DrawingContext, color: string) => void;
+
+export type VoiceWave = 'sine' | 'triangle' | 'square' | 'sawtooth';
+
+// How the species sounds when its seed lands and its head opens (see utils/audio)
+export interface SpeciesVoice {
+  pitch: number; // Hz of the landing pluck; the opening chime is built on it
+  wave: VoiceWave;
+  decay: number; // Seconds the pluck rings
+}
+
+export interface SpeciesDefinition {
+  id: SpeciesId; // Stored in saved gardens; never rename a published id
+  names: { en: string; zh?: string; [locale: string]: string | undefined };
+  palette: {
+    petals: string[]; // First entry is the species' signature colour, the rest are variants
+    stem: string;
+    leaf: string;
+  };
+  structure: StemStructure;
+  head: HeadShape | DrawHead;
+  headRadius?: number; // px a DrawHead reaches from its centre, for hit-testing
+  spacing?: number; // px kept clear around the base when planting rules enforce spacing (default 40)
+  seedHead: boolean; // Turns into a dandelion-style clock after blooming
+  voice?: SpeciesVoice; // Derived from the id when left out
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { classifyCameraError, INITIAL_STARTUP, StartupEvent, StartupState, startupReducer } from './startup';
+
+const run = (events: StartupEvent[], from: StartupState = INITIAL_STARTUP) => events.reduce(startupReducer, from);
+
+describe('startupReducer', () => {
+  it('loads the models, then starts the camera', () => {
+    expect(run([{ type: 'modelsLoaded' }])).toEqual({ phase: 'startingCamera' });
+    expect(run([{ type: 'modelsLoaded' }, { type: 'inputStarted' }])).toEqual({ phase: 'running' });
+  });
+
+  it('retries failed models from the start', () => {
+    const failed = run([{ type: 'modelsFailed', detail: 'offline' }]);
+    expect(failed).toEqual({ phase: 'modelFailed', detail: 'offline' });
+    expect(run([{ type: 'retry' }], failed)).toEqual({ phase: 'loadingModels' });
+  });
+
+  it('retries a denied or missing camera without reloading the models', () => {
+    const denied = run([{ type: 'modelsLoaded' }, { type: 'cameraDenied' }]);
+    expect(denied).toEqual({ phase: 'cameraDenied' });
+    expect(run([{ type: 'retry' }], denied)).toEqual({ phase: 'startingCamera' });
+
+    const missing = run([{ type: 'modelsLoaded' }, { type: 'cameraMissing', detail: 'none' }]);
+    expect(missing).toEqual({ phase: 'noCamera', detail: 'none' });
+    expect(run([{ type: 'retry' }], missing)).toEqual({ phase: 'startingCamera' });
+  });
+
+  it('runs without the camera from any screen', () => {
+    const screens: StartupState[] = [
+      INITIAL_STARTUP, { phase: 'cameraDenied' }, { phase: 'noCamera', detail: '' }, { phase: 'modelFailed', detail: '' },
+    ];
+    screens.forEach(state => expect(startupReducer(state, { type: 'inputStarted' })).toEqual({ phase: 'running' }));
+  });
+
+  it('ignores events that do not apply', () => {
+    const running = run([{ type: 'inputStarted' }]);
+    expect(run([{ type: 'cameraDenied' }, { type: 'retry' }, { type: 'modelsFailed', detail: '' }], running)).toBe(running);
+    expect(startupReducer(INITIAL_STARTUP, { type: 'cameraDenied' })).toBe(INITIAL_STARTUP);
+  });
+});
+
+describe('classifyCameraError', () => {
+  it('sorts getUserMedia failures into screens', () => {
+    expect(classifyCameraError(new DOMException('', 'NotAllowedError'))).toEqual({ type: 'cameraDenied' });
+    expect(classifyCameraError(new DOMException('', 'NotReadableError'))).toMatchObject({ type: 'cameraMissing' });
+    expect(classifyCameraError(new DOMException('', 'NotFoundError'))).toMatchObject({ type: 'cameraMissing' });
+    expect(classifyCameraError(new Error('boom'))).toMatchObject({ type: 'cameraMissing' });
+  });
+});
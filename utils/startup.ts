@@ -0,0 +1,59 @@
+// What the app is doing before the garden runs, and which screen shows it.
+//
+//   loadingModels ──loaded──▶ startingCamera ──started──▶ running
+//        │                        ├──denied──▶ cameraDenied ──retry──▶ startingCamera
+//        └──failed──▶ modelFailed  └──missing─▶ noCamera ─────retry──▶ startingCamera
+//                       └──retry──▶ loadingModels
+//
+// From any screen the user can start without the camera (mouse/touch or a landmark replay),
+// which also ends up in running.
+export type StartupState =
+  | { phase: 'loadingModels' }
+  | { phase: 'startingCamera' }
+  | { phase: 'cameraDenied' }
+  | { phase: 'noCamera'; detail: string }
+  | { phase: 'modelFailed'; detail: string }
+  | { phase: 'running' };
+
+export type StartupEvent =
+  | { type: 'modelsLoaded' }
+  | { type: 'modelsFailed'; detail: string }
+  | { type: 'cameraDenied' }
+  | { type: 'cameraMissing'; detail: string }
+  | { type: 'inputStarted' } // Camera, pointer or replay became the active input
+  | { type: 'retry' };
+
+export const INITIAL_STARTUP: StartupState = { phase: 'loadingModels' };
+
+// Events that don't apply to the current phase are ignored
+export const startupReducer = (state: StartupState, event: StartupEvent): StartupState => {
+  if (event.type === 'inputStarted') return { phase: 'running' };
+  switch (state.phase) {
+    case 'loadingModels':
+      if (event.type === 'modelsLoaded') return { phase: 'startingCamera' };
+      if (event.type === 'modelsFailed') return { phase: 'modelFailed', detail: event.detail };
+      break;
+    case 'startingCamera':
+      if (event.type === 'cameraDenied') return { phase: 'cameraDenied' };
+      if (event.type === 'cameraMissing') return { phase: 'noCamera', detail: event.detail };
+      break;
+    case 'cameraDenied':
+    case 'noCamera':
+      if (event.type === 'retry') return { phase: 'startingCamera' };
+      break;
+    case 'modelFailed':
+      if (event.type === 'retry') return { phase: 'loadingModels' };
+      break;
+  }
+  return state;
+};
+
+// Sorts a getUserMedia failure into the screen it should show
+export const classifyCameraError = (err: unknown): StartupEvent => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return { type: 'cameraDenied' };
+  if (name === 'NotReadableError' || name === 'AbortError') {
+    return { type: 'cameraMissing', detail: '摄像头正被其他程序占用 (The camera is in use by another app)' };
+  }
+  return { type: 'cameraMissing', detail: '未找到摄像头 (No camera found)' };
+};
@@ -0,0 +1,232 @@
+import type { DrawingContext } from './drawing';
+
+type Matrix = [number, number, number, number, number, number]; // a b c d e f, as in DOMMatrix
+
+interface SvgState {
+  matrix: Matrix;
+  fillStyle: string | SvgGradient;
+  strokeStyle: string | SvgGradient;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  globalAlpha: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const fmt = (n: number) => (Math.round(n * 100) / 100).toString();
+
+const escapeAttr = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+class SvgGradient {
+  stops: { offset: number; color: string }[] = [];
+
+  constructor(readonly x0: number, readonly y0: number, readonly r0: number,
+              readonly x1: number, readonly y1: number, readonly r1: number) {}
+
+  addColorStop(offset: number, color: string) {
+    this.stops.push({ offset, color });
+  }
+}
+
+/**
+ * Minimal Canvas 2D look-alike that records what the drawing functions in drawing.ts
+ * do and serializes it as SVG. Paths are flattened to absolute coordinates (arcs and
+ * ellipses become cubic Béziers) so every transform the canvas code uses is supported.
+ */
+export class SvgContext implements DrawingContext {
+  private state: SvgState;
+  private stack: SvgState[] = [];
+  private path: string[] = [];
+  private hasCurrentPoint = false;
+  private elements: string[] = [];
+  private defs: string[] = [];
+
+  constructor(readonly width: number, readonly height: number, initialTransform: Matrix = IDENTITY) {
+    this.state = {
+      matrix: initialTransform,
+      fillStyle: '#000000',
+      strokeStyle: '#000000',
+      lineWidth: 1,
+      lineCap: 'butt',
+      lineJoin: 'miter',
+      globalAlpha: 1,
+    };
+  }
+
+  get fillStyle() { return this.state.fillStyle as string; }
+  set fillStyle(value: string | CanvasGradient | CanvasPattern) { this.state.fillStyle = value as string | SvgGradient; }
+  get strokeStyle() { return this.state.strokeStyle as string; }
+  set strokeStyle(value: string | CanvasGradient | CanvasPattern) { this.state.strokeStyle = value as string | SvgGradient; }
+  get lineWidth() { return this.state.lineWidth; }
+  set lineWidth(value: number) { this.state.lineWidth = value; }
+  get lineCap() { return this.state.lineCap; }
+  set lineCap(value: CanvasLineCap) { this.state.lineCap = value; }
+  get lineJoin() { return this.state.lineJoin; }
+  set lineJoin(value: CanvasLineJoin) { this.state.lineJoin = value; }
+  get globalAlpha() { return this.state.globalAlpha; }
+  set globalAlpha(value: number) { this.state.globalAlpha = value; }
+
+  save() {
+    this.stack.push({ ...this.state });
+  }
+
+  restore() {
+    const previous = this.stack.pop();
+    if (previous) this.state = previous;
+  }
+
+  translate(x: number, y: number) {
+    this.state.matrix = multiply(this.state.matrix, [1, 0, 0, 1, x, y]);
+  }
+
+  scale(x: number, y: number) {
+    this.state.matrix = multiply(this.state.matrix, [x, 0, 0, y, 0, 0]);
+  }
+
+  rotate(angle: number) {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.state.matrix = multiply(this.state.matrix, [cos, sin, -sin, cos, 0, 0]);
+  }
+
+  createRadialGradient(x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): CanvasGradient {
+    return new SvgGradient(x0, y0, r0, x1, y1, r1);
+  }
+
+  beginPath() {
+    this.path = [];
+    this.hasCurrentPoint = false;
+  }
+
+  moveTo(x: number, y: number) {
+    this.path.push(`M${this.point(x, y)}`);
+    this.hasCurrentPoint = true;
+  }
+
+  lineTo(x: number, y: number) {
+    if (!this.hasCurrentPoint) return this.moveTo(x, y);
+    this.path.push(`L${this.point(x, y)}`);
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number) {
+    this.path.push(`Q${this.point(cpx, cpy)} ${this.point(x, y)}`);
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number) {
+    this.path.push(`C${this.point(cp1x, cp1y)} ${this.point(cp2x, cp2y)} ${this.point(x, y)}`);
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+  }
+
+  ellipse(x: number, y: number, radiusX: number, radiusY: number, rotation: number,
+          startAngle: number, endAngle: number, counterclockwise = false) {
+    // Normalize the sweep the same way canvas does
+    let sweep = endAngle - startAngle;
+    if (!counterclockwise && sweep >= Math.PI * 2) sweep = Math.PI * 2;
+    else if (counterclockwise && sweep <= -Math.PI * 2) sweep = -Math.PI * 2;
+    else if (!counterclockwise && sweep < 0) sweep = (sweep % (Math.PI * 2)) + Math.PI * 2;
+    else if (counterclockwise && sweep > 0) sweep = (sweep % (Math.PI * 2)) - Math.PI * 2;
+
+    const cosR = Math.cos(rotation);
+    const sinR = Math.sin(rotation);
+    const at = (t: number): [number, number] => {
+      const ex = radiusX * Math.cos(t);
+      const ey = radiusY * Math.sin(t);
+      return [x + ex * cosR - ey * sinR, y + ex * sinR + ey * cosR];
+    };
+    const tangent = (t: number): [number, number] => {
+      const dx = -radiusX * Math.sin(t);
+      const dy = radiusY * Math.cos(t);
+      return [dx * cosR - dy * sinR, dx * sinR + dy * cosR];
+    };
+
+    const [sx, sy] = at(startAngle);
+    // Canvas connects an arc to the existing subpath with a straight line
+    if (this.hasCurrentPoint) this.lineTo(sx, sy);
+    else this.moveTo(sx, sy);
+
+    // Split into ≤90° pieces; each piece is approximated by one cubic Bézier
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+    const delta = sweep / segments;
+    const k = (4 / 3) * Math.tan(delta / 4);
+    for (let i = 0; i < segments; i++) {
+      const t0 = startAngle + delta * i;
+      const t1 = t0 + delta;
+      const [x0, y0] = at(t0);
+      const [x1, y1] = at(t1);
+      const [dx0, dy0] = tangent(t0);
+      const [dx1, dy1] = tangent(t1);
+      this.bezierCurveTo(x0 + k * dx0, y0 + k * dy0, x1 - k * dx1, y1 - k * dy1, x1, y1);
+    }
+  }
+
+  fill() {
+    if (this.path.length === 0) return;
+    this.elements.push(
+      `<path d="${this.path.join('')}" fill="${this.paint(this.state.fillStyle)}"${this.opacity('fill')}/>`
+    );
+  }
+
+  stroke() {
+    if (this.path.length === 0) return;
+    // Stroke width follows the current transform, like canvas does
+    const [a, b, c, d] = this.state.matrix;
+    const widthScale = Math.sqrt(Math.abs(a * d - b * c));
+    this.elements.push(
+      `<path d="${this.path.join('')}" fill="none" stroke="${this.paint(this.state.strokeStyle)}"` +
+      ` stroke-width="${fmt(this.state.lineWidth * widthScale)}" stroke-linecap="${this.state.lineCap}"` +
+      ` stroke-linejoin="${this.state.lineJoin}"${this.opacity('stroke')}/>`
+    );
+  }
+
+  // Adds a raw SVG element (e.g. an embedded video frame) underneath the following drawing
+  appendRaw(markup: string) {
+    this.elements.push(markup);
+  }
+
+  toString(): string {
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}">`,
+      this.defs.length > 0 ? `<defs>${this.defs.join('')}</defs>` : '',
+      ...this.elements,
+      '</svg>',
+    ].join('\n');
+  }
+
+  private point(x: number, y: number) {
+    const [a, b, c, d, e, f] = this.state.matrix;
+    return `${fmt(a * x + c * y + e)},${fmt(b * x + d * y + f)}`;
+  }
+
+  private opacity(kind: 'fill' | 'stroke') {
+    return this.state.globalAlpha < 1 ? ` ${kind}-opacity="${fmt(this.state.globalAlpha)}"` : '';
+  }
+
+  private paint(style: string | SvgGradient): string {
+    if (!(style instanceof SvgGradient)) return escapeAttr(style);
+
+    const id = `g${this.defs.length}`;
+    const m = this.state.matrix.map(fmt).join(' ');
+    const stops = style.stops
+      .map(stop => `<stop offset="${fmt(stop.offset)}" stop-color="${escapeAttr(stop.color)}"/>`)
+      .join('');
+    this.defs.push(
+      `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" gradientTransform="matrix(${m})"` +
+      ` cx="${fmt(style.x1)}" cy="${fmt(style.y1)}" r="${fmt(style.r1)}"` +
+      ` fx="${fmt(style.x0)}" fy="${fmt(style.y0)}" fr="${fmt(style.r0)}">${stops}</radialGradient>`
+    );
+    return `url(#${id})`;
+  }
+}
@@ -0,0 +1,24 @@
+import { SyncMessage, SyncTransport, TransportHandlers } from './types';
+
+// Tabs and windows of one browser on one machine; no server needed
+export class BroadcastChannelTransport implements SyncTransport {
+  readonly kind = 'broadcast';
+  private channel: BroadcastChannel | null = null;
+
+  constructor(private room: string) {}
+
+  open(handlers: TransportHandlers) {
+    this.channel = new BroadcastChannel(`garden-ai:${this.room}`);
+    this.channel.onmessage = (e: MessageEvent<SyncMessage>) => handlers.onMessage(e.data);
+    handlers.onStatus('connected');
+  }
+
+  send(message: SyncMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  close() {
+    this.channel?.close();
+    this.channel = null;
+  }
+}
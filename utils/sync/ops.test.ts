@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Plant } from '../../types';
+import { generatePlantStructure } from '../plantStructure';
+import { validateGardenOp } from './ops';
+
+const plant: Plant = {
+  id: 'p1', x: 640, y: 700, height: 120, maxHeight: 200, growthProgress: 0.6, species: '玫瑰', color: '#ff0000', seed: 0.25,
+  ...generatePlantStructure('玫瑰', 0.25, 200),
+  stage: 'bud', stageAge: 0, florets: 1, sway: 4, swayVelocity: 1, contributor: 'a',
+};
+
+describe('validateGardenOp', () => {
+  it('passes well-formed ops through', () => {
+    expect(validateGardenOp({ type: 'remove', ids: ['p1', 's1'] })).toEqual({ type: 'remove', ids: ['p1', 's1'] });
+    expect(validateGardenOp({ type: 'grow', plants: [{ id: 'p1', amount: 0.1 }] })).toEqual({ type: 'grow', plants: [{ id: 'p1', amount: 0.1 }] });
+    expect(validateGardenOp({ type: 'clear' })).toEqual({ type: 'clear' });
+    expect(validateGardenOp({ type: 'plant', plants: [plant] })).toEqual({
+      type: 'plant',
+      plants: [{ ...plant, sway: 0, swayVelocity: 0, crowding: undefined, lean: undefined }],
+    });
+  });
+
+  it('rejects ops it does not know or that lack their lists', () => {
+    [null, 'clear', 42, {}, { type: 'explode' }, { type: 'sow' }, { type: 'plant', plants: {} }, { type: 'remove', ids: 'all' },
+      { type: 'grow' }, { type: 'florets' }, { type: 'convert', species: 'Triffid', items: [] }, { type: 'edit', id: 1, edit: {} },
+      { type: 'terrain', terrain: { heights: [] } }]
+      .forEach(op => expect(validateGardenOp(op)).toBeNull());
+  });
+
+  it('drops malformed items and repairs what it can', () => {
+    expect(validateGardenOp({
+      type: 'plant',
+      plants: [{ ...plant, id: undefined }, { ...plant, species: 'Triffid' }, { ...plant, x: NaN }, { ...plant, color: 'red', stemControlPoints: null }],
+    })).toEqual({
+      type: 'plant',
+      plants: [{ ...plant, color: '#e11d48', sway: 0, swayVelocity: 0, crowding: undefined, lean: undefined }],
+    });
+    expect(validateGardenOp({ type: 'sow', seeds: [{ id: 's1', species: '玫瑰', x: 1, y: 2 }] })).toEqual({ type: 'sow', seeds: [] });
+    expect(validateGardenOp({ type: 'remove', ids: ['p1', 2, null] })).toEqual({ type: 'remove', ids: ['p1'] });
+    expect(validateGardenOp({ type: 'grow', plants: [{ id: 'p1', amount: 'lots' }, null] })).toEqual({ type: 'grow', plants: [] });
+  });
+
+  it('clamps florets and keeps only valid edits', () => {
+    expect(validateGardenOp({ type: 'florets', plants: [{ id: 'p1', florets: 3 }, { id: 'p2', florets: -1 }] }))
+      .toEqual({ type: 'florets', plants: [{ id: 'p1', florets: 1 }, { id: 'p2', florets: 0 }] });
+    expect(validateGardenOp({ type: 'edit', id: 'p1', edit: { x: 10, y: 'up', color: '#00ff00', stage: 'bloom' } }))
+      .toEqual({ type: 'edit', id: 'p1', edit: { x: 10, color: '#00ff00' } });
+    expect(validateGardenOp({ type: 'convert', species: '玫瑰', items: [{ id: 'p1', color: '#00ff00', extra: 1 }, { id: 'p2', color: 'green' }] }))
+      .toEqual({ type: 'convert', species: '玫瑰', items: [{ id: 'p1', color: '#00ff00' }] });
+  });
+});
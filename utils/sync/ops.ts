@@ -0,0 +1,80 @@
+import { hasSpecies } from '../species/registry';
+import type { GardenOp, PlantEdit } from '../simulation';
+import { isFiniteNumber, isHexColor, isUsablePlant, isUsableSeed, repairPlant, repairSeed, validateTerrain } from '../validation';
+
+const isId = (value: unknown): value is string => typeof value === 'string';
+
+/**
+ * Validates a GardenOp from another station (see session.ts) with the same per-plant and per-seed
+ * checks as garden files: malformed items are dropped or repaired. Null when the op itself is unusable.
+ * Items need an id here, since ops refer to plants and seeds by it.
+ */
+export const validateGardenOp = (data: unknown): GardenOp | null => {
+  const op = data as GardenOp | null;
+  if (!op || typeof op !== 'object') return null;
+  switch (op.type) {
+    case 'sow':
+      if (!Array.isArray(op.seeds)) return null;
+      return {
+        type: 'sow',
+        seeds: op.seeds.filter(s => isUsableSeed(s) && isId(s.id)).map(s => ({
+          ...repairSeed(s),
+          vx: isFiniteNumber(s.vx) ? s.vx : undefined,
+          bounces: isFiniteNumber(s.bounces) ? s.bounces : undefined,
+          isLanded: s.isLanded === true,
+        })),
+      };
+    case 'plant':
+      if (!Array.isArray(op.plants)) return null;
+      return {
+        type: 'plant',
+        plants: op.plants.filter(p => isUsablePlant(p) && isId(p.id)).map(p => ({
+          ...repairPlant(p),
+          height: isFiniteNumber(p.height) ? p.height : 0,
+          sway: 0,
+          swayVelocity: 0,
+          crowding: isFiniteNumber(p.crowding) ? p.crowding : undefined,
+          lean: isFiniteNumber(p.lean) ? p.lean : undefined,
+        })),
+      };
+    case 'remove':
+      return Array.isArray(op.ids) ? { type: 'remove', ids: op.ids.filter(isId) } : null;
+    case 'grow':
+      if (!Array.isArray(op.plants)) return null;
+      return {
+        type: 'grow',
+        plants: op.plants.filter(p => p && isId(p.id) && isFiniteNumber(p.amount)).map(({ id, amount }) => ({ id, amount })),
+      };
+    case 'florets':
+      if (!Array.isArray(op.plants)) return null;
+      return {
+        type: 'florets',
+        plants: op.plants
+          .filter(p => p && isId(p.id) && isFiniteNumber(p.florets))
+          .map(({ id, florets }) => ({ id, florets: Math.min(Math.max(florets, 0), 1) })),
+      };
+    case 'convert':
+      if (!hasSpecies(op.species) || !Array.isArray(op.items)) return null;
+      return {
+        type: 'convert',
+        species: op.species,
+        items: op.items.filter(item => item && isId(item.id) && isHexColor(item.color)).map(({ id, color }) => ({ id, color })),
+      };
+    case 'edit': {
+      if (!isId(op.id) || !op.edit || typeof op.edit !== 'object') return null;
+      const edit: PlantEdit = {};
+      if (isFiniteNumber(op.edit.x)) edit.x = op.edit.x;
+      if (isFiniteNumber(op.edit.y)) edit.y = op.edit.y;
+      if (isHexColor(op.edit.color)) edit.color = op.edit.color;
+      return { type: 'edit', id: op.id, edit };
+    }
+    case 'clear':
+      return { type: 'clear' };
+    case 'terrain': {
+      const terrain = validateTerrain(op.terrain);
+      return terrain ? { type: 'terrain', terrain } : null;
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,184 @@
+import { Plant } from '../../types';
+import { Size } from '../coordinates';
+import { GardenFile } from '../persistence';
+import { randomId } from '../random';
+import { GardenOp } from '../simulation';
+import { BroadcastChannelTransport } from './broadcastChannelTransport';
+import { SyncMessage, SyncSettings, SyncStatus, SyncTransport } from './types';
+import { WebSocketTransport } from './webSocketTransport';
+
+const SYNC_SETTINGS_KEY = 'garden-ai:sync';
+const STATION_NAME_KEY = 'garden-ai:station'; // Per tab, so two tabs on one machine are two contributors
+export const DEFAULT_RELAY_PORT = 8787;
+const PRESENCE_INTERVAL = 3000; // ms between "still here" messages
+const PEER_TIMEOUT = 10000; // ms without hearing from a station before it is considered gone
+const JOIN_TIMEOUT = 2000; // ms to wait for the garden after saying hello; nobody answering means an empty room
+
+export interface SyncPeer {
+  id: string;
+  name: string;
+}
+
+export interface SyncState {
+  status: SyncStatus;
+  peers: SyncPeer[]; // The other stations in the room
+}
+
+export interface SyncSessionHandlers {
+  getSnapshot(): GardenFile; // This station's garden, for a station that joins
+  onSnapshot(garden: GardenFile): void; // Untrusted: validate before loading
+  onOps(ops: GardenOp[], size: Size): void;
+  onChange(state: SyncState): void;
+}
+
+/**
+ * This station's part in a shared garden. On connecting it says hello, and one station already in
+ * the room (the one with the lowest id, so exactly one) answers with the whole garden, which
+ * replaces this station's own; two stations joining at once settle it by id as well. From then on
+ * each station sends the GardenOps it makes and applies everyone else's. Stations announce
+ * themselves every few seconds so the peer list stays current.
+ */
+export class SyncSession {
+  readonly id = randomId(Math.random);
+  private peers = new Map<string, SyncPeer & { lastSeen: number }>();
+  private status: SyncStatus = 'connecting';
+  private presenceTimer = 0;
+  private joinTimer = 0;
+  private joining = false; // Said hello, still waiting for the garden
+
+  constructor(private transport: SyncTransport, readonly name: string, private handlers: SyncSessionHandlers) {}
+
+  start() {
+    this.transport.open({
+      onMessage: message => this.receive(message),
+      onStatus: status => this.setStatus(status),
+    });
+    this.presenceTimer = window.setInterval(() => this.announce(), PRESENCE_INTERVAL);
+  }
+
+  sendOps(ops: GardenOp[], size: Size) {
+    if (ops.length === 0 || this.status !== 'connected') return;
+    this.transport.send({ kind: 'ops', from: this.id, size, ops });
+  }
+
+  // Replaces everyone's garden with this station's, e.g. after loading a file
+  shareGarden() {
+    this.transport.send({ kind: 'snapshot', from: this.id, to: null, garden: this.handlers.getSnapshot() });
+  }
+
+  close() {
+    window.clearInterval(this.presenceTimer);
+    window.clearTimeout(this.joinTimer);
+    this.transport.send({ kind: 'bye', from: this.id });
+    this.transport.close();
+  }
+
+  getState(): SyncState {
+    return { status: this.status, peers: [...this.peers.values()].map(({ id, name }) => ({ id, name })) };
+  }
+
+  private setStatus(status: SyncStatus) {
+    this.status = status;
+    // Whatever happened while disconnected was missed; ask for the garden again
+    this.peers.clear();
+    window.clearTimeout(this.joinTimer);
+    this.joining = status === 'connected';
+    if (this.joining) {
+      this.transport.send({ kind: 'hello', from: this.id, name: this.name });
+      this.joinTimer = window.setTimeout(() => { this.joining = false; }, JOIN_TIMEOUT);
+    }
+    this.changed();
+  }
+
+  private receive(message: SyncMessage) {
+    if (!message || typeof message.from !== 'string' || message.from === this.id) return;
+    switch (message.kind) {
+      case 'hello': {
+        const answers = [...this.peers.keys()].every(id => id === message.from || id > this.id) &&
+          (!this.joining || this.id < message.from);
+        this.seen(message.from, message.name);
+        this.transport.send({ kind: 'presence', from: this.id, name: this.name });
+        if (answers) {
+          this.transport.send({ kind: 'snapshot', from: this.id, to: message.from, garden: this.handlers.getSnapshot() });
+        }
+        break;
+      }
+      case 'presence':
+        this.seen(message.from, message.name);
+        break;
+      case 'snapshot':
+        if (message.to !== null && message.to !== this.id) break;
+        this.joining = false;
+        this.handlers.onSnapshot(message.garden);
+        break;
+      case 'ops':
+        this.touch(message.from);
+        if (Array.isArray(message.ops) && message.size?.width > 0 && message.size?.height > 0) {
+          this.handlers.onOps(message.ops, message.size);
+        }
+        break;
+      case 'bye':
+        if (this.peers.delete(message.from)) this.changed();
+        break;
+    }
+  }
+
+  private seen(id: string, name: unknown) {
+    const known = this.peers.get(id);
+    const peerName = typeof name === 'string' ? name : id;
+    this.peers.set(id, { id, name: peerName, lastSeen: performance.now() });
+    if (known?.name !== peerName) this.changed();
+  }
+
+  private touch(id: string) {
+    const peer = this.peers.get(id);
+    if (peer) peer.lastSeen = performance.now();
+  }
+
+  private announce() {
+    if (this.status === 'connected') this.transport.send({ kind: 'presence', from: this.id, name: this.name });
+    const now = performance.now();
+    let dropped = false;
+    this.peers.forEach((peer, id) => {
+      if (now - peer.lastSeen > PEER_TIMEOUT) dropped = this.peers.delete(id);
+    });
+    if (dropped) this.changed();
+  }
+
+  private changed() {
+    this.handlers.onChange(this.getState());
+  }
+}
+
+export const createTransport = (settings: SyncSettings): SyncTransport =>
+  settings.transport === 'websocket'
+    ? new WebSocketTransport(settings.url, settings.room)
+    : new BroadcastChannelTransport(settings.room);
+
+// Plants per contributor, for the peer list
+export const countContributions = (plants: Plant[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  plants.forEach(plant => {
+    if (plant.contributor) counts[plant.contributor] = (counts[plant.contributor] ?? 0) + 1;
+  });
+  return counts;
+};
+
+export const loadSyncSettings = (): SyncSettings => {
+  const defaults: SyncSettings = {
+    transport: 'broadcast',
+    url: `ws://${location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`,
+    room: 'garden',
+    name: sessionStorage.getItem(STATION_NAME_KEY) ?? `站点 ${Math.floor(100 + Math.random() * 900)}`,
+  };
+  try {
+    return { ...defaults, ...JSON.parse(localStorage.getItem(SYNC_SETTINGS_KEY) ?? '{}'), name: defaults.name };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveSyncSettings = ({ name, ...shared }: SyncSettings) => {
+  localStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify(shared));
+  sessionStorage.setItem(STATION_NAME_KEY, name);
+};
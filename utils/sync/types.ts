@@ -0,0 +1,38 @@
+import { Size } from '../coordinates';
+import { GardenFile } from '../persistence';
+import { GardenOp } from '../simulation';
+
+export type SyncTransportKind = 'broadcast' | 'websocket';
+export type SyncStatus = 'connecting' | 'connected' | 'disconnected';
+
+// What the stations of a shared garden say to each other; `from` is the sending station's id
+export type SyncMessage =
+  | { kind: 'hello'; from: string; name: string } // Just joined (or reconnected), asks for the garden
+  | { kind: 'presence'; from: string; name: string } // Still here; also the answer to a hello
+  | { kind: 'snapshot'; from: string; to: string | null; garden: GardenFile } // For one station, or everyone (null)
+  | { kind: 'ops'; from: string; size: Size; ops: GardenOp[] } // `size`: the sender's garden, which op positions are in
+  | { kind: 'bye'; from: string };
+
+export interface TransportHandlers {
+  onMessage(message: SyncMessage): void;
+  onStatus(status: SyncStatus): void;
+}
+
+/**
+ * Carries messages between the stations in one room, best effort and in order. A message is never
+ * delivered back to its sender. BroadcastChannelTransport links tabs of one browser,
+ * WebSocketTransport links machines through a relay such as scripts/sync-relay.mjs.
+ */
+export interface SyncTransport {
+  readonly kind: SyncTransportKind;
+  open(handlers: TransportHandlers): void;
+  send(message: SyncMessage): void;
+  close(): void;
+}
+
+export interface SyncSettings {
+  transport: SyncTransportKind;
+  url: string; // Relay address, for 'websocket'
+  room: string; // Stations in the same room share a garden
+  name: string; // This station, as its plants are tagged
+}
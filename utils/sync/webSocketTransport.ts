@@ -0,0 +1,88 @@
+import { SyncMessage, SyncTransport, TransportHandlers } from './types';
+
+const RECONNECT_MIN_DELAY = 1000; // ms; doubles after each failed attempt
+const RECONNECT_MAX_DELAY = 10000;
+
+/**
+ * Machines on a network, through a relay that passes each message on to the other sockets in the
+ * same room (scripts/sync-relay.mjs). Reconnects by itself; messages sent while disconnected are
+ * dropped, and the session asks for the whole garden again once it is back.
+ */
+export class WebSocketTransport implements SyncTransport {
+  readonly kind = 'websocket';
+  private url: URL;
+  private socket: WebSocket | null = null;
+  private handlers: TransportHandlers | null = null;
+  private retryDelay = RECONNECT_MIN_DELAY;
+  private retryTimer = 0;
+
+  constructor(url: string, room: string) {
+    try {
+      this.url = new URL(url);
+    } catch {
+      throw new Error('中继地址无效 (Invalid relay address)');
+    }
+    if (this.url.protocol !== 'ws:' && this.url.protocol !== 'wss:') {
+      throw new Error('中继地址须以 ws:// 开头 (Relay address must start with ws://)');
+    }
+    this.url.searchParams.set('room', room);
+  }
+
+  open(handlers: TransportHandlers) {
+    this.handlers = handlers;
+    this.connect();
+  }
+
+  send(message: SyncMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  close() {
+    this.handlers = null;
+    window.clearTimeout(this.retryTimer);
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private connect() {
+    const handlers = this.handlers;
+    if (!handlers) return;
+    handlers.onStatus('connecting');
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (err) {
+      // e.g. a ws:// relay from a page served over https; reported like a dropped connection
+      console.warn('Could not connect to the sync relay:', err);
+      this.retry(handlers);
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.retryDelay = RECONNECT_MIN_DELAY;
+      handlers.onStatus('connected');
+    };
+    socket.onmessage = (e: MessageEvent<string>) => {
+      let message: SyncMessage;
+      try {
+        message = JSON.parse(e.data);
+      } catch {
+        return;
+      }
+      handlers.onMessage(message);
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return; // Closed on purpose
+      this.socket = null;
+      this.retry(handlers);
+    };
+  }
+
+  private retry(handlers: TransportHandlers) {
+    handlers.onStatus('disconnected');
+    this.retryTimer = window.setTimeout(() => this.connect(), this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, RECONNECT_MAX_DELAY);
+  }
+}
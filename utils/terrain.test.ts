@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Terrain } from '../types';
+import { createTerrain, groundYAt, scaleTerrain, shapeGround, surfaceBelow } from './terrain';
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+
+// Flat ground with a planter at x 300 and a platform above x 900
+const createCourse = (): Terrain => ({
+  ...createTerrain(),
+  planters: [{ id: 'planter1', x: 300, width: 120, height: 60 }],
+  platforms: [{ id: 'platform1', x: 900, y: 400, width: 160 }],
+});
+
+describe('shapeGround', () => {
+  it('pulls the ground under the point towards it and leaves the rest alone', () => {
+    const terrain = createTerrain();
+    const flat = groundYAt(terrain, 640, WIDTH, HEIGHT);
+    shapeGround(terrain, { x: 640, y: 300 }, 100, WIDTH, HEIGHT);
+    const raised = groundYAt(terrain, 640, WIDTH, HEIGHT);
+    expect(raised).toBeLessThan(flat);
+    expect(raised).toBeGreaterThan(300);
+    expect(groundYAt(terrain, 400, WIDTH, HEIGHT)).toBe(flat);
+  });
+
+  it('closes in on the point over repeated ticks', () => {
+    const terrain = createTerrain();
+    for (let i = 0; i < 100; i++) shapeGround(terrain, { x: 640, y: 300 }, 100, WIDTH, HEIGHT);
+    expect(groundYAt(terrain, 640, WIDTH, HEIGHT)).toBeCloseTo(300);
+  });
+
+  it('stops hills short of the top and valleys at the bottom edge', () => {
+    const terrain = createTerrain();
+    for (let i = 0; i < 100; i++) shapeGround(terrain, { x: 640, y: -50 }, 100, WIDTH, HEIGHT);
+    expect(groundYAt(terrain, 640, WIDTH, HEIGHT)).toBeCloseTo(HEIGHT * 0.3);
+    for (let i = 0; i < 100; i++) shapeGround(terrain, { x: 640, y: HEIGHT + 50 }, 100, WIDTH, HEIGHT);
+    expect(groundYAt(terrain, 640, WIDTH, HEIGHT)).toBeCloseTo(HEIGHT);
+  });
+});
+
+describe('surfaceBelow', () => {
+  it('lands on the ground where nothing else is', () => {
+    const terrain = createCourse();
+    expect(surfaceBelow(terrain, 640, 0, WIDTH, HEIGHT)).toEqual({ y: groundYAt(terrain, 640, WIDTH, HEIGHT), support: 'ground' });
+  });
+
+  it("lands in a planter's soil", () => {
+    const terrain = createCourse();
+    const surface = surfaceBelow(terrain, 320, 0, WIDTH, HEIGHT);
+    expect(surface.support).toBe('planter1');
+    expect(surface.y).toBeCloseTo(groundYAt(terrain, 300, WIDTH, HEIGHT) - 60);
+  });
+
+  it('lands on a platform from above and falls past it from below', () => {
+    const terrain = createCourse();
+    expect(surfaceBelow(terrain, 900, 0, WIDTH, HEIGHT)).toEqual({ y: 400, support: 'platform1' });
+    expect(surfaceBelow(terrain, 900, 450, WIDTH, HEIGHT).support).toBe('ground');
+  });
+
+  it('snaps something below every surface back up to the lowest', () => {
+    const terrain = createCourse();
+    expect(surfaceBelow(terrain, 640, HEIGHT + 100, WIDTH, HEIGHT).support).toBe('ground');
+  });
+});
+
+describe('scaleTerrain', () => {
+  it('keeps features in the same place relative to the canvas', () => {
+    const terrain = createCourse();
+    shapeGround(terrain, { x: 640, y: 300 }, 200, WIDTH, HEIGHT);
+    const ground = groundYAt(terrain, 640, WIDTH, HEIGHT);
+    scaleTerrain(terrain, 0.5, 2);
+    expect(groundYAt(terrain, 320, WIDTH / 2, HEIGHT * 2)).toBeCloseTo(ground * 2);
+    expect(terrain.planters[0]).toEqual({ id: 'planter1', x: 150, width: 60, height: 120 });
+    expect(terrain.platforms[0]).toEqual({ id: 'platform1', x: 450, y: 800, width: 80 });
+  });
+});
@@ -0,0 +1,103 @@
+import { Planter, Platform, Point, Terrain } from '../types';
+
+export const TERRAIN_COLUMNS = 65;
+const GROUND_ELEVATION = 20; // px above the bottom edge where the flat ground sits
+const MAX_ELEVATION = 0.7; // Hills can rise to this fraction of the canvas height
+const GROUND_FOLLOW = 0.25; // Fraction of the way the ground moves towards the finger per tick
+const SUPPORT_TOLERANCE = 2; // px between a plant's base and a surface that still counts as standing on it
+
+export const PLANTER_WIDTH = 120;
+export const PLANTER_HEIGHT = 60;
+export const PLATFORM_WIDTH = 160;
+export const PLATFORM_THICKNESS = 10;
+
+// A walkable top: the ground, a planter's soil or a platform
+export interface Surface {
+  y: number;
+  support: string; // 'ground', or the id of the planter or platform
+}
+
+export const createTerrain = (): Terrain => ({
+  heights: new Array(TERRAIN_COLUMNS).fill(GROUND_ELEVATION),
+  planters: [],
+  platforms: [],
+});
+
+export const cloneTerrain = (terrain: Terrain): Terrain => ({
+  heights: [...terrain.heights],
+  planters: terrain.planters.map(p => ({ ...p })),
+  platforms: terrain.platforms.map(p => ({ ...p })),
+});
+
+// Rescales in place when the canvas size changes (see GardenSimulation.resize)
+export const scaleTerrain = (terrain: Terrain, sx: number, sy: number) => {
+  terrain.heights = terrain.heights.map(h => h * sy);
+  terrain.planters.forEach(p => {
+    p.x *= sx;
+    p.width *= sx;
+    p.height *= sy;
+  });
+  terrain.platforms.forEach(p => {
+    p.x *= sx;
+    p.y *= sy;
+    p.width *= sx;
+  });
+};
+
+// Ground surface (canvas y) at x; straight between columns, exactly as drawTerrain draws it
+export const groundYAt = (terrain: Terrain, x: number, width: number, height: number): number => {
+  const { heights } = terrain;
+  const position = Math.min(Math.max(x / width, 0), 1) * (heights.length - 1);
+  const i = Math.min(Math.floor(position), heights.length - 2);
+  const f = position - i;
+  return height - (heights[i] + (heights[i + 1] - heights[i]) * f);
+};
+
+const covers = (feature: { x: number; width: number }, x: number) => Math.abs(x - feature.x) <= feature.width / 2;
+
+export const planterTopY = (terrain: Terrain, planter: Planter, width: number, height: number) =>
+  groundYAt(terrain, planter.x, width, height) - planter.height;
+
+// Every surface at x, top to bottom: platforms, then a planter's soil or else the bare ground
+export const surfacesAt = (terrain: Terrain, x: number, width: number, height: number): Surface[] => {
+  const planter = terrain.planters.find(p => covers(p, x));
+  const base: Surface = planter
+    ? { y: planterTopY(terrain, planter, width, height), support: planter.id }
+    : { y: groundYAt(terrain, x, width, height), support: 'ground' };
+  const ledges = terrain.platforms
+    .filter(p => covers(p, x) && p.y < base.y)
+    .map(p => ({ y: p.y, support: p.id }));
+  return [...ledges, base].sort((a, b) => a.y - b.y);
+};
+
+// Where something falling at x from y comes to rest: the first surface at or below it
+export const surfaceBelow = (terrain: Terrain, x: number, y: number, width: number, height: number): Surface => {
+  const surfaces = surfacesAt(terrain, x, width, height);
+  return surfaces.find(s => s.y >= y) ?? surfaces[surfaces.length - 1];
+};
+
+// The surface something resting at (x, y) stands on, or null if there is none
+export const supportAt = (terrain: Terrain, x: number, y: number, width: number, height: number): Surface | null =>
+  surfacesAt(terrain, x, width, height).find(s => Math.abs(s.y - y) <= SUPPORT_TOLERANCE) ?? null;
+
+// Pulls the ground around the point towards it, fading out over `radius`; dragging draws hills and valleys
+export const shapeGround = (terrain: Terrain, point: Point, radius: number, width: number, height: number) => {
+  const target = Math.min(Math.max(height - point.y, 0), height * MAX_ELEVATION);
+  const last = terrain.heights.length - 1;
+  terrain.heights = terrain.heights.map((elevation, i) => {
+    const distance = Math.abs((i / last) * width - point.x);
+    if (distance >= radius) return elevation;
+    const weight = 0.5 + 0.5 * Math.cos(Math.PI * distance / radius);
+    return elevation + (target - elevation) * weight * GROUND_FOLLOW;
+  });
+};
+
+// The planter or platform drawn under the point, if any
+export const terrainFeatureAt = (
+  terrain: Terrain, point: Point, width: number, height: number
+): Planter | Platform | null => {
+  const platform = terrain.platforms.find(p => covers(p, point.x) && point.y >= p.y - 8 && point.y <= p.y + PLATFORM_THICKNESS + 8);
+  if (platform) return platform;
+  return terrain.planters.find(p => covers(p, point.x) &&
+    point.y >= planterTopY(terrain, p, width, height) - 8 && point.y <= groundYAt(terrain, p.x, width, height)) ?? null;
+};
@@ -0,0 +1,69 @@
+import { Point } from '../types';
+import { PLANT_STAGES, stageForProgress } from './lifecycle';
+import type { SavedPlant, SavedSeed, SavedTerrain } from './persistence';
+import { generatePlantStructure } from './plantStructure';
+import { getSpeciesColor, hasSpecies } from './species/registry';
+
+// Checks for untrusted JSON: garden files, share codes, species packs, recordings and ops from other stations
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+// Colour maths (wilting, shading) needs full six-digit hex
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const knownStages = new Set<string>(PLANT_STAGES);
+
+const isPointList = (value: unknown): value is Point[] =>
+  Array.isArray(value) && value.every(p => p && isFiniteNumber(p.x) && isFiniteNumber(p.y));
+
+// Loose shape check; anything off and the structure is regenerated from the plant's seed
+const hasValidStructure = (p: Partial<SavedPlant>) =>
+  isPointList(p.stemControlPoints) && p.stemControlPoints.length >= 2 &&
+  Array.isArray(p.branches) && p.branches.every(b => b && isPointList(b.points) && isFiniteNumber(b.start) && isFiniteNumber(b.end)) &&
+  Array.isArray(p.leaves) && p.leaves.every(l => l && isFiniteNumber(l.x) && isFiniteNumber(l.y) && isFiniteNumber(l.angle) &&
+    isFiniteNumber(l.length) && isFiniteNumber(l.width) && isFiniteNumber(l.appearAt) && typeof l.shape === 'string');
+
+// Per-item checks shared by garden files and ops from other stations: an item missing what it can't do
+// without is dropped, the rest is repaired
+export const isUsablePlant = (p: SavedPlant) =>
+  !!p && hasSpecies(p.species) && isFiniteNumber(p.x) && isFiniteNumber(p.y) &&
+  isFiniteNumber(p.maxHeight) && isFiniteNumber(p.growthProgress) && isFiniteNumber(p.seed);
+
+export const isUsableSeed = (s: SavedSeed) =>
+  !!s && hasSpecies(s.species) && isFiniteNumber(s.x) && isFiniteNumber(s.y) && isFiniteNumber(s.vy);
+
+export const repairPlant = <T extends SavedPlant>(p: T) => ({
+  ...p,
+  // A missing or malformed colour falls back to the species' own
+  color: isHexColor(p.color) ? p.color : getSpeciesColor(p.species),
+  // v1 had no lifecycle: derive the stage from growth and start it fresh
+  stage: knownStages.has(p.stage) ? p.stage : stageForProgress(p.growthProgress),
+  stageAge: isFiniteNumber(p.stageAge) ? p.stageAge : 0,
+  florets: isFiniteNumber(p.florets) ? Math.min(Math.max(p.florets, 0), 1) : 1,
+  contributor: typeof p.contributor === 'string' ? p.contributor : undefined,
+  // v1/v2 had no stored structure (and share codes never carry it): grow it from the seed
+  ...(hasValidStructure(p) ? {} : generatePlantStructure(p.species, p.seed, p.maxHeight)),
+});
+
+export const repairSeed = <T extends SavedSeed>(s: T) => ({
+  ...s,
+  color: isHexColor(s.color) ? s.color : getSpeciesColor(s.species),
+  contributor: typeof s.contributor === 'string' ? s.contributor : undefined,
+});
+
+// Drops anything malformed; a terrain without a usable heightmap is left out (flat ground)
+export const validateTerrain = (terrain: Partial<SavedTerrain> | undefined): SavedTerrain | undefined => {
+  if (!terrain || !Array.isArray(terrain.heights) || terrain.heights.length < 2 || !terrain.heights.every(isFiniteNumber)) {
+    return undefined;
+  }
+  const planters = Array.isArray(terrain.planters) ? terrain.planters : [];
+  const platforms = Array.isArray(terrain.platforms) ? terrain.platforms : [];
+  return {
+    heights: terrain.heights,
+    planters: planters
+      .filter(p => p && isFiniteNumber(p.x) && isFiniteNumber(p.width) && isFiniteNumber(p.height))
+      .map((p, i) => ({ ...p, id: typeof p.id === 'string' ? p.id : `planter${i}` })),
+    platforms: platforms
+      .filter(p => p && isFiniteNumber(p.x) && isFiniteNumber(p.y) && isFiniteNumber(p.width))
+      .map((p, i) => ({ ...p, id: typeof p.id === 'string' ? p.id : `platform${i}` })),
+  };
+};
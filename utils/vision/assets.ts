@@ -0,0 +1,46 @@
+import { FilesetResolver } from '@mediapipe/tasks-vision';
+
+// Where the wasm fileset and the models are loaded from; resolved on the main thread and handed to the worker
+export interface VisionAssets {
+  wasmLoaderPath: string;
+  wasmBinaryPath: string;
+  faceModelPath: string;
+  handModelPath: string;
+}
+
+// Served by the app itself (see scripts/vision-assets.mjs)
+const LOCAL_BASE = 'mediapipe/';
+// The same files on the CDNs, for when a local copy is missing
+const REMOTE_WASM_BASE = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm/';
+const REMOTE_MODEL_BASE = 'https://storage.googleapis.com/mediapipe-models/';
+const FACE_MODEL = 'face_landmarker/face_landmarker/float16/1/face_landmarker.task';
+const HAND_MODEL = 'hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+const local = (path: string) => new URL(`${import.meta.env.BASE_URL}${LOCAL_BASE}${path}`, location.href).href;
+
+// A dev server answers missing files with index.html, so an HTML response counts as missing too
+const isServed = async (url: string) => {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok && !response.headers.get('content-type')?.includes('text/html');
+  } catch {
+    return false;
+  }
+};
+
+const pick = async (localUrl: string, remoteUrl: string) => (await isServed(localUrl) ? localUrl : remoteUrl);
+
+/**
+ * Prefers the app's own copies of the wasm and models, which also keeps working offline once the
+ * service worker has cached them; falls back to the CDNs file by file.
+ */
+export const resolveVisionAssets = async (): Promise<VisionAssets> => {
+  const wasm = (await FilesetResolver.isSimdSupported()) ? 'vision_wasm_internal' : 'vision_wasm_nosimd_internal';
+  const [wasmLoaderPath, wasmBinaryPath, faceModelPath, handModelPath] = await Promise.all([
+    pick(local(`wasm/${wasm}.js`), `${REMOTE_WASM_BASE}${wasm}.js`),
+    pick(local(`wasm/${wasm}.wasm`), `${REMOTE_WASM_BASE}${wasm}.wasm`),
+    pick(local('models/face_landmarker.task'), `${REMOTE_MODEL_BASE}${FACE_MODEL}`),
+    pick(local('models/hand_landmarker.task'), `${REMOTE_MODEL_BASE}${HAND_MODEL}`),
+  ]);
+  return { wasmLoaderPath, wasmBinaryPath, faceModelPath, handModelPath };
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { FaceDetection, HandDetection, Landmark } from '../../types';
+import { blendFace, blendHands, LandmarkTrack } from './interpolation';
+
+// A hand whose 21 landmarks all sit at (x, y)
+const hand = (x: number, y: number): Landmark[] => Array.from({ length: 21 }, () => ({ x, y, z: 0 }));
+const labelled = (label: string) => [{ categoryName: label, score: 1 }];
+
+describe('blendFace', () => {
+  const face = (y: number, funnel: number): FaceDetection => ({
+    faceLandmarks: [[{ x: 0.5, y, z: 0 }]],
+    faceBlendshapes: [{ categories: [{ categoryName: 'mouthFunnel', score: funnel }] }],
+  });
+
+  it('blends landmarks and blendshape scores', () => {
+    const blended = blendFace(face(0.2, 0), face(0.4, 1), 0.5);
+    expect(blended.faceLandmarks[0][0].y).toBeCloseTo(0.3);
+    expect(blended.faceBlendshapes?.[0].categories[0].score).toBeCloseTo(0.5);
+  });
+
+  it('shows a face that just appeared or disappeared as it is', () => {
+    const none: FaceDetection = { faceLandmarks: [] };
+    expect(blendFace(none, face(0.4, 1), 0.5)).toEqual(face(0.4, 1));
+    expect(blendFace(face(0.4, 1), none, 0.5)).toBe(none);
+  });
+});
+
+describe('blendHands', () => {
+  it('blends each hand from the nearby hand with the same label', () => {
+    const from: HandDetection = { landmarks: [hand(0.2, 0.5), hand(0.8, 0.5)], handedness: [labelled('Left'), labelled('Right')] };
+    const to: HandDetection = { landmarks: [hand(0.9, 0.5), hand(0.3, 0.5)], handedness: [labelled('Right'), labelled('Left')] };
+    const blended = blendHands(from, to, 0.5);
+    expect(blended.landmarks[0][0].x).toBeCloseTo(0.85);
+    expect(blended.landmarks[1][0].x).toBeCloseTo(0.25);
+    expect(blended.handedness).toBe(to.handedness);
+  });
+
+  it('does not blend a hand from one that is far away or labelled differently', () => {
+    const to: HandDetection = { landmarks: [hand(0.5, 0.5)], handedness: [labelled('Left')] };
+    expect(blendHands({ landmarks: [hand(0.1, 0.5)], handedness: [labelled('Left')] }, to, 0.5).landmarks[0]).toBe(to.landmarks[0]);
+    expect(blendHands({ landmarks: [hand(0.5, 0.5)], handedness: [labelled('Right')] }, to, 0.5).landmarks[0]).toBe(to.landmarks[0]);
+  });
+});
+
+describe('LandmarkTrack', () => {
+  // Results are objects, like the detections they stand in for
+  const blendValue = (from: { v: number }, to: { v: number }, t: number) => ({ v: from.v + (to.v - from.v) * t });
+  const valueAt = (track: LandmarkTrack<{ v: number }>, now: number) => track.sample(now)?.v ?? null;
+
+  it('has nothing before the first result and shows the first as it is', () => {
+    const track = new LandmarkTrack(blendValue);
+    expect(valueAt(track, 0)).toBeNull();
+    track.push({ v: 10 }, 0);
+    expect(valueAt(track, 5)).toBe(10);
+  });
+
+  it('eases each result in over the previous interval', () => {
+    const track = new LandmarkTrack(blendValue);
+    track.push({ v: 0 }, 0);
+    track.push({ v: 10 }, 100);
+    expect(valueAt(track, 100)).toBe(0);
+    expect(valueAt(track, 150)).toBe(5);
+    expect(valueAt(track, 200)).toBe(10);
+    expect(track.latest).toEqual({ v: 10 });
+  });
+
+  it('starts the next blend from what was on screen', () => {
+    const track = new LandmarkTrack(blendValue);
+    track.push({ v: 0 }, 0);
+    track.push({ v: 10 }, 100);
+    track.push({ v: 20 }, 150); // Arrives when 5 was showing
+    expect(valueAt(track, 150)).toBe(5);
+    expect(valueAt(track, 175)).toBe(12.5);
+    expect(valueAt(track, 200)).toBe(20);
+  });
+
+  it('blends in no slower than MAX_BLEND_TIME after a long gap', () => {
+    const track = new LandmarkTrack(blendValue);
+    track.push({ v: 0 }, 0);
+    track.push({ v: 10 }, 5000);
+    expect(valueAt(track, 5125)).toBe(5);
+    expect(valueAt(track, 5250)).toBe(10);
+  });
+});
@@ -0,0 +1,81 @@
+import { Category, FaceDetection, HandDetection, Landmark } from '../../types';
+
+const MAX_BLEND_TIME = 250; // ms; after a long gap the next result is blended in no slower than this
+const HAND_MATCH_DISTANCE = 0.2; // Normalized wrist distance beyond which two hands aren't the same hand
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Same number of landmarks (the same model) or nothing to blend
+const blendLandmarks = (from: Landmark[], to: Landmark[], t: number): Landmark[] =>
+  from.length !== to.length ? to : to.map((l, i) => ({
+    x: lerp(from[i].x, l.x, t),
+    y: lerp(from[i].y, l.y, t),
+    z: lerp(from[i].z, l.z, t),
+  }));
+
+const blendCategories = (from: Category[], to: Category[], t: number): Category[] =>
+  to.map((c, i) => from[i]?.categoryName === c.categoryName ? { ...c, score: lerp(from[i].score, c.score, t) } : c);
+
+export const blendFace = (from: FaceDetection, to: FaceDetection, t: number): FaceDetection => {
+  if (!from.faceLandmarks[0] || !to.faceLandmarks[0]) return to;
+  const fromShapes = from.faceBlendshapes?.[0]?.categories;
+  const toShapes = to.faceBlendshapes?.[0]?.categories;
+  return {
+    faceLandmarks: [blendLandmarks(from.faceLandmarks[0], to.faceLandmarks[0], t)],
+    faceBlendshapes: toShapes
+      ? [{ categories: fromShapes ? blendCategories(fromShapes, toShapes, t) : toShapes }]
+      : to.faceBlendshapes,
+  };
+};
+
+// Each hand blends from the nearest hand with the same handedness label; new hands appear as they are
+export const blendHands = (from: HandDetection, to: HandDetection, t: number): HandDetection => ({
+  landmarks: to.landmarks.map((hand, i) => {
+    const label = to.handedness?.[i]?.[0]?.categoryName;
+    let match: Landmark[] | null = null;
+    let best = HAND_MATCH_DISTANCE;
+    from.landmarks.forEach((candidate, j) => {
+      if (from.handedness?.[j]?.[0]?.categoryName !== label) return;
+      const distance = Math.hypot(candidate[0].x - hand[0].x, candidate[0].y - hand[0].y);
+      if (distance < best) {
+        best = distance;
+        match = candidate;
+      }
+    });
+    return match ? blendLandmarks(match, hand, t) : hand;
+  }),
+  handedness: to.handedness,
+});
+
+/**
+ * Smooths one model's results for a render loop that runs faster than detection. Each new result
+ * is eased in from whatever was on screen when it arrived, over the time the previous one took to
+ * arrive, so movement stays continuous between detections at the cost of one detection interval.
+ */
+export class LandmarkTrack<T> {
+  private from: T | null = null;
+  private to: T | null = null;
+  private arrivedAt = 0;
+  private duration = 0;
+
+  constructor(private blend: (from: T, to: T, t: number) => T) {}
+
+  push(value: T, now: number) {
+    this.from = this.sample(now);
+    this.duration = this.to ? Math.min(now - this.arrivedAt, MAX_BLEND_TIME) : 0;
+    this.to = value;
+    this.arrivedAt = now;
+  }
+
+  // The blended result at `now`, or null before the first one
+  sample(now: number): T | null {
+    if (!this.to || !this.from || this.duration <= 0) return this.to;
+    const t = (now - this.arrivedAt) / this.duration;
+    return t >= 1 ? this.to : this.blend(this.from, this.to, Math.max(t, 0));
+  }
+
+  // The newest raw result, unblended
+  get latest(): T | null {
+    return this.to;
+  }
+}
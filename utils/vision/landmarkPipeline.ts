@@ -0,0 +1,110 @@
+import { FaceDetection, HandDetection } from '../../types';
+import { resolveVisionAssets } from './assets';
+import { blendFace, blendHands, LandmarkTrack } from './interpolation';
+import { MainThreadBackend } from './mainThreadBackend';
+import { DEFAULT_DETECTION_RATES, DetectionBackend, DetectionResult, VISION_MODELS, VisionModel } from './types';
+import { WorkerBackend } from './workerBackend';
+
+const LOAD_FACTOR = 2; // Keep each model busy at most half the time, leaving room for the other and for the GPU
+const COST_SMOOTHING = 0.1; // Weight of the newest inference time in the running average
+const MIN_RATE = 5; // Detections per second a model never drops below
+const STALE_AFTER = 1000; // ms after which a detection that never came back no longer blocks the next
+
+// Loads the models in a worker, or on the main thread where that fails
+export const createDetectionBackend = async (): Promise<DetectionBackend> => {
+  const assets = await resolveVisionAssets();
+  try {
+    return await WorkerBackend.create(assets);
+  } catch (err) {
+    console.warn('Vision worker unavailable, detecting on the main thread:', err);
+    return MainThreadBackend.create(assets);
+  }
+};
+
+interface ModelSchedule {
+  minInterval: number; // ms, from the model's maximum rate
+  cost: number; // Running average of inference time, ms
+  startedAt: number; // Last detection sent
+  inFlight: boolean;
+}
+
+export interface LandmarkSample {
+  face: FaceDetection;
+  hands: HandDetection;
+}
+
+/**
+ * Decides when each model runs and smooths what comes back. Face and hand detection have their own
+ * rates: each starts from a maximum and slows down when its inference is expensive, and a model
+ * never has more than one frame in flight. The render loop reads interpolated landmarks at any time.
+ */
+export class LandmarkPipeline {
+  private schedules: Record<VisionModel, ModelSchedule>;
+  private face = new LandmarkTrack<FaceDetection>(blendFace);
+  private hands = new LandmarkTrack<HandDetection>(blendHands);
+  // Called with the newest raw results of both models whenever either one updates
+  onResult: ((now: number, face: FaceDetection, hands: HandDetection) => void) | null = null;
+
+  constructor(private backend: DetectionBackend, rates: Record<VisionModel, number> = DEFAULT_DETECTION_RATES) {
+    const schedule = (rate: number): ModelSchedule => ({ minInterval: 1000 / rate, cost: 0, startedAt: -Infinity, inFlight: false });
+    this.schedules = { face: schedule(rates.face), hand: schedule(rates.hand) };
+    backend.onResult = result => this.receive(result);
+    // A frame that failed frees its models straight away rather than after STALE_AFTER
+    backend.onSkip = models => models.forEach(model => { this.schedules[model].inFlight = false; });
+  }
+
+  // Where inference runs, e.g. 'worker·GPU'
+  get backendLabel() {
+    return `${this.backend.kind}·${this.backend.delegate}`;
+  }
+
+  // Current detection rate of a model, per second
+  rate(model: VisionModel): number {
+    return 1000 / this.interval(this.schedules[model]);
+  }
+
+  // Sends the current video frame to every model that is due
+  capture(video: HTMLVideoElement, now: number) {
+    const due = VISION_MODELS.filter(model => {
+      const schedule = this.schedules[model];
+      if (schedule.inFlight && now - schedule.startedAt < STALE_AFTER) return false;
+      return now - schedule.startedAt >= this.interval(schedule);
+    });
+    if (due.length === 0) return;
+    due.forEach(model => {
+      this.schedules[model].inFlight = true;
+      this.schedules[model].startedAt = now;
+    });
+    this.backend.detect(video, due, now);
+  }
+
+  // Landmarks blended to `now`; null until both models have reported once
+  sample(now: number): LandmarkSample | null {
+    const face = this.face.sample(now);
+    const hands = this.hands.sample(now);
+    return face && hands ? { face, hands } : null;
+  }
+
+  dispose() {
+    this.backend.onResult = null;
+    this.backend.onSkip = null;
+  }
+
+  private interval(schedule: ModelSchedule) {
+    return Math.min(Math.max(schedule.cost * LOAD_FACTOR, schedule.minInterval), 1000 / MIN_RATE);
+  }
+
+  private receive(result: DetectionResult) {
+    const now = performance.now();
+    const schedule = this.schedules[result.model];
+    schedule.inFlight = false;
+    schedule.cost = schedule.cost === 0 ? result.cost : schedule.cost + (result.cost - schedule.cost) * COST_SMOOTHING;
+
+    if (result.model === 'face') this.face.push(result.result, now);
+    else this.hands.push(result.result, now);
+
+    const { latest: face } = this.face;
+    const { latest: hands } = this.hands;
+    if (face && hands) this.onResult?.(now, face, hands);
+  }
+}
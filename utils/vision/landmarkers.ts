@@ -0,0 +1,104 @@
+import { FaceLandmarker, HandLandmarker } from '@mediapipe/tasks-vision';
+import { Category, FaceDetection, HandDetection, Landmark } from '../../types';
+import { VisionAssets } from './assets';
+import { DetectionResult, VisionDelegate, VisionModel } from './types';
+
+// Anything MediaPipe's detectForVideo accepts that we hand it: the live video, or a transferred frame
+export type VideoFrameSource = HTMLVideoElement | ImageBitmap;
+
+export interface Landmarkers {
+  readonly delegate: VisionDelegate;
+  // Runs one model on a frame; timestamps must increase from call to call
+  detect(model: VisionModel, frame: VideoFrameSource, timestamp: number): DetectionResult;
+  close(): void;
+}
+
+const copyLandmarks = (sets: Landmark[][] | undefined): Landmark[][] =>
+  (sets ?? []).map(set => set.map(({ x, y, z }) => ({ x, y, z })));
+
+const copyCategories = (categories: Category[]): Category[] =>
+  categories.map(({ categoryName, score }) => ({ categoryName, score }));
+
+// Plain copies of MediaPipe results: only the fields we use, safe to post between threads
+const toFaceDetection = (face: FaceDetection): FaceDetection => ({
+  faceLandmarks: copyLandmarks(face.faceLandmarks),
+  faceBlendshapes: (face.faceBlendshapes ?? []).map(b => ({ categories: copyCategories(b.categories) })),
+});
+
+const toHandDetection = (hands: HandDetection): HandDetection => ({
+  landmarks: copyLandmarks(hands.landmarks),
+  handedness: (hands.handedness ?? []).map(copyCategories),
+});
+
+// MediaPipe loads its wasm glue with importScripts, which module workers don't allow. In a worker we
+// evaluate the glue ourselves before each task is created (MediaPipe clears it once used) and leave
+// the loader path empty, so MediaPipe finds self.ModuleFactory already set.
+const inWorker = typeof document === 'undefined';
+let loaderSource: Promise<string> | null = null;
+
+const fileset = async (assets: VisionAssets) => {
+  if (!inWorker) return { wasmLoaderPath: assets.wasmLoaderPath, wasmBinaryPath: assets.wasmBinaryPath };
+  loaderSource ??= fetch(assets.wasmLoaderPath).then(response => {
+    if (!response.ok) throw new Error(`Failed to load ${assets.wasmLoaderPath}: HTTP ${response.status}`);
+    return response.text();
+  });
+  (0, eval)(await loaderSource); // Indirect eval runs it as a classic script, defining the global
+  return { wasmLoaderPath: '', wasmBinaryPath: assets.wasmBinaryPath };
+};
+
+const load = async (assets: VisionAssets, delegate: VisionDelegate, canvas?: OffscreenCanvas) => {
+  const face = await FaceLandmarker.createFromOptions(await fileset(assets), {
+    baseOptions: { modelAssetPath: assets.faceModelPath, delegate },
+    canvas,
+    outputFaceBlendshapes: true,
+    runningMode: 'VIDEO',
+    numFaces: 1,
+  });
+  try {
+    const hand = await HandLandmarker.createFromOptions(await fileset(assets), {
+      baseOptions: { modelAssetPath: assets.handModelPath, delegate },
+      canvas,
+      runningMode: 'VIDEO',
+      numHands: 2,
+    });
+    return { face, hand };
+  } catch (err) {
+    face.close();
+    throw err;
+  }
+};
+
+/**
+ * Loads the face and hand landmarkers, on the GPU where it works and on the CPU otherwise
+ * (no WebGL2, blocklisted drivers, some workers). In a worker, `canvas` gives the GPU delegate
+ * an OffscreenCanvas to run on; on the main thread MediaPipe creates its own.
+ */
+export const createLandmarkers = async (assets: VisionAssets, canvas?: OffscreenCanvas): Promise<Landmarkers> => {
+  let delegate: VisionDelegate = 'GPU';
+  let models: Awaited<ReturnType<typeof load>>;
+  try {
+    models = await load(assets, delegate, canvas);
+  } catch (err) {
+    console.warn('GPU delegate unavailable, falling back to CPU:', err);
+    delegate = 'CPU';
+    models = await load(assets, delegate);
+  }
+  const { face, hand } = models;
+
+  return {
+    delegate,
+    detect: (model, frame, timestamp) => {
+      const started = performance.now();
+      if (model === 'face') {
+        const result = toFaceDetection(face.detectForVideo(frame, timestamp));
+        return { model, timestamp, result, cost: performance.now() - started };
+      }
+      const result = toHandDetection(hand.detectForVideo(frame, timestamp));
+      return { model, timestamp, result, cost: performance.now() - started };
+    },
+    close: () => {
+      face.close();
+      hand.close();
+    },
+  };
+};
@@ -0,0 +1,41 @@
+import { VisionAssets } from './assets';
+import { createLandmarkers, Landmarkers } from './landmarkers';
+import { DetectionBackend, DetectionResult, VisionModel } from './types';
+
+/**
+ * Fallback for browsers where the models can't load in a worker: runs inference on the main
+ * thread, straight from the video element. Results are delivered before detect() returns.
+ */
+export class MainThreadBackend implements DetectionBackend {
+  readonly kind = 'main';
+  onResult: ((result: DetectionResult) => void) | null = null;
+  onSkip: ((models: VisionModel[]) => void) | null = null;
+
+  static async create(assets: VisionAssets): Promise<MainThreadBackend> {
+    return new MainThreadBackend(await createLandmarkers(assets));
+  }
+
+  private constructor(private landmarkers: Landmarkers) {}
+
+  get delegate() {
+    return this.landmarkers.delegate;
+  }
+
+  detect(video: HTMLVideoElement, models: VisionModel[], timestamp: number) {
+    models.forEach(model => {
+      try {
+        const result = this.landmarkers.detect(model, video, timestamp);
+        this.onResult?.(result);
+      } catch (e) {
+        console.warn('Detection error (skipping frame):', e);
+        this.onSkip?.([model]);
+      }
+    });
+  }
+
+  dispose() {
+    this.onResult = null;
+    this.onSkip = null;
+    this.landmarkers.close();
+  }
+}
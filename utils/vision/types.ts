@@ -0,0 +1,47 @@
+import { FaceDetection, HandDetection } from '../../types';
+import { VisionAssets } from './assets';
+
+export type VisionModel = 'face' | 'hand';
+export type VisionDelegate = 'GPU' | 'CPU';
+
+export const VISION_MODELS: VisionModel[] = ['face', 'hand'];
+
+// Upper limits per model, in detections per second. Hands drive sowing and need to be snappy;
+// the face only drives growth and blowing. Each is lowered further when inference can't keep up.
+export const DEFAULT_DETECTION_RATES: Record<VisionModel, number> = { face: 20, hand: 30 };
+
+export interface DetectionResults {
+  face: FaceDetection;
+  hand: HandDetection;
+}
+
+// One model's output for one frame, with how long inference took
+export type DetectionResult = {
+  [M in VisionModel]: { model: M; timestamp: number; result: DetectionResults[M]; cost: number };
+}[VisionModel];
+
+/**
+ * Where inference runs: a Web Worker, or the main thread where workers can't host the models.
+ * detect() may return before the results are ready; they arrive through onResult, or onSkip for
+ * models that got none for the frame (it couldn't be captured, or inference failed).
+ */
+export interface DetectionBackend {
+  readonly kind: 'worker' | 'main';
+  readonly delegate: VisionDelegate;
+  detect(video: HTMLVideoElement, models: VisionModel[], timestamp: number): void;
+  onResult: ((result: DetectionResult) => void) | null;
+  onSkip: ((models: VisionModel[]) => void) | null;
+  dispose(): void;
+}
+
+// Messages to the vision worker
+export type VisionRequest =
+  | { type: 'init'; assets: VisionAssets }
+  | { type: 'detect'; models: VisionModel[]; frame: ImageBitmap; timestamp: number };
+
+// Messages from the vision worker
+export type VisionResponse =
+  | { type: 'ready'; delegate: VisionDelegate }
+  | { type: 'result'; result: DetectionResult }
+  // `models`: the ones a failed detect left unanswered
+  | { type: 'error'; message: string; fatal: boolean; models?: VisionModel[] };
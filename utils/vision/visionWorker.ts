@@ -0,0 +1,42 @@
+// Web Worker entry: runs the landmarkers off the main thread on frames transferred as ImageBitmaps.
+import { createLandmarkers, Landmarkers } from './landmarkers';
+import { VisionAssets } from './assets';
+import { VisionRequest, VisionResponse } from './types';
+
+let landmarkers: Landmarkers | null = null;
+
+const respond = (response: VisionResponse) => self.postMessage(response);
+
+const init = async (assets: VisionAssets) => {
+  try {
+    landmarkers = await createLandmarkers(assets, new OffscreenCanvas(1, 1));
+    respond({ type: 'ready', delegate: landmarkers.delegate });
+  } catch (err) {
+    respond({ type: 'error', message: String(err), fatal: true });
+  }
+};
+
+self.onmessage = (e: MessageEvent<VisionRequest>) => {
+  const request = e.data;
+  switch (request.type) {
+    case 'init':
+      init(request.assets);
+      break;
+    case 'detect': {
+      const { frame, models, timestamp } = request;
+      let answered = 0;
+      try {
+        if (!landmarkers) throw new Error('Landmarkers are not loaded yet');
+        for (const model of models) {
+          respond({ type: 'result', result: landmarkers.detect(model, frame, timestamp) });
+          answered++;
+        }
+      } catch (err) {
+        respond({ type: 'error', message: String(err), fatal: false, models: models.slice(answered) });
+      } finally {
+        frame.close();
+      }
+      break;
+    }
+  }
+};
@@ -0,0 +1,73 @@
+import { VisionAssets } from './assets';
+import { DetectionBackend, DetectionResult, VisionDelegate, VisionModel, VisionRequest, VisionResponse } from './types';
+
+const INIT_TIMEOUT = 30000; // ms to load the models in the worker before giving up on it
+
+/** Runs the landmarkers in a Web Worker; video frames are handed over as transferred ImageBitmaps. */
+export class WorkerBackend implements DetectionBackend {
+  readonly kind = 'worker';
+  onResult: ((result: DetectionResult) => void) | null = null;
+  onSkip: ((models: VisionModel[]) => void) | null = null;
+
+  // Resolves once the worker has loaded the models; rejects if it can't
+  static create(assets: VisionAssets): Promise<WorkerBackend> {
+    return new Promise((resolve, reject) => {
+      let worker: Worker;
+      try {
+        worker = new Worker(new URL('./visionWorker.ts', import.meta.url), { type: 'module' });
+      } catch (err) {
+        reject(err);
+        return;
+      }
+      const fail = (reason: unknown) => {
+        clearTimeout(timeout);
+        worker.terminate();
+        reject(reason);
+      };
+      const timeout = setTimeout(() => fail(new Error('Vision worker timed out loading models')), INIT_TIMEOUT);
+      worker.onerror = e => fail(new Error(e.message));
+      worker.onmessage = (e: MessageEvent<VisionResponse>) => {
+        if (e.data.type === 'error') {
+          fail(new Error(e.data.message));
+        } else if (e.data.type === 'ready') {
+          clearTimeout(timeout);
+          resolve(new WorkerBackend(worker, e.data.delegate));
+        }
+      };
+      worker.postMessage({ type: 'init', assets } satisfies VisionRequest);
+    });
+  }
+
+  private constructor(private worker: Worker, readonly delegate: VisionDelegate) {
+    worker.onerror = e => console.warn('Vision worker error:', e.message);
+    worker.onmessage = (e: MessageEvent<VisionResponse>) => {
+      const response = e.data;
+      if (response.type === 'result') {
+        this.onResult?.(response.result);
+      } else if (response.type === 'error') {
+        console.warn('Detection error (skipping frame):', response.message);
+        if (response.models) this.onSkip?.(response.models);
+      }
+    };
+  }
+
+  detect(video: HTMLVideoElement, models: VisionModel[], timestamp: number) {
+    // Grabbing the frame is cheap on the main thread; the bitmap is moved to the worker, not copied
+    createImageBitmap(video).then(
+      frame => {
+        const request: VisionRequest = { type: 'detect', models, frame, timestamp };
+        this.worker.postMessage(request, [frame]);
+      },
+      err => {
+        console.warn('Could not capture video frame:', err);
+        this.onSkip?.(models);
+      }
+    );
+  }
+
+  dispose() {
+    this.onResult = null;
+    this.onSkip = null;
+    this.worker.terminate();
+  }
+}